@@ -4,17 +4,42 @@
  * Implements singleton pattern with cached results (FR-013)
  */
 
+import type { ClipPathFormat, RendererName } from './types';
+
 export enum RendererTier {
   NATIVE = 'native',
   HOUDINI = 'houdini',
   CLIPPATH = 'clippath',
+  MASK = 'mask',
   FALLBACK = 'fallback',
 }
 
+/**
+ * Detection priority of the built-in tiers (higher is tried first)
+ * Renderers added with CornerKit.registerRenderer() are ordered among these
+ */
+export const TIER_PRIORITY: Readonly<Record<RendererTier, number>> = {
+  [RendererTier.NATIVE]: 500,
+  [RendererTier.HOUDINI]: 400,
+  [RendererTier.CLIPPATH]: 300,
+  [RendererTier.MASK]: 200,
+  [RendererTier.FALLBACK]: 0,
+};
+
+/**
+ * Check if a tier name is one of the built-in tiers
+ *
+ * @param name - Tier name
+ */
+export function isBuiltinTier(name: string): name is RendererTier {
+  return Object.prototype.hasOwnProperty.call(TIER_PRIORITY, name);
+}
+
 export interface BrowserSupport {
   native: boolean;
   houdini: boolean;
   clippath: boolean;
+  mask: boolean;
   fallback: boolean;
 }
 
@@ -25,6 +50,17 @@ export interface BrowserSupport {
 export class CapabilityDetector {
   private static instance: CapabilityDetector | null = null;
   private cachedSupport: BrowserSupport | null = null;
+  private cachedClipPathFormat: ClipPathFormat | null = null;
+
+  /**
+   * Additional tiers from registered renderers, with their cached support result
+   */
+  private customTiers: Array<{
+    name: string;
+    priority: number;
+    supports: () => boolean;
+    supported?: boolean;
+  }> = [];
 
   private constructor() {
     // Private constructor enforces singleton pattern
@@ -55,6 +91,7 @@ export class CapabilityDetector {
       native: this.detectNative(), // FR-009
       houdini: this.detectHoudini(), // FR-010
       clippath: this.detectClipPath(), // FR-011
+      mask: this.detectMask(),
       fallback: true, // FR-012: Always available
     };
 
@@ -63,29 +100,61 @@ export class CapabilityDetector {
 
   /**
    * Detect best available tier for rendering
-   * Returns highest tier supported by browser
+   * Returns the highest-priority tier supported by the browser, built-in or registered
+   * (built-in tiers win ties)
    */
-  public detectTier(): RendererTier {
+  public detectTier(): RendererName {
     const support = this.supports();
 
-    if (support.native) {
-      return RendererTier.NATIVE;
-    }
+    const candidates = [
+      ...(Object.keys(TIER_PRIORITY) as RendererTier[]).map((tier) => ({
+        name: tier as RendererName,
+        priority: TIER_PRIORITY[tier],
+        isSupported: () => support[tier],
+      })),
+      ...this.customTiers.map((tier) => ({
+        name: tier.name,
+        priority: tier.priority,
+        isSupported: () => this.detectCustom(tier),
+      })),
+    ].sort((a, b) => b.priority - a.priority);
 
-    if (support.houdini) {
-      return RendererTier.HOUDINI;
-    }
+    const tier = candidates.find((candidate) => candidate.isSupported());
+    return tier ? tier.name : RendererTier.FALLBACK;
+  }
 
-    if (support.clippath) {
-      return RendererTier.CLIPPATH;
-    }
+  /**
+   * Add a tier to detection (used by CornerKit.registerRenderer())
+   * Registering an existing name replaces it and re-runs its support check
+   *
+   * @param name - Tier name
+   * @param priority - Detection priority, compared with TIER_PRIORITY
+   * @param supports - Feature check, run once when the tier is first considered
+   */
+  public registerTier(name: string, priority: number, supports: () => boolean): void {
+    this.customTiers = this.customTiers.filter((tier) => tier.name !== name);
+    this.customTiers.push({ name, priority, supports });
+  }
 
-    return RendererTier.FALLBACK;
+  /**
+   * Run (and cache) the feature check of a registered tier
+   * A throwing check counts as unsupported
+   */
+  private detectCustom(tier: { supports: () => boolean; supported?: boolean }): boolean {
+    if (tier.supported === undefined) {
+      try {
+        tier.supported = tier.supports() === true;
+      } catch {
+        tier.supported = false;
+      }
+    }
+    return tier.supported;
   }
 
   /**
-   * FR-009: Detect Native CSS corner-shape: squircle support
+   * FR-009: Detect Native CSS corner-shape support
    * Chrome 139+ (when available)
+   * Probes the superellipse() function first, then the early `squircle` keyword
    */
   private detectNative(): boolean {
     if (typeof CSS === 'undefined' || !CSS.supports) {
@@ -93,7 +162,9 @@ export class CapabilityDetector {
     }
 
     try {
-      return CSS.supports('corner-shape', 'squircle');
+      return (
+        CSS.supports('corner-shape', 'superellipse(2)') || CSS.supports('corner-shape', 'squircle')
+      );
     } catch {
       return false;
     }
@@ -131,6 +202,51 @@ export class CapabilityDetector {
     }
   }
 
+  /**
+   * Pick the CSS function for responsive clip-paths (`responsive: true`)
+   * shape() keeps the curves exact; polygon() is flattened but works wherever
+   * clip-path does. Cached after the first call
+   */
+  public clipPathFormat(): ClipPathFormat {
+    if (!this.cachedClipPathFormat) {
+      this.cachedClipPathFormat = this.detectShapeFunction() ? 'shape' : 'polygon';
+    }
+
+    return this.cachedClipPathFormat;
+  }
+
+  /**
+   * Detect CSS shape() support in clip-path
+   * Chrome 135+, Safari 18.4+
+   */
+  private detectShapeFunction(): boolean {
+    if (typeof CSS === 'undefined' || !CSS.supports) {
+      return false;
+    }
+
+    try {
+      return CSS.supports('clip-path', 'shape(from 0 0, line to 100% 0, line to 0 100%, close)');
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Detect SVG mask-image support (data URI masks)
+   * Probes the unprefixed property, then -webkit-mask-image (Safari < 15.4, Chrome < 120)
+   */
+  private detectMask(): boolean {
+    if (typeof CSS === 'undefined' || !CSS.supports) {
+      return false;
+    }
+
+    try {
+      return CSS.supports('mask-image', 'url("")') || CSS.supports('-webkit-mask-image', 'url("")');
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Static method for convenient access without instantiation
    */
@@ -4,9 +4,9 @@
  * Provides lifecycle management and observer cleanup (FR-023, FR-026)
  */
 
-import type { SquircleConfig, OriginalStyles } from './types';
-import type { RendererTier } from './detector';
+import type { SquircleConfig, OriginalStyles, RendererName } from './types';
 import { warnDuplicateApply } from '../utils/logger';
+import { unwrapElement } from '../utils/shadow';
 
 /**
  * ManagedElement Interface
@@ -29,12 +29,12 @@ export interface ManagedElement {
    * Detected renderer tier for this element
    * Cached to avoid repeated detection
    */
-  tier: RendererTier;
+  tier: RendererName;
 
   /**
    * ResizeObserver instance for this element (optional)
    * Tracks dimension changes, triggers clip-path updates
-   * Only used for CLIPPATH tier
+   * Only used by renderers that regenerate the path on resize
    */
   resizeObserver?: ResizeObserver;
 
@@ -59,6 +59,24 @@ export interface ManagedElement {
    * Used to restore element to original state on remove()
    */
   originalStyles?: OriginalStyles;
+
+  /**
+   * Wrapper element inserted around the element to render shadows (optional)
+   * Removed and the original DOM restored when the element is deleted
+   */
+  shadowWrapper?: HTMLElement;
+
+  /**
+   * Whether the ResizeObserver is paused (optional)
+   * Paused elements keep their squircle but are not re-rendered on resize
+   */
+  paused?: boolean;
+
+  /**
+   * Removes the abort listener of the signal passed to apply() (optional)
+   * Called when the element is deleted or applied again
+   */
+  releaseSignal?: () => void;
 }
 
 /**
@@ -95,7 +113,7 @@ export class ElementRegistry {
   register(
     element: HTMLElement,
     config: SquircleConfig,
-    tier: RendererTier,
+    tier: RendererName,
     resizeObserver?: ResizeObserver,
     intersectionObserver?: IntersectionObserver,
     originalStyles?: OriginalStyles
@@ -115,11 +133,16 @@ export class ElementRegistry {
         existing.resizeObserver?.disconnect();
         existing.intersectionObserver?.disconnect();
 
+        // The new apply() decides which signal removes the element
+        existing.releaseSignal?.();
+        existing.releaseSignal = undefined;
+
         // Update existing entry (more efficient than creating new object)
         existing.config = config;
         existing.tier = tier;
         existing.resizeObserver = resizeObserver;
         existing.intersectionObserver = intersectionObserver;
+        existing.paused = false;
         existing.lastDimensions = {
           width: element.offsetWidth,
           height: element.offsetHeight,
@@ -189,6 +212,13 @@ export class ElementRegistry {
       }
       managed.resizeObserver?.disconnect();
       managed.intersectionObserver?.disconnect();
+      managed.releaseSignal?.();
+
+      // Put the element back in place of its shadow wrapper
+      if (managed.shadowWrapper) {
+        unwrapElement(element, managed.shadowWrapper);
+        managed.shadowWrapper = undefined;
+      }
 
       // Remove from WeakMap and tracking Set
       this.elements.delete(element);
@@ -236,6 +266,52 @@ export class ElementRegistry {
     }
   }
 
+  /**
+   * Pause or resume the element's ResizeObserver
+   * Pausing cancels a pending re-render and disconnects the observer; resuming
+   * observes the element again
+   *
+   * @param element - HTMLElement to update
+   * @param paused - New paused state
+   * @returns true if the paused state changed
+   */
+  setPaused(element: HTMLElement, paused: boolean): boolean {
+    const managed = this.get(element);
+
+    if (!managed || (managed.paused ?? false) === paused) {
+      return false;
+    }
+
+    managed.paused = paused;
+
+    // Renderers add cleanup() to cancel a pending requestAnimationFrame re-render
+    const observer = managed.resizeObserver as
+      | (ResizeObserver & { cleanup?: () => void })
+      | undefined;
+    if (paused) {
+      observer?.cleanup?.();
+      observer?.disconnect();
+    } else {
+      observer?.observe(element);
+    }
+
+    return true;
+  }
+
+  /**
+   * Set or clear the shadow wrapper tracked for an element
+   *
+   * @param element - HTMLElement to update
+   * @param wrapper - Wrapper element, or undefined once it has been removed
+   */
+  setShadowWrapper(element: HTMLElement, wrapper: HTMLElement | undefined): void {
+    const managed = this.get(element);
+
+    if (managed) {
+      managed.shadowWrapper = wrapper;
+    }
+  }
+
   /**
    * Get all managed elements
    * Returns array of currently tracked elements
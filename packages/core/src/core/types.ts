@@ -5,6 +5,184 @@
 
 import { RendererTier } from './detector';
 
+/**
+ * Corner identifier, in CSS border-radius order (TL, TR, BR, BL)
+ */
+export type Corner = 'topLeft' | 'topRight' | 'bottomRight' | 'bottomLeft';
+
+/**
+ * One value for each of the four corners
+ */
+export type CornerValues<T> = { [K in Corner]: T };
+
+/**
+ * A single value for all corners, or an object with per-corner values
+ * Corners omitted from the object keep their inherited value
+ * (global default on apply(), current value on update())
+ *
+ * @example
+ * ```typescript
+ * { radius: 24 }                                // all corners
+ * { radius: { topLeft: 24, topRight: 24, bottomRight: 0, bottomLeft: 0 } } // sheet
+ * ```
+ */
+export type PerCornerValue<T> = T | Partial<CornerValues<T>>;
+
+/**
+ * Radius in pixels, or a CSS length resolved against the element at render time
+ * Units: px, rem, em (element font size), vw, vh, % (of the shorter side)
+ *
+ * @example
+ * ```typescript
+ * { radius: '1.5rem' } // grows with the user's font size
+ * { radius: '50%' }    // capsule
+ * ```
+ */
+export type RadiusValue = number | string;
+
+/**
+ * How numeric radii are measured
+ * - 'absolute': pixels
+ * - 'relative': fraction of the shorter side (0.5 = capsule)
+ */
+export type RadiusMode = 'absolute' | 'relative';
+
+/**
+ * GradientConfig Interface
+ * Linear gradient painted into generated SVG images
+ * Angle follows CSS linear-gradient() (0 = to top, 90 = to right); stops are evenly spaced
+ */
+export interface GradientConfig {
+  /**
+   * Gradient angle in degrees
+   * @default 180 (top to bottom)
+   */
+  angle?: number;
+
+  /**
+   * Color stops (any CSS colors)
+   */
+  stops: string[];
+}
+
+/**
+ * StrokeConfig Interface
+ * Border drawn along the squircle outline (CSS `border` is clipped away at the corners)
+ */
+export interface StrokeConfig {
+  /**
+   * Stroke width in pixels (drawn fully inside the shape)
+   * @minimum 0
+   */
+  width: number;
+
+  /**
+   * Stroke color (any CSS color)
+   * Ignored when gradient is set
+   * @default element's computed `color`
+   */
+  color?: string;
+
+  /**
+   * Line style
+   * @default 'solid'
+   */
+  style?: 'solid' | 'dashed' | 'dotted';
+
+  /**
+   * Linear gradient along the stroke
+   */
+  gradient?: GradientConfig;
+}
+
+/**
+ * ShadowConfig Interface
+ * Outer shadow that follows the squircle outline (CSS `box-shadow` is clipped away)
+ */
+export interface ShadowConfig {
+  /**
+   * Horizontal offset in pixels
+   * @default 0
+   */
+  offsetX?: number;
+
+  /**
+   * Vertical offset in pixels
+   * @default 0
+   */
+  offsetY?: number;
+
+  /**
+   * Blur radius in pixels (same meaning as in box-shadow)
+   * @minimum 0
+   * @default 0
+   */
+  blur?: number;
+
+  /**
+   * Shadow color (any CSS color)
+   * @default element's computed `color` (currentColor)
+   */
+  color?: string;
+}
+
+/**
+ * FocusRingConfig Interface
+ * Squircle-shaped focus indicator drawn outside the element on :focus-visible
+ * (the browser's own outline is clipped at the corners by clip-path/mask)
+ */
+export interface FocusRingConfig {
+  /**
+   * Ring width in pixels
+   * @minimum 0
+   * @default 2
+   */
+  width?: number;
+
+  /**
+   * Ring color (any CSS color)
+   * @default element's computed `color`
+   */
+  color?: string;
+
+  /**
+   * Gap between the element edge and the ring in pixels (like CSS outline-offset)
+   * @minimum 0
+   * @default 2
+   */
+  outlineOffset?: number;
+}
+
+/**
+ * Corner curve algorithm
+ * - 'figma': Figma corner smoothing (arc + Béziers), extends (1 + smoothing) × radius along each edge
+ * - 'superellipse': true superellipse (Lamé curve) corners that span `radius`, like border-radius
+ * - 'apple': UIKit/SwiftUI continuous corners, 1.53 × radius along each edge; `smoothing` is ignored
+ */
+export type CornerAlgorithm = 'figma' | 'superellipse' | 'apple';
+
+/**
+ * CSS function used for responsive clip-paths (`responsive: true`)
+ * - 'shape': CSS shape() with exact curves
+ * - 'polygon': polygon() with the curves flattened, for browsers without shape()
+ */
+export type ClipPathFormat = 'shape' | 'polygon';
+
+/**
+ * Custom shape: returns SVG path data for an element of the given size
+ * Coordinates start at 0,0 (top-left) and span width × height
+ *
+ * @param width - Element width in pixels
+ * @param height - Element height in pixels
+ * @param config - Element configuration (radius, smoothing, ...), radii in pixels
+ * @returns SVG path data, e.g. 'M 0,0 L 100,0 ... Z'
+ */
+export type ShapeFunction = (
+  width: number,
+  height: number,
+  config: ResolvedSquircleConfig
+) => string;
+
 /**
  * SquircleConfig Interface
  * Configuration object for squircle rendering
@@ -13,27 +191,147 @@ import { RendererTier } from './detector';
  */
 export interface SquircleConfig {
   /**
-   * Corner radius in pixels
+   * Corner radius in pixels or a CSS length (see RadiusValue), uniform or per corner
+   * Adjacent radii that exceed a side are scaled down proportionally (like CSS)
    * @minimum 0
    * @default 20
    */
-  radius: number;
+  radius: PerCornerValue<RadiusValue>;
 
   /**
-   * Smoothing factor (0 = square corners, 1 = circle)
+   * Optional: Vertical corner radius for elliptical corners, uniform or per corner
+   * `radius` becomes the horizontal radius, like CSS `border-radius: x / y`; omitted
+   * corners stay circular. Drawn by every tier except Houdini.
+   * Pass `null` to update() to return to circular corners.
+   * @minimum 0
+   */
+  radiusY?: PerCornerValue<RadiusValue> | null;
+
+  /**
+   * Optional: Measure numeric radius/radiusY in pixels or as a fraction of the
+   * shorter side (e.g. 0.2237 for iOS app icons). Relative radii are recomputed on
+   * every resize, so auto-detection picks a path tier. CSS lengths are unaffected.
+   * @default 'absolute'
+   */
+  radiusMode?: RadiusMode;
+
+  /**
+   * Optional: Stadium shape: every corner radius is half the shorter side, on every
+   * resize. Overrides radius and radiusY; the corner algorithm still applies
+   * (`algorithm: 'apple'` gives a continuous capsule).
+   * @default false
+   */
+  capsule?: boolean;
+
+  /**
+   * Smoothing factor (0 = square corners, 1 = circle), uniform or per corner
    * Controls superellipse exponent: n = 2 + (4-2) * (1-smoothing)
    * @minimum 0
    * @maximum 1
    * @default 0.8
    */
-  smoothing: number;
+  smoothing: PerCornerValue<number>;
+
+  /**
+   * Optional: Figma's "preserve smoothing" for corners that do not fit
+   * When (1 + smoothing) × radius exceeds a corner's share of the edges, the default
+   * lowers the smoothing until it fits; `true` keeps the smoothing and shortens the
+   * curve handles instead. Figma algorithm only (path tiers and Houdini)
+   * @default false
+   */
+  preserveSmoothing?: boolean;
+
+  /**
+   * Optional: Border that follows the squircle outline
+   * Drawn as a generated SVG background layer by the clip-path tier.
+   * Pass `null` to update() to remove an existing stroke.
+   * @optional
+   */
+  stroke?: StrokeConfig | null;
+
+  /**
+   * Optional: Outer shadow(s) that follow the squircle outline
+   * Rendered with `filter: drop-shadow()` on a wrapper element inserted around the element.
+   * Multiple shadows are layered in order. Pass `null` to update() to remove them.
+   * @optional
+   */
+  shadow?: ShadowConfig | ShadowConfig[] | null;
+
+  /**
+   * Optional: Opt-in squircle focus ring shown on :focus-visible
+   * `true` uses the defaults. Pass `null` or `false` to update() to turn it off.
+   * @optional
+   */
+  focusRing?: FocusRingConfig | boolean | null;
+
+  /**
+   * Optional: How the squircle is rendered
+   * - 'clip': shape the element itself (clip-path, mask, corner-shape, ... per tier)
+   * - 'background': paint the squircle as a generated SVG background-image and leave
+   *   children, shadows and outlines unclipped (tier-independent)
+   * Set on apply(); changing it requires remove() + apply()
+   * @default 'clip'
+   */
+  mode?: 'clip' | 'background';
+
+  /**
+   * Optional: Responsive clip-path output (clip-path tier)
+   * Writes the clip-path as CSS shape() (or a flattened polygon()) in
+   * `calc(100% - Npx)` coordinates: corners keep the size they were rendered at,
+   * edges stretch with the element, and no ResizeObserver runs. Elements with a
+   * stroke keep their observer. Corners are re-rendered by update().
+   * @default false
+   */
+  responsive?: boolean;
+
+  /**
+   * Optional: Corner curve algorithm
+   * @default 'figma'
+   */
+  algorithm?: CornerAlgorithm;
+
+  /**
+   * Optional: Superellipse exponent n for `algorithm: 'superellipse'` (|x|^n + |y|^n = 1)
+   * Overrides the exponent derived from smoothing (smoothingToExponent()).
+   * Pass `null` to update() to derive it from smoothing again.
+   * @minimum 2
+   */
+  exponent?: number | null;
+
+  /**
+   * Optional: Decimal places of generated path coordinates (0-4)
+   * Setting it also writes paths in compact form (relative commands, no leading
+   * zeros or redundant separators), which shortens inline clip-path and mask strings.
+   * Pass `null` to update() to return to the default output.
+   * @minimum 0
+   * @maximum 4
+   * @default 2
+   */
+  precision?: number | null;
+
+  /**
+   * Optional: Custom corner profile instead of the Figma squircle
+   * A ShapeFunction, or the name of a shape added with CornerKit.registerShape().
+   * Used by the path-based tiers (clip-path, mask, background mode), strokes and
+   * focus rings; auto-detection prefers those tiers when a shape is set.
+   * Pass `null` to update() to return to the squircle.
+   * @default 'squircle'
+   */
+  shape?: ShapeFunction | string | null;
+
+  /**
+   * Optional: Squircle fill for `mode: 'background'` (CSS color or gradient)
+   * @default element's computed `background-color`
+   */
+  fill?: string | GradientConfig;
 
   /**
    * Optional: Force specific renderer tier
    * Normally auto-detected, but can be overridden for testing
+   * Also accepts the name of a renderer added with CornerKit.registerRenderer()
    * @optional
    */
-  tier?: RendererTier;
+  tier?: RendererName;
 }
 
 /**
@@ -42,10 +340,27 @@ export interface SquircleConfig {
  */
 export type PartialSquircleConfig = Partial<SquircleConfig>;
 
+/**
+ * Configuration passed to renderers and shapes
+ * CSS lengths in `radius` and `radiusY` are resolved to pixels for the element's
+ * current size and font sizes
+ */
+export interface ResolvedSquircleConfig extends SquircleConfig {
+  radius: PerCornerValue<number>;
+  radiusY?: PerCornerValue<number> | null;
+
+  /**
+   * Radii as configured, present when they contain font- or viewport-relative lengths
+   * (rem, em, vw, vh). The native, Houdini and fallback tiers write those lengths into
+   * CSS as they are, so the browser keeps them current
+   */
+  lengths?: Pick<SquircleConfig, 'radius' | 'radiusY'>;
+}
+
 /**
  * Default configuration values
  */
-export const DEFAULT_CONFIG: Readonly<Required<Omit<SquircleConfig, 'tier'>>> = {
+export const DEFAULT_CONFIG: Readonly<Required<Pick<SquircleConfig, 'radius' | 'smoothing'>>> = {
   radius: 20,    // iOS-typical size for buttons
   smoothing: 0.8, // iOS-like appearance (n ≈ 2.4)
 } as const;
@@ -56,6 +371,11 @@ export const DEFAULT_CONFIG: Readonly<Required<Omit<SquircleConfig, 'tier'>>> =
  */
 export { RendererTier } from './detector';
 
+/**
+ * Renderer name: a built-in tier or a name passed to CornerKit.registerRenderer()
+ */
+export type RendererName = RendererTier | (string & Record<never, never>);
+
 /**
  * Browser Support Interface
  * Re-exported from detector.ts for convenience
@@ -80,6 +400,71 @@ export interface RenderOptions {
   reducedMotion?: boolean;
 }
 
+/**
+ * RendererContext Interface
+ * Passed to Renderer.apply() so renderers can follow config and size changes
+ */
+export interface RendererContext {
+  /**
+   * Accessibility and behavior options
+   */
+  options: RenderOptions;
+
+  /**
+   * Report new element dimensions (returned by inspect())
+   */
+  onDimensionUpdate: (width: number, height: number) => void;
+
+  /**
+   * Get the element's current config (reflects later update() calls), with CSS
+   * lengths resolved for the element's current size
+   */
+  getConfig: () => ResolvedSquircleConfig;
+}
+
+/**
+ * Renderer Interface
+ * Implemented by every rendering tier; custom renderers are added with
+ * CornerKit.registerRenderer()
+ */
+export interface Renderer {
+  /**
+   * Whether this renderer works in the current browser
+   * Called once by the detector; the result is cached
+   */
+  supports(): boolean;
+
+  /**
+   * Render the squircle on an element
+   * May return a ResizeObserver, which is disconnected when the element is removed
+   *
+   * @param element - Target HTMLElement
+   * @param config - Merged squircle configuration, radii in pixels
+   * @param context - Callbacks and options for this element
+   */
+  apply(
+    element: HTMLElement,
+    config: ResolvedSquircleConfig,
+    context: RendererContext
+  ): ResizeObserver | void;
+
+  /**
+   * Re-render after update() with the element's new config
+   *
+   * @param element - Target HTMLElement
+   * @param config - Updated squircle configuration
+   */
+  update(element: HTMLElement, config: ResolvedSquircleConfig): void;
+
+  /**
+   * Remove the squircle and restore the element's original styles
+   *
+   * @param element - Target HTMLElement
+   * @param originalStyles - Inline styles captured before apply()
+   */
+  remove(element: HTMLElement, originalStyles?: OriginalStyles): void;
+}
+
 /**
  * OriginalStyles Interface
  * Stores original element styles for restoration on remove()
@@ -89,6 +474,12 @@ export interface OriginalStyles {
    * Original transition value before cornerKit modification
    */
   transition?: string;
+
+  /**
+   * Original inline border-radius before cornerKit modification
+   * Restored by the renderers that set border-radius (native, fallback)
+   */
+  borderRadius?: string;
 }
 
 /**
@@ -105,7 +496,7 @@ export interface ManagedElementInfo {
   /**
    * Renderer tier being used for this element
    */
-  tier: RendererTier;
+  tier: RendererName;
 
   /**
    * Current element dimensions (width x height in pixels)
@@ -115,4 +506,115 @@ export interface ManagedElementInfo {
     width: number;
     height: number;
   };
+
+  /**
+   * Whether re-rendering on resize is paused (pause() / resume())
+   */
+  paused: boolean;
+}
+
+declare global {
+  /**
+   * Symbol.dispose, declared for projects whose `lib` predates ESNext.Disposable
+   * (same declaration as TypeScript's lib, so both merge)
+   */
+  interface SymbolConstructor {
+    readonly dispose: unique symbol;
+  }
+}
+
+/**
+ * Handle returned by apply() for one element
+ * Works with `using` declarations (TypeScript 5.2+), which remove the squircle
+ * when the handle goes out of scope
+ *
+ * @example
+ * ```typescript
+ * const handle = ck.apply('#card', { radius: 24 });
+ * handle.update({ smoothing: 0.9 });
+ * handle.remove();
+ * ```
+ */
+export interface SquircleHandle {
+  /**
+   * Element the squircle was applied to
+   */
+  readonly element: HTMLElement;
+
+  /**
+   * Update the element's configuration (same as `ck.update(element, config)`)
+   */
+  update(config: Partial<SquircleConfig>): void;
+
+  /**
+   * Remove the squircle (same as `ck.remove(element)`)
+   * Does nothing if the element is no longer managed, so cleanups can call it safely
+   */
+  remove(): void;
+
+  /**
+   * Current configuration, tier and dimensions (same as `ck.inspect(element)`)
+   */
+  inspect(): ManagedElementInfo | null;
+
+  /**
+   * Stop re-rendering on resize (same as `ck.pause(element)`)
+   */
+  pause(): void;
+
+  /**
+   * Re-render at the current size and follow resizes again (same as `ck.resume(element)`)
+   */
+  resume(): void;
+
+  /**
+   * Same as remove(), for `using` declarations
+   */
+  [Symbol.dispose](): void;
+}
+
+/**
+ * Options for apply()
+ */
+export interface ApplyOptions {
+  /**
+   * Remove the squircle when the signal aborts, like addEventListener()'s `signal`
+   * Nothing is applied if the signal has already aborted
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Where applyAll() and auto() look for elements
+ * `signal` removes the squircles they apply (and stops auto() for the root)
+ */
+export interface ScopeOptions extends ApplyOptions {
+  /**
+   * Document, ShadowRoot or Element to search (its descendants)
+   * Web components can pass their own shadow root
+   * @default document
+   */
+  root?: ParentNode;
+
+  /**
+   * Also search open shadow roots inside `root`, recursively
+   * Closed shadow roots cannot be reached
+   * @default false
+   */
+  deep?: boolean;
+}
+
+/**
+ * Options for auto()
+ */
+export interface AutoOptions extends ScopeOptions {
+  /**
+   * Keep watching the root with a MutationObserver: inserted `data-squircle`
+   * elements get squircles, changed `data-squircle-*` attributes update them, and
+   * removed elements (or removed `data-squircle` attributes) are cleaned up
+   * With `deep`, open shadow roots found inside the root are watched too
+   * Stopped by the next auto() call for the same root or destroy()
+   * @default false
+   */
+  live?: boolean;
 }
@@ -5,16 +5,112 @@
  * @packageDocumentation
  */
 
-import { CapabilityDetector, RendererTier } from './core/detector';
+import { CapabilityDetector, RendererTier, isBuiltinTier } from './core/detector';
 import { ElementRegistry, type ManagedElement } from './core/registry';
-import { DEFAULT_CONFIG, type SquircleConfig, type ManagedElementInfo } from './core/types';
-import { ClipPathRenderer } from './renderers/clippath';
-import { FallbackRenderer } from './renderers/fallback';
-import { validateRadius, validateSmoothing, validateElement } from './utils/validator';
+import {
+  DEFAULT_CONFIG,
+  type FocusRingConfig,
+  type ShadowConfig,
+  type SquircleConfig,
+  type StrokeConfig,
+  type ManagedElementInfo,
+  type OriginalStyles,
+  type Renderer,
+  type RendererContext,
+  type RendererName,
+  type ShapeFunction,
+  type CornerAlgorithm,
+  type ClipPathFormat,
+  type RadiusMode,
+  type RadiusValue,
+  type ResolvedSquircleConfig,
+  type ApplyOptions,
+  type AutoOptions,
+  type ScopeOptions,
+  type SquircleHandle,
+} from './core/types';
+import { createBuiltinRenderer, type BuiltinRendererKey } from './renderers/builtin';
+import {
+  DEFAULT_SHAPE,
+  clearPathCache,
+  configurePathCache,
+  getPathCacheStats,
+  registerShape,
+  type PathCacheOptions,
+  type PathCacheStats,
+} from './math/path-generator';
+import {
+  validateCornerRadius,
+  validateCornerSmoothing,
+  validateStroke,
+  validateShadow,
+  validateFocusRing,
+  validateMode,
+  validateResponsive,
+  validateFill,
+  validateShape,
+  validateAlgorithm,
+  validateExponent,
+  validatePrecision,
+  validatePreserveSmoothing,
+  validateRadiusMode,
+  validateCapsule,
+  validateElement,
+  validateRoot,
+} from './utils/validator';
 import { warn } from './utils/logger';
-import { parseDataAttributes } from './utils/data-attributes';
+import {
+  SQUIRCLE_ATTRIBUTES,
+  hasSquircleAttribute,
+  parseDataAttributes,
+} from './utils/data-attributes';
+import { isPerCorner } from './math/corners';
+import { formatShadowFilter, unwrapElement, wrapElement } from './utils/shadow';
+import { FocusRing } from './utils/focus-ring';
+import { LengthWatcher } from './utils/length-watcher';
+import { hasLiveLength, isSizeRelative, resolveRadii } from './utils/units';
+import { findShadowRoots, queryAll } from './utils/query';
+import { getWindow, isHTMLElement } from './utils/realm';
 import { prefersReducedMotion, watchReducedMotionPreference } from './utils/accessibility';
 
+/**
+ * Key of SquircleHandle's dispose method
+ * Browsers without explicit resource management have no Symbol.dispose; polyfills
+ * and transpiled `using` declarations fall back to the registered symbol
+ */
+const disposeSymbol: typeof Symbol.dispose =
+  Symbol.dispose ?? (Symbol.for('Symbol.dispose') as typeof Symbol.dispose);
+
+/**
+ * auto() state for one root
+ */
+interface AutoScope {
+  /**
+   * Lazy loading for off-screen elements, created for the first one
+   */
+  lazyObserver?: IntersectionObserver;
+
+  /**
+   * Observer for auto({ live: true })
+   */
+  liveObserver?: MutationObserver;
+
+  /**
+   * Whether open shadow roots inside the root are searched
+   */
+  deep: boolean;
+
+  /**
+   * Signal passed to auto(), also used for the elements it applies
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Removes the abort listener of the signal
+   */
+  releaseSignal?: () => void;
+}
+
 /**
  * CornerKit Main API Class
  * FR-001, FR-002: Apply squircles to HTML elements with progressive enhancement
@@ -45,17 +141,38 @@ export default class CornerKit {
   private registry: ElementRegistry;
 
   /**
-   * Renderer instances
+   * Renderers added with registerRenderer(), shared by all instances
+   */
+  private static customRenderers = new Map<string, Renderer>();
+
+  /**
+   * Built-in renderer instances
    * Lazy-initialized on first use
    */
-  private clipPathRenderer?: ClipPathRenderer;
-  private fallbackRenderer?: FallbackRenderer;
+  private builtinRenderers = new Map<BuiltinRendererKey, Renderer>();
 
   /**
-   * IntersectionObserver instance for auto() lazy loading
+   * Focus ring overlay manager (tier-independent)
+   * Lazy-initialized when the first element opts in
+   */
+  private focusRing?: FocusRing;
+
+  /**
+   * Re-renders path-drawn rem, em, vw and vh radii (created on first use)
+   */
+  private lengthWatcher?: LengthWatcher;
+
+  /**
+   * auto() observers per root (lazy loading and live mode)
    * Stored to enable cleanup and prevent memory leaks
    */
-  private autoObserver?: IntersectionObserver;
+  private autoScopes = new Map<ParentNode, AutoScope>();
+
+  /**
+   * Elements discovered by auto()
+   * Only these are cleaned up when their node or data-squircle attribute is removed
+   */
+  private autoElements = new WeakSet<HTMLElement>();
 
   /**
    * Cached reduced motion preference
@@ -91,9 +208,33 @@ export default class CornerKit {
       ...config,
     };
 
-    // Validate global config
-    this.globalConfig.radius = validateRadius(this.globalConfig.radius);
-    this.globalConfig.smoothing = validateSmoothing(this.globalConfig.smoothing);
+    // Validate global config (omitted per-corner entries take the library defaults)
+    this.globalConfig.radius = validateCornerRadius(this.globalConfig.radius, DEFAULT_CONFIG.radius);
+    this.globalConfig.smoothing = validateCornerSmoothing(
+      this.globalConfig.smoothing,
+      DEFAULT_CONFIG.smoothing
+    );
+    if (this.globalConfig.radiusY !== undefined && this.globalConfig.radiusY !== null) {
+      this.globalConfig.radiusY = validateCornerRadius(
+        this.globalConfig.radiusY,
+        this.globalConfig.radius
+      );
+    }
+    this.globalConfig.stroke = validateStroke(this.globalConfig.stroke);
+    this.globalConfig.shadow = validateShadow(this.globalConfig.shadow);
+    this.globalConfig.focusRing = validateFocusRing(this.globalConfig.focusRing);
+    this.globalConfig.mode = validateMode(this.globalConfig.mode);
+    this.globalConfig.responsive = validateResponsive(this.globalConfig.responsive);
+    this.globalConfig.fill = validateFill(this.globalConfig.fill) ?? undefined;
+    this.globalConfig.shape = validateShape(this.globalConfig.shape) ?? undefined;
+    this.globalConfig.preserveSmoothing = validatePreserveSmoothing(
+      this.globalConfig.preserveSmoothing
+    );
+    this.globalConfig.radiusMode = validateRadiusMode(this.globalConfig.radiusMode);
+    this.globalConfig.capsule = validateCapsule(this.globalConfig.capsule);
+    this.globalConfig.algorithm = validateAlgorithm(this.globalConfig.algorithm);
+    this.globalConfig.exponent = validateExponent(this.globalConfig.exponent) ?? undefined;
+    this.globalConfig.precision = validatePrecision(this.globalConfig.precision) ?? undefined;
 
     // Initialize detector and registry
     this.detector = CapabilityDetector.getInstance();
@@ -115,6 +256,8 @@ export default class CornerKit {
    *
    * @param elementOrSelector - HTMLElement or CSS selector string
    * @param config - Optional per-element configuration overrides
+   * @param options - `signal` to remove the squircle when it aborts
+   * @returns Handle to update, inspect, pause or remove the squircle
    *
    * @throws TypeError if element is invalid
    * @throws Error if selector matches 0 or multiple elements
@@ -132,82 +275,204 @@ export default class CornerKit {
    *
    * // Apply with custom config
    * ck.apply('#my-button', { radius: 32, smoothing: 0.9 });
+   *
+   * // Keep the handle, or let `using` remove the squircle at the end of the scope
+   * const handle = ck.apply('#my-button');
+   * handle.update({ radius: 24 });
+   * using card = ck.apply('#card');
+   *
+   * // Remove the squircle together with the component's event listeners
+   * ck.apply('#card', undefined, { signal: controller.signal });
    * ```
    */
-  apply(elementOrSelector: HTMLElement | string, config?: Partial<SquircleConfig>): void {
+  apply(
+    elementOrSelector: HTMLElement | string,
+    config?: Partial<SquircleConfig>,
+    options: ApplyOptions = {}
+  ): SquircleHandle {
     // FR-038, FR-039: Validate and resolve element
     const element = this.resolveElement(elementOrSelector);
 
+    // Like addEventListener(), an aborted signal applies nothing
+    if (options.signal?.aborted) {
+      return this.createHandle(element);
+    }
+
     // FR-030: Validate and merge config (global defaults + per-element overrides)
+    // Per-corner objects inherit omitted corners from the global config
     const mergedConfig: SquircleConfig = {
-      radius: validateRadius(config?.radius ?? this.globalConfig.radius),
-      smoothing: validateSmoothing(config?.smoothing ?? this.globalConfig.smoothing),
+      radius: validateCornerRadius(
+        config?.radius ?? this.globalConfig.radius,
+        this.globalConfig.radius
+      ),
+      smoothing: validateCornerSmoothing(
+        config?.smoothing ?? this.globalConfig.smoothing,
+        this.globalConfig.smoothing
+      ),
       tier: config?.tier ?? this.globalConfig.tier,
     };
 
-    // Detect tier (or use forced tier from config)
-    let tier = mergedConfig.tier || this.detector.detectTier();
+    // Elliptical corners: explicit null on the element returns to circular corners
+    const radiusY = config?.radiusY !== undefined ? config.radiusY : this.globalConfig.radiusY;
+    if (radiusY !== null && radiusY !== undefined) {
+      mergedConfig.radiusY = validateCornerRadius(radiusY, mergedConfig.radius);
+    }
 
-    // TEMPORARY: Fall back to ClipPath for unimplemented tiers
-    // TODO: Remove this when Native and Houdini renderers are implemented (Phase 2)
-    if (tier === RendererTier.NATIVE || tier === RendererTier.HOUDINI) {
-      tier = RendererTier.CLIPPATH;
+    // Size-relative radii: the absolute mode and non-capsules are left out of the config
+    if (validateRadiusMode(config?.radiusMode ?? this.globalConfig.radiusMode) === 'relative') {
+      mergedConfig.radiusMode = 'relative';
+    }
+    if (validateCapsule(config?.capsule ?? this.globalConfig.capsule)) {
+      mergedConfig.capsule = true;
     }
 
-    // Store original transition for restoration on remove()
-    const originalTransition = element.style.transition;
+    // Background mode: squircle painted as background-image instead of clipping
+    if (validateMode(config?.mode ?? this.globalConfig.mode) === 'background') {
+      mergedConfig.mode = 'background';
+    }
 
-    // Apply squircle using appropriate renderer
-    if (tier === RendererTier.CLIPPATH) {
-      // Ensure we have ClipPath renderer
-      if (!this.clipPathRenderer) {
-        this.clipPathRenderer = new ClipPathRenderer();
-      }
+    // Responsive clip-paths: size-relative radii must be re-rendered on resize, so
+    // they keep path() and the ResizeObserver
+    const responsive = validateResponsive(config?.responsive ?? this.globalConfig.responsive);
+    if (responsive && !isSizeRelative(mergedConfig)) {
+      mergedConfig.responsive = true;
+    }
 
-      // ClipPath renderer returns ResizeObserver
-      // Pass reducedMotion option to renderer (cached value, not repeated matchMedia calls)
-      const observer = this.clipPathRenderer.apply(
-        element,
-        mergedConfig,
-        { reducedMotion: this.reducedMotionEnabled }, // FR-042: Pass as option
-        // Callback for dimension updates
-        (el, width, height) => {
-          this.registry.updateDimensions(el, width, height);
-        },
-        // Callback to get current config (prevents stale closure)
-        () => {
-          const managed = this.registry.get(element);
-          return managed ? managed.config : mergedConfig;
-        }
-      );
+    // Shape: explicit null on the element returns to the squircle
+    const shape = validateShape(
+      config?.shape !== undefined ? config.shape : this.globalConfig.shape
+    );
+    if (shape) {
+      mergedConfig.shape = shape;
+    }
 
-      // Register element with observer and original styles
-      this.registry.register(
-        element,
-        mergedConfig,
-        tier,
-        observer,
-        undefined, // no intersectionObserver yet
-        { transition: originalTransition } // Store for restoration
+    const preserveSmoothing = config?.preserveSmoothing ?? this.globalConfig.preserveSmoothing;
+    if (validatePreserveSmoothing(preserveSmoothing)) {
+      mergedConfig.preserveSmoothing = true;
+    }
+
+    // Algorithm: the figma default is left out of the config
+    const algorithm = validateAlgorithm(config?.algorithm ?? this.globalConfig.algorithm);
+    if (algorithm !== 'figma') {
+      mergedConfig.algorithm = algorithm;
+    }
+
+    // Exponent: explicit null on the element returns to the smoothing-derived exponent
+    const exponent = validateExponent(
+      config?.exponent !== undefined ? config.exponent : this.globalConfig.exponent
+    );
+    if (exponent !== null) {
+      mergedConfig.exponent = exponent;
+    }
+
+    // Precision: explicit null on the element returns to the default path output
+    const precision = validatePrecision(
+      config?.precision !== undefined ? config.precision : this.globalConfig.precision
+    );
+    if (precision !== null) {
+      mergedConfig.precision = precision;
+    }
+
+    const fill = validateFill(config?.fill ?? this.globalConfig.fill);
+    if (fill) {
+      mergedConfig.fill = fill;
+    }
+
+    // Stroke: explicit null on the element disables a global stroke
+    const stroke = validateStroke(
+      config?.stroke !== undefined ? config.stroke : this.globalConfig.stroke
+    );
+    if (stroke) {
+      mergedConfig.stroke = stroke;
+    }
+
+    // Shadow: same inheritance as stroke
+    const shadow = validateShadow(
+      config?.shadow !== undefined ? config.shadow : this.globalConfig.shadow
+    );
+    if (shadow) {
+      mergedConfig.shadow = shadow;
+    }
+
+    const focusRing = validateFocusRing(
+      config?.focusRing !== undefined ? config.focusRing : this.globalConfig.focusRing
+    );
+    if (focusRing) {
+      mergedConfig.focusRing = focusRing;
+    }
+
+    // Detect tier (or use forced tier from config)
+    let tier = mergedConfig.tier || this.detector.detectTier();
+    if (!this.isKnownTier(tier)) {
+      warn(
+        `Unknown renderer tier "${tier}". Register it with CornerKit.registerRenderer(). Tier will be auto-detected.`
       );
-    } else {
-      // Fallback renderer (no observers)
-      if (!this.fallbackRenderer) {
-        this.fallbackRenderer = new FallbackRenderer();
-      }
+      tier = this.detector.detectTier();
+    }
 
-      this.fallbackRenderer.apply(element, mergedConfig);
+    // Custom shapes, strokes, corner algorithms, elliptical corners and size-relative radii
+    // need a tier that can draw them
+    if (this.unsupportedOption(tier, mergedConfig)) {
+      tier = mergedConfig.tier ? tier : this.detectPathTier(tier);
+      this.warnUnsupported(tier, mergedConfig);
+    }
 
-      // Register element without observers
-      this.registry.register(
+    // Re-applied with another tier or mode: the previous renderer takes its styling off first
+    const previous = this.registry.get(element);
+    if (previous && (previous.tier !== tier || previous.config.mode !== mergedConfig.mode)) {
+      this.removeElementStyling(
         element,
-        mergedConfig,
-        tier,
-        undefined, // no resizeObserver
-        undefined, // no intersectionObserver
-        { transition: originalTransition } // Store for restoration
+        previous.tier,
+        previous.originalStyles,
+        previous.config.mode
       );
     }
+
+    // Store original inline styles for restoration on remove()
+    const originalStyles: OriginalStyles = {
+      transition: element.style.transition,
+      borderRadius: element.style.borderRadius,
+    };
+
+    // Path renderers return a ResizeObserver; tiers the browser resizes itself return none
+    const context: RendererContext = {
+      // FR-042: Pass cached reducedMotion option (not repeated matchMedia calls)
+      options: { reducedMotion: this.reducedMotionEnabled },
+      // Callback for dimension updates
+      onDimensionUpdate: (width, height) => {
+        this.registry.updateDimensions(element, width, height);
+      },
+      // Callback to get current config (prevents stale closure); CSS lengths are
+      // resolved for the element's size at the time of each call
+      getConfig: () => {
+        const managed = this.registry.get(element);
+        return resolveRadii(element, managed ? managed.config : mergedConfig);
+      },
+    };
+    const renderer = this.getRenderer(tier, mergedConfig.mode);
+    const observer = renderer.apply(element, resolveRadii(element, mergedConfig), context);
+
+    // Register element with observer and original styles
+    this.registry.register(
+      element,
+      mergedConfig,
+      tier,
+      observer || undefined,
+      undefined, // no intersectionObserver yet
+      originalStyles // Store for restoration
+    );
+
+    // Shadows and focus rings are tier-independent (extra nodes around the element)
+    this.updateShadow(element, mergedConfig.shadow);
+    this.updateFocusRing(element, mergedConfig.focusRing);
+    this.updateLengthWatch(element, mergedConfig, tier);
+
+    const managed = this.registry.get(element);
+    if (options.signal && managed) {
+      managed.releaseSignal = this.onAbort(options.signal, () => this.remove(element));
+    }
+
+    return this.createHandle(element);
   }
 
   /**
@@ -216,8 +481,10 @@ export default class CornerKit {
    *
    * @param selector - CSS selector string
    * @param config - Optional configuration overrides (applies to all matched elements)
+   * @param options - `root` to search instead of the document, `deep` to search open shadow
+   * roots, `signal` to remove the squircles when it aborts
    *
-   * @throws TypeError if selector is invalid
+   * @throws TypeError if selector or root is invalid
    *
    * @example
    * ```typescript
@@ -228,9 +495,15 @@ export default class CornerKit {
    *
    * // Apply to all buttons with custom config
    * ck.applyAll('.button', { radius: 24, smoothing: 0.9 });
+   *
+   * // Apply inside a web component's shadow root
+   * ck.applyAll('.button', undefined, { root: this.shadowRoot });
+   *
+   * // Remove them when the component's AbortController aborts
+   * ck.applyAll('.button', undefined, { signal: controller.signal });
    * ```
    */
-  applyAll(selector: string, config?: Partial<SquircleConfig>): void {
+  applyAll(selector: string, config?: Partial<SquircleConfig>, options: ScopeOptions = {}): void {
     // T142: Validate selector is a string
     if (typeof selector !== 'string') {
       throw new TypeError(`cornerKit: Selector must be a string, got ${typeof selector}`);
@@ -241,9 +514,15 @@ export default class CornerKit {
       throw new TypeError('cornerKit: Selector must be a non-empty string');
     }
 
+    const root = this.resolveRoot(options.root);
+
+    if (options.signal?.aborted) {
+      return;
+    }
+
     try {
       // T143: Query all matching elements
-      const elements = document.querySelectorAll(selector);
+      const elements = queryAll(root, selector, options.deep);
 
       // T145: Handle 0 matches - no-op with warning
       if (elements.length === 0) {
@@ -255,9 +534,9 @@ export default class CornerKit {
 
       // T144: Iterate and apply squircle to each element
       elements.forEach((element) => {
-        // Validate each element is an HTMLElement
-        if (element instanceof HTMLElement) {
-          this.apply(element, config);
+        // Validate each element is an HTMLElement (of any window)
+        if (isHTMLElement(element)) {
+          this.apply(element, config, { signal: options.signal });
         } else {
           // Skip non-HTMLElements (e.g., SVGElements) with warning
           if (process.env.NODE_ENV === 'development') {
@@ -284,7 +563,22 @@ export default class CornerKit {
    * Elements in viewport are processed immediately, off-screen elements are deferred
    *
    * Can be called multiple times to process newly added elements.
-   * Previous IntersectionObserver is automatically cleaned up.
+   * Previous observers for the same root are automatically cleaned up, so
+   * components can call auto() for their own shadow roots independently.
+   *
+   * With `live: true`, a MutationObserver keeps watching the root: inserted
+   * `data-squircle` elements are applied (lazily when off-screen), changed
+   * `data-squircle-*` attributes update them, and elements whose node or
+   * `data-squircle` attribute is removed are cleaned up like remove().
+   *
+   * With `signal`, aborting stops auto() for the root and removes the squircles it
+   * applied, like remove().
+   *
+   * @param options - `root` to search instead of the document, `deep` to search open
+   * shadow roots, `live` to keep discovering elements until the next auto() for the root
+   * or destroy(), `signal` to stop and clean up when it aborts
+   *
+   * @throws TypeError if root is invalid
    *
    * @example
    * ```html
@@ -298,98 +592,57 @@ export default class CornerKit {
    *
    * // Later, after adding more elements:
    * ck.auto(); // Processes new elements, cleans up old observer
+   *
+   * // Or follow DOM changes (e.g. SPA route changes) without calling auto() again
+   * ck.auto({ live: true });
+   *
+   * // In a web component's connectedCallback()
+   * ck.auto({ root: this.shadowRoot, live: true });
+   *
+   * // ...and clean up in disconnectedCallback() with this.controller.abort()
+   * ck.auto({ root: this.shadowRoot, live: true, signal: this.controller.signal });
    * ```
    */
-  auto(): void {
-    // T166: Query all elements with data-squircle attribute
-    const elements = document.querySelectorAll('[data-squircle]');
+  auto(options: AutoOptions = {}): void {
+    const root = this.resolveRoot(options.root);
 
-    // T174: Handle 0 matches - no-op (no error)
-    if (elements.length === 0) {
+    // Like addEventListener(), an aborted signal does nothing
+    if (options.signal?.aborted) {
       return;
     }
 
-    // Disconnect previous observer to prevent memory leaks
-    if (this.autoObserver) {
-      this.autoObserver.disconnect();
-      this.autoObserver = undefined;
-    }
-
-    // Collect off-screen elements that need lazy loading
-    const offScreenElements: HTMLElement[] = [];
-
-    // Process each element
-    elements.forEach((element) => {
-      if (!(element instanceof HTMLElement)) {
-        // Skip non-HTMLElements (e.g., SVGElements)
-        return;
-      }
-
-      // T175: Prevent duplicate processing (check if already managed)
-      if (this.registry.has(element)) {
-        return;
-      }
-
-      // T169: Parse data attributes
-      const config = parseDataAttributes(element);
+    // Disconnect previous observers of this root (and of detached roots) to prevent memory leaks
+    this.stopAuto((scopeRoot) => scopeRoot === root || !scopeRoot.isConnected);
 
-      // T170: Check if element is currently visible in viewport
-      const rect = element.getBoundingClientRect();
-      const isVisible =
-        rect.top >= -50 && // 50px above viewport
-        rect.left >= -50 && // 50px left of viewport
-        rect.bottom <= (window.innerHeight || document.documentElement.clientHeight) + 50 && // 50px below viewport
-        rect.right <= (window.innerWidth || document.documentElement.clientWidth) + 50; // 50px right of viewport
+    const scope: AutoScope = { deep: options.deep ?? false, signal: options.signal };
 
-      if (isVisible) {
-        // T170: Apply immediately for visible elements
-        this.apply(element, config);
-      } else {
-        // T171: Collect off-screen elements for lazy loading
-        offScreenElements.push(element);
-      }
+    // T166: Query all elements with data-squircle attribute
+    // T174: 0 matches is a no-op (no error, no IntersectionObserver)
+    queryAll(root, '[data-squircle]', scope.deep).forEach((element) => {
+      this.discover(element, scope);
     });
 
-    // T167: Only create IntersectionObserver if there are off-screen elements
-    if (offScreenElements.length > 0) {
-      // rootMargin: '50px' means elements 50px away from viewport will trigger
-      this.autoObserver = new IntersectionObserver(
-        (entries) => {
-          entries.forEach((entry) => {
-            // T168: Check if entry is intersecting (entering viewport)
-            if (entry.isIntersecting && entry.target instanceof HTMLElement) {
-              const element = entry.target;
-
-              // T175: Prevent duplicate processing
-              if (this.registry.has(element)) {
-                this.autoObserver?.unobserve(element);
-                return;
-              }
-
-              // T169: Parse data attributes for configuration
-              const config = parseDataAttributes(element);
-
-              // Apply squircle
-              this.apply(element, config);
-
-              // T173: Unobserve after apply to prevent repeated triggers
-              this.autoObserver?.unobserve(element);
-            }
-          });
-        },
-        {
-          rootMargin: '50px', // FR-024: 50px lookahead for smooth loading
-        }
-      );
-
-      // Observe all off-screen elements
-      offScreenElements.forEach((element) => {
-        this.autoObserver!.observe(element);
+    if (options.live) {
+      scope.liveObserver = new (getWindow(root).MutationObserver)((records) => {
+        this.handleMutations(records, scope);
       });
+      this.watch(scope, root);
+      if (scope.deep) {
+        findShadowRoots(root).forEach((shadowRoot) => this.watch(scope, shadowRoot));
+      }
     }
 
-    // Note: Observer is stored in this.autoObserver and cleaned up on next auto() call
+    // Note: Observers are stored per root and cleaned up on next auto() call for the root
     // T177: Observer disconnection also happens in registry.delete() when remove() is called
+    if (scope.lazyObserver || scope.liveObserver) {
+      this.autoScopes.set(root, scope);
+
+      if (scope.signal) {
+        scope.releaseSignal = this.onAbort(scope.signal, () => {
+          this.stopAuto((scopeRoot) => scopeRoot === root);
+        });
+      }
+    }
   }
 
   /**
@@ -429,12 +682,103 @@ export default class CornerKit {
     // T200: Validate new config values
     const validatedConfig: Partial<SquircleConfig> = {};
 
+    // Per-corner objects are merged with the element's current values
     if (config.radius !== undefined) {
-      validatedConfig.radius = validateRadius(config.radius);
+      validatedConfig.radius = validateCornerRadius(config.radius, managed.config.radius);
     }
 
     if (config.smoothing !== undefined) {
-      validatedConfig.smoothing = validateSmoothing(config.smoothing);
+      validatedConfig.smoothing = validateCornerSmoothing(config.smoothing, managed.config.smoothing);
+    }
+
+    // Vertical radii merge like radius; omitted corners stay as they are (null: circular)
+    if (config.radiusY !== undefined) {
+      validatedConfig.radiusY =
+        config.radiusY === null
+          ? null
+          : validateCornerRadius(
+              config.radiusY,
+              managed.config.radiusY ?? validatedConfig.radius ?? managed.config.radius
+            );
+    }
+
+    // Stroke replaces the previous stroke entirely (null removes it)
+    if (config.stroke !== undefined) {
+      validatedConfig.stroke = validateStroke(config.stroke);
+    }
+
+    // Shadows replace the previous list entirely (null removes them)
+    if (config.shadow !== undefined) {
+      validatedConfig.shadow = validateShadow(config.shadow);
+    }
+
+    if (config.focusRing !== undefined) {
+      validatedConfig.focusRing = validateFocusRing(config.focusRing);
+    }
+
+    // Shape replaces the previous shape (null returns to the squircle)
+    if (config.shape !== undefined) {
+      validatedConfig.shape = validateShape(config.shape);
+    }
+
+    if (config.preserveSmoothing !== undefined) {
+      validatedConfig.preserveSmoothing = validatePreserveSmoothing(config.preserveSmoothing);
+    }
+
+    if (config.radiusMode !== undefined) {
+      validatedConfig.radiusMode = validateRadiusMode(config.radiusMode);
+    }
+
+    if (config.capsule !== undefined) {
+      validatedConfig.capsule = validateCapsule(config.capsule);
+    }
+
+    if (config.algorithm !== undefined) {
+      validatedConfig.algorithm = validateAlgorithm(config.algorithm);
+    }
+
+    // Exponent override (null returns to the smoothing-derived exponent)
+    if (config.exponent !== undefined) {
+      validatedConfig.exponent = validateExponent(config.exponent);
+    }
+
+    // Precision (null returns to the default path output)
+    if (config.precision !== undefined) {
+      validatedConfig.precision = validatePrecision(config.precision);
+    }
+
+    // The tier is fixed at apply(), so options it cannot draw are ignored
+    if (
+      validatedConfig.shape ||
+      validatedConfig.stroke ||
+      validatedConfig.algorithm ||
+      validatedConfig.radiusY ||
+      isSizeRelative(validatedConfig)
+    ) {
+      this.warnUnsupported(managed.tier, { ...managed.config, ...validatedConfig });
+    }
+
+    // Fill only affects background mode (null reverts to the element background-color)
+    if (config.fill !== undefined) {
+      validatedConfig.fill = validateFill(config.fill) ?? undefined;
+    }
+
+    // Mode decides which renderer (and observers) the element uses - fixed at apply()
+    if (
+      config.mode !== undefined &&
+      validateMode(config.mode) !== (managed.config.mode ?? 'clip')
+    ) {
+      warn('mode cannot be changed by update(). Call remove() and apply() with the new mode.');
+    }
+
+    // responsive decides whether the element is observed - fixed at apply() as well
+    if (
+      config.responsive !== undefined &&
+      validateResponsive(config.responsive) !== (managed.config.responsive ?? false)
+    ) {
+      warn(
+        'responsive cannot be changed by update(). Call remove() and apply() with the new setting.'
+      );
     }
 
     // Allow tier override (for advanced users)
@@ -457,6 +801,18 @@ export default class CornerKit {
     // T202: Re-render with updated config using helper method
     // T203: Preserve observers - we don't disconnect/reconnect, just update the visual
     this.updateElementStyling(element, updatedManaged.config, updatedManaged.tier);
+    this.updateLengthWatch(element, updatedManaged.config, updatedManaged.tier);
+
+    if (validatedConfig.shadow !== undefined) {
+      this.updateShadow(element, updatedManaged.config.shadow);
+    }
+
+    // A visible focus ring is redrawn for radius/smoothing changes too
+    if (validatedConfig.focusRing !== undefined) {
+      this.updateFocusRing(element, updatedManaged.config.focusRing);
+    } else {
+      this.focusRing?.update(element);
+    }
 
     // Note: ResizeObserver remains attached and will automatically use the
     // updated config on next resize (getConfig callback in clippath.ts)
@@ -493,12 +849,64 @@ export default class CornerKit {
     }
 
     // T246: Remove styling using helper method and restore original transition
-    this.removeElementStyling(element, managed.tier, managed.originalStyles?.transition);
+    this.removeElementStyling(element, managed.tier, managed.originalStyles, managed.config.mode);
 
     // T247: Delete from registry (this also disconnects observers)
     this.registry.delete(element);
   }
 
+  /**
+   * Stop re-rendering a managed element on resize
+   * The squircle stays as drawn; update() still re-renders it. Useful while an
+   * element animates its size. Tiers the browser resizes itself are unaffected.
+   *
+   * @param elementOrSelector - HTMLElement or CSS selector string
+   *
+   * @throws TypeError if element is invalid
+   * @throws Error if element is not managed by CornerKit
+   *
+   * @example
+   * ```typescript
+   * ck.pause('#panel');
+   * await expandAnimation.finished;
+   * ck.resume('#panel');
+   * ```
+   */
+  pause(elementOrSelector: HTMLElement | string): void {
+    const element = this.resolveElement(elementOrSelector);
+
+    if (!this.registry.has(element)) {
+      throw new Error('cornerKit: Cannot pause element - element is not managed by CornerKit.');
+    }
+
+    this.registry.setPaused(element, true);
+  }
+
+  /**
+   * Resume re-rendering a paused element on resize
+   * The squircle is re-rendered at the current size first
+   *
+   * @param elementOrSelector - HTMLElement or CSS selector string
+   *
+   * @throws TypeError if element is invalid
+   * @throws Error if element is not managed by CornerKit
+   */
+  resume(elementOrSelector: HTMLElement | string): void {
+    const element = this.resolveElement(elementOrSelector);
+
+    const managed = this.registry.get(element);
+    if (!managed) {
+      throw new Error('cornerKit: Cannot resume element - element is not managed by CornerKit.');
+    }
+
+    if (this.registry.setPaused(element, false)) {
+      // Catch up with size changes missed while paused
+      this.updateElementStyling(element, managed.config, managed.tier);
+      this.registry.updateDimensions(element, element.offsetWidth, element.offsetHeight);
+      this.focusRing?.update(element);
+    }
+  }
+
   /**
    * FR-008: Destroy all squircles and clean up all resources
    * Removes all managed elements and allows re-initialization
@@ -527,18 +935,21 @@ export default class CornerKit {
     elements.forEach((element) => {
       const managed = this.registry.get(element);
       if (managed) {
-        this.removeElementStyling(element, managed.tier, managed.originalStyles?.transition);
+        this.removeElementStyling(
+          element,
+          managed.tier,
+          managed.originalStyles,
+          managed.config.mode
+        );
       }
     });
 
     // T277: Clear registry (disconnects all observers and removes all elements)
     this.registry.clear();
 
-    // Disconnect auto() observer if it exists
-    if (this.autoObserver) {
-      this.autoObserver.disconnect();
-      this.autoObserver = undefined;
-    }
+    // Disconnect auto() observers for every root
+    this.stopAuto(() => true);
+    this.autoElements = new WeakSet();
 
     // Cleanup reduced motion watcher to prevent memory leaks
     if (this.reducedMotionWatcher) {
@@ -589,12 +1000,13 @@ export default class CornerKit {
 
       // T261, T262: Return element information
       return {
-        config: { ...managed.config }, // Return copy to prevent mutation
+        config: this.copyConfig(managed.config), // Return copy to prevent mutation
         tier: managed.tier,
         dimensions: {
           width: managed.lastDimensions?.width ?? element.offsetWidth,
           height: managed.lastDimensions?.height ?? element.offsetHeight,
         },
+        paused: managed.paused ?? false,
       };
     } catch (error) {
       // Invalid selector or element - return null instead of throwing
@@ -602,35 +1014,300 @@ export default class CornerKit {
     }
   }
 
+  /**
+   * Copy a config, including nested per-corner, stroke, shadow and fill objects
+   * Used by inspect() so callers cannot mutate registry state
+   *
+   * @param config - Config to copy
+   * @returns Independent copy
+   */
+  private copyConfig(config: SquircleConfig): SquircleConfig {
+    const { radius, radiusY, smoothing, stroke, shadow, focusRing, fill } = config;
+
+    const copy: SquircleConfig = {
+      ...config,
+      radius: isPerCorner<number>(radius) ? { ...radius } : radius,
+      smoothing: isPerCorner<number>(smoothing) ? { ...smoothing } : smoothing,
+    };
+
+    if (isPerCorner<number>(radiusY)) {
+      copy.radiusY = { ...radiusY };
+    }
+
+    if (stroke) {
+      copy.stroke = {
+        ...stroke,
+        gradient: stroke.gradient && { ...stroke.gradient, stops: [...stroke.gradient.stops] },
+      };
+    }
+
+    if (shadow) {
+      copy.shadow = Array.isArray(shadow) ? shadow.map((entry) => ({ ...entry })) : { ...shadow };
+    }
+
+    if (typeof focusRing === 'object' && focusRing) {
+      copy.focusRing = { ...focusRing };
+    }
+
+    if (typeof fill === 'object') {
+      copy.fill = { ...fill, stops: [...fill.stops] };
+    }
+
+    return copy;
+  }
+
+  /**
+   * Create, update or remove the shadow wrapper of a managed element
+   * The wrapper is tracked in the registry, which restores the DOM on remove()
+   *
+   * @param element - Managed HTMLElement
+   * @param shadow - Validated shadow config (empty/null removes the wrapper)
+   */
+  private updateShadow(element: HTMLElement, shadow?: ShadowConfig | ShadowConfig[] | null): void {
+    const managed = this.registry.get(element);
+    if (!managed) {
+      return;
+    }
+
+    const shadows = shadow ? (Array.isArray(shadow) ? shadow : [shadow]) : [];
+
+    if (shadows.length === 0) {
+      if (managed.shadowWrapper) {
+        unwrapElement(element, managed.shadowWrapper);
+        this.registry.setShadowWrapper(element, undefined);
+      }
+      return;
+    }
+
+    let wrapper = managed.shadowWrapper;
+    if (!wrapper) {
+      wrapper = wrapElement(element) ?? undefined;
+      if (!wrapper) {
+        warn('Cannot render shadow: element is not attached to a parent node. Shadow ignored.');
+        return;
+      }
+      this.registry.setShadowWrapper(element, wrapper);
+    }
+
+    wrapper.style.filter = formatShadowFilter(shadows);
+  }
+
+  /**
+   * Attach or detach the focus ring overlay of a managed element
+   *
+   * @param element - Managed HTMLElement
+   * @param focusRing - Validated focus ring config (falsy detaches)
+   */
+  private updateFocusRing(
+    element: HTMLElement,
+    focusRing?: FocusRingConfig | boolean | null
+  ): void {
+    if (!focusRing) {
+      this.focusRing?.detach(element);
+      return;
+    }
+
+    if (!this.focusRing) {
+      this.focusRing = new FocusRing();
+    }
+
+    // Read config from the registry on every focus (prevents stale closure)
+    this.focusRing.attach(element, () =>
+      resolveRadii(element, this.registry.get(element)?.config ?? { ...this.globalConfig })
+    );
+  }
+
+  /**
+   * Watch or stop watching font sizes and the viewport for a managed element
+   * The native, Houdini and fallback tiers write rem, em, vw and vh radii into CSS and
+   * the browser keeps them current; every other renderer draws pixels, so it is
+   * re-rendered when those lengths change
+   *
+   * @param element - Managed HTMLElement
+   * @param config - Element configuration
+   * @param tier - Renderer tier of the element
+   */
+  private updateLengthWatch(
+    element: HTMLElement,
+    config: SquircleConfig,
+    tier: RendererName
+  ): void {
+    const writesCss =
+      config.mode !== 'background' &&
+      (tier === RendererTier.NATIVE ||
+        tier === RendererTier.HOUDINI ||
+        tier === RendererTier.FALLBACK);
+
+    if (writesCss || !hasLiveLength(config)) {
+      this.lengthWatcher?.unwatch(element);
+      return;
+    }
+
+    if (!this.lengthWatcher) {
+      this.lengthWatcher = new LengthWatcher();
+    }
+
+    // Read config from the registry on every change (prevents stale closure)
+    this.lengthWatcher.watch(element, () => {
+      const managed = this.registry.get(element);
+      if (managed && !managed.paused) {
+        this.updateElementStyling(element, managed.config, managed.tier);
+        this.focusRing?.update(element);
+      }
+    });
+  }
+
+  /**
+   * Check if a tier name has a renderer (built-in or registered)
+   *
+   * @param tier - Tier name
+   */
+  private isKnownTier(tier: RendererName): boolean {
+    return isBuiltinTier(tier) || CornerKit.customRenderers.has(tier);
+  }
+
+  /**
+   * Find a configured option the tier cannot draw
+   * Custom shapes, strokes and Apple continuous corners need an SVG path tier;
+   * superellipse corners also render natively through corner-shape, and elliptical
+   * corners everywhere but Houdini. Size-relative radii (capsule, relative mode, %)
+   * need a tier that re-renders on resize (the path tiers, without responsive
+   * clip-paths). Background mode always draws paths, and registered renderers
+   * receive the full config and decide themselves
+   *
+   * @param tier - Tier name
+   * @param config - Element configuration
+   * @returns The unsupported option, or null when the tier draws the config as-is
+   */
+  private unsupportedOption(
+    tier: RendererName,
+    config: Partial<SquircleConfig>
+  ): 'shape' | 'stroke' | 'algorithm' | 'radiusY' | 'radius' | null {
+    if (config.mode === 'background' || !isBuiltinTier(tier)) {
+      return null;
+    }
+
+    const pathTier = tier === RendererTier.CLIPPATH || tier === RendererTier.MASK;
+
+    if (config.shape && !pathTier) {
+      return 'shape';
+    }
+
+    if (config.stroke && !pathTier) {
+      return 'stroke';
+    }
+
+    if (config.algorithm === 'superellipse' && !pathTier && tier !== RendererTier.NATIVE) {
+      return 'algorithm';
+    }
+
+    if (config.algorithm === 'apple' && !pathTier) {
+      return 'algorithm';
+    }
+
+    if (config.radiusY && tier === RendererTier.HOUDINI) {
+      return 'radiusY';
+    }
+
+    // Responsive clip-paths follow the element without re-rendering
+    const rerendersOnResize = pathTier && !(config.responsive && tier === RendererTier.CLIPPATH);
+    if (isSizeRelative(config) && !rerendersOnResize) {
+      return 'radius';
+    }
+
+    return null;
+  }
+
+  /**
+   * Warn when the tier cannot draw a configured option
+   *
+   * @param tier - Tier name
+   * @param config - Element configuration
+   */
+  private warnUnsupported(tier: RendererName, config: Partial<SquircleConfig>): void {
+    const option = this.unsupportedOption(tier, config);
+
+    if (option === 'shape') {
+      warn(`The ${tier} tier cannot draw custom shapes. shape is ignored.`);
+    } else if (option === 'stroke') {
+      warn(`The ${tier} tier cannot draw strokes. stroke is ignored.`);
+    } else if (option === 'algorithm') {
+      const corners = config.algorithm === 'apple' ? 'Apple continuous' : 'superellipse';
+      warn(`The ${tier} tier cannot draw ${corners} corners. algorithm is ignored.`);
+    } else if (option === 'radiusY') {
+      warn(`The ${tier} tier cannot draw elliptical corners. radiusY is ignored.`);
+    } else if (option === 'radius') {
+      const source = config.responsive ? 'Responsive clip-paths do' : `The ${tier} tier does`;
+      warn(`${source} not re-render on resize. Relative radii will not follow the size.`);
+    }
+  }
+
+  /**
+   * Pick a path tier for an element whose config the detected tier cannot draw
+   *
+   * @param tier - Auto-detected tier
+   * @returns clip-path or mask tier if supported, otherwise the detected tier
+   */
+  private detectPathTier(tier: RendererName): RendererName {
+    const support = this.detector.supports();
+
+    if (support.clippath) {
+      return RendererTier.CLIPPATH;
+    }
+
+    if (support.mask) {
+      return RendererTier.MASK;
+    }
+
+    return tier;
+  }
+
+  /**
+   * Get the renderer for an element
+   * Registered renderers handle every mode themselves; for built-in tiers,
+   * background mode uses the background renderer whatever the tier
+   *
+   * @param tier - Renderer tier of the element
+   * @param mode - Render mode of the element
+   * @returns Registered renderer, or the lazily created built-in renderer
+   */
+  private getRenderer(tier: RendererName, mode?: SquircleConfig['mode']): Renderer {
+    const custom = CornerKit.customRenderers.get(tier);
+    if (custom) {
+      return custom;
+    }
+
+    let key: BuiltinRendererKey = isBuiltinTier(tier) ? tier : RendererTier.FALLBACK;
+    if (mode === 'background') {
+      key = 'background';
+    }
+
+    let renderer = this.builtinRenderers.get(key);
+    if (!renderer) {
+      renderer = createBuiltinRenderer(key);
+      this.builtinRenderers.set(key, renderer);
+    }
+    return renderer;
+  }
+
   /**
    * Remove styling from element using appropriate renderer
    * Internal helper to eliminate code duplication
    *
    * @param element - HTMLElement to remove styling from
    * @param tier - Renderer tier to use
-   * @param originalTransition - Optional original transition to restore
+   * @param originalStyles - Optional original inline styles to restore
+   * @param mode - Rendering mode the element was applied with
    */
   private removeElementStyling(
     element: HTMLElement,
-    tier: RendererTier,
-    originalTransition?: string
+    tier: RendererName,
+    originalStyles?: OriginalStyles,
+    mode?: SquircleConfig['mode']
   ): void {
-    if (tier === RendererTier.CLIPPATH) {
-      if (!this.clipPathRenderer) {
-        this.clipPathRenderer = new ClipPathRenderer();
-      }
-      this.clipPathRenderer.remove(element, originalTransition);
-    } else {
-      // Fallback renderer
-      if (!this.fallbackRenderer) {
-        this.fallbackRenderer = new FallbackRenderer();
-      }
-      this.fallbackRenderer.remove(element);
-      // Restore original transition for fallback too
-      if (originalTransition !== undefined) {
-        element.style.transition = originalTransition;
-      }
-    }
+    this.getRenderer(tier, mode).remove(element, originalStyles);
+    this.focusRing?.detach(element);
+    this.lengthWatcher?.unwatch(element);
   }
 
   /**
@@ -644,20 +1321,9 @@ export default class CornerKit {
   private updateElementStyling(
     element: HTMLElement,
     config: SquircleConfig,
-    tier: RendererTier
+    tier: RendererName
   ): void {
-    if (tier === RendererTier.CLIPPATH) {
-      if (!this.clipPathRenderer) {
-        this.clipPathRenderer = new ClipPathRenderer();
-      }
-      this.clipPathRenderer.update(element, config);
-    } else {
-      // Fallback renderer
-      if (!this.fallbackRenderer) {
-        this.fallbackRenderer = new FallbackRenderer();
-      }
-      this.fallbackRenderer.update(element, config);
-    }
+    this.getRenderer(tier, config.mode).update(element, resolveRadii(element, config));
   }
 
   /**
@@ -675,11 +1341,6 @@ export default class CornerKit {
         return;
       }
 
-      // Apply or remove reduced motion styling based on current preference
-      if (!this.clipPathRenderer) {
-        this.clipPathRenderer = new ClipPathRenderer();
-      }
-
       // Re-apply with current reduced motion preference
       // The renderer handles the transition modification
       const existing = element.style.transition || '';
@@ -705,6 +1366,241 @@ export default class CornerKit {
     });
   }
 
+  /**
+   * Apply an auto() element now if it is near the viewport, otherwise when it scrolls into view
+   *
+   * @param element - Element with the data-squircle attribute
+   * @param scope - auto() state of the root the element was found in
+   */
+  private discover(element: Element, scope: AutoScope): void {
+    // Skip non-HTMLElements (e.g., SVGElements) and detached nodes
+    if (!isHTMLElement(element) || !element.isConnected) {
+      return;
+    }
+
+    // T175: Prevent duplicate processing (check if already managed)
+    if (this.registry.has(element)) {
+      return;
+    }
+
+    this.autoElements.add(element);
+
+    // T170: Check if element is currently visible in its window's viewport (iframes, popups)
+    const view = getWindow(element);
+    const viewport = element.ownerDocument.documentElement;
+    const rect = element.getBoundingClientRect();
+    const isVisible =
+      rect.top >= -50 && // 50px above viewport
+      rect.left >= -50 && // 50px left of viewport
+      rect.bottom <= (view.innerHeight || viewport.clientHeight) + 50 && // 50px below viewport
+      rect.right <= (view.innerWidth || viewport.clientWidth) + 50; // 50px right of viewport
+
+    if (isVisible) {
+      // T169, T170: Apply immediately for visible elements
+      this.apply(element, parseDataAttributes(element), { signal: scope.signal });
+      return;
+    }
+
+    // T167: Only create IntersectionObserver once there is an off-screen element
+    if (!scope.lazyObserver) {
+      // rootMargin: '50px' means elements 50px away from viewport will trigger
+      scope.lazyObserver = new view.IntersectionObserver(
+        (entries) => {
+          entries.forEach((entry) => {
+            // T168: Check if entry is intersecting (entering viewport)
+            if (entry.isIntersecting && isHTMLElement(entry.target)) {
+              const target = entry.target;
+
+              // T173: Unobserve to prevent repeated triggers
+              scope.lazyObserver?.unobserve(target);
+
+              // T175: Prevent duplicate processing
+              if (!this.registry.has(target)) {
+                // T169: Parse data attributes for configuration
+                this.apply(target, parseDataAttributes(target), { signal: scope.signal });
+              }
+            }
+          });
+        },
+        {
+          rootMargin: '50px', // FR-024: 50px lookahead for smooth loading
+        }
+      );
+    }
+
+    // T171: Defer off-screen elements
+    scope.lazyObserver.observe(element);
+  }
+
+  /**
+   * Stop auto() discovery (lazy loading and live mode) for some roots
+   * Elements that already have squircles keep them
+   *
+   * @param matches - Selects the roots to stop
+   */
+  private stopAuto(matches: (root: ParentNode) => boolean): void {
+    this.autoScopes.forEach((scope, root) => {
+      if (matches(root)) {
+        scope.lazyObserver?.disconnect();
+        scope.liveObserver?.disconnect();
+        scope.releaseSignal?.();
+        this.autoScopes.delete(root);
+      }
+    });
+  }
+
+  /**
+   * Watch a root or shadow root for auto({ live: true })
+   *
+   * @param scope - auto() state with the MutationObserver
+   * @param target - Node to watch, including its subtree
+   */
+  private watch(scope: AutoScope, target: Node): void {
+    scope.liveObserver?.observe(target, {
+      childList: true,
+      subtree: true,
+      attributes: true,
+      attributeFilter: [...SQUIRCLE_ATTRIBUTES],
+    });
+  }
+
+  /**
+   * Follow DOM changes for auto({ live: true })
+   *
+   * @param records - Mutations of the root (child lists and data-squircle-* attributes)
+   * @param scope - auto() state of the root
+   */
+  private handleMutations(records: MutationRecord[], scope: AutoScope): void {
+    records.forEach((record) => {
+      if (record.type === 'attributes') {
+        const element = record.target;
+        if (!isHTMLElement(element)) {
+          return;
+        }
+
+        if (record.attributeName === 'data-squircle') {
+          if (hasSquircleAttribute(element)) {
+            this.discover(element, scope);
+          } else {
+            this.forget(element);
+          }
+        } else if (this.autoElements.has(element) && this.registry.has(element)) {
+          // Removed attributes return to the global defaults
+          this.update(element, {
+            radius: this.globalConfig.radius,
+            smoothing: this.globalConfig.smoothing,
+            ...parseDataAttributes(element),
+          });
+        }
+        return;
+      }
+
+      // Moved nodes are removed and added again; only detached elements are cleaned up
+      record.removedNodes.forEach((node) => {
+        this.findSquircles(node, scope.deep).forEach((element) => {
+          if (!element.isConnected && isHTMLElement(element)) {
+            this.forget(element);
+          }
+        });
+      });
+      record.addedNodes.forEach((node) => {
+        // Shadow roots of inserted components are watched as well
+        if (scope.deep && node.nodeType === Node.ELEMENT_NODE) {
+          findShadowRoots(node as Element).forEach((shadowRoot) => this.watch(scope, shadowRoot));
+        }
+        this.findSquircles(node, scope.deep).forEach((element) => {
+          this.discover(element, scope);
+        });
+      });
+    });
+  }
+
+  /**
+   * Node and descendants with the data-squircle attribute
+   *
+   * @param node - Added or removed node
+   * @param deep - Also search open shadow roots
+   */
+  private findSquircles(node: Node, deep: boolean): Element[] {
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      return [];
+    }
+
+    const element = node as Element;
+    const descendants = queryAll(element, '[data-squircle]', deep);
+    return element.hasAttribute('data-squircle') ? [element, ...descendants] : descendants;
+  }
+
+  /**
+   * Clean up an auto() element like remove(), and stop waiting for it to scroll into view
+   *
+   * @param element - Element that was removed or lost its data-squircle attribute
+   */
+  private forget(element: HTMLElement): void {
+    this.autoScopes.forEach((scope) => scope.lazyObserver?.unobserve(element));
+
+    if (this.autoElements.has(element) && this.registry.has(element)) {
+      this.remove(element);
+    }
+    this.autoElements.delete(element);
+  }
+
+  /**
+   * Call back once when a signal aborts
+   *
+   * @param signal - Signal passed to apply(), applyAll() or auto()
+   * @param callback - Cleanup to run on abort
+   * @returns Function that removes the listener (for cleanups that happen first)
+   */
+  private onAbort(signal: AbortSignal, callback: () => void): () => void {
+    signal.addEventListener('abort', callback, { once: true });
+    return (): void => signal.removeEventListener('abort', callback);
+  }
+
+  /**
+   * Create the handle returned by apply()
+   *
+   * @param element - Managed element
+   * @returns Handle bound to this instance and element
+   */
+  private createHandle(element: HTMLElement): SquircleHandle {
+    // Safe to call twice, after destroy() or after the element was removed elsewhere
+    const remove = (): void => {
+      if (this.registry.has(element)) {
+        this.remove(element);
+      }
+    };
+
+    return {
+      element,
+      update: (config) => this.update(element, config),
+      remove,
+      inspect: () => this.inspect(element),
+      pause: () => this.pause(element),
+      resume: () => this.resume(element),
+      [disposeSymbol]: remove,
+    };
+  }
+
+  /**
+   * Validate the root option of applyAll() and auto()
+   *
+   * @param root - User-provided root (default: document)
+   * @returns Root to search
+   * @throws TypeError if root is not a Document, ShadowRoot or Element
+   */
+  private resolveRoot(root: ParentNode | undefined): ParentNode {
+    if (root === undefined) {
+      return document;
+    }
+
+    if (!validateRoot(root)) {
+      throw new TypeError('cornerKit: root must be a Document, ShadowRoot or Element');
+    }
+
+    return root;
+  }
+
   /**
    * Resolve element from string selector or validate HTMLElement
    * FR-038, FR-039: Input validation and selector resolution
@@ -743,7 +1639,7 @@ export default class CornerKit {
       }
 
       // Validate it's an HTMLElement (not SVGElement, etc.)
-      if (!(element instanceof HTMLElement)) {
+      if (!isHTMLElement(element)) {
         throw new TypeError(
           `cornerKit: Selector "${selector}" must match an HTMLElement, got ${element.constructor.name}`
         );
@@ -770,6 +1666,145 @@ export default class CornerKit {
   }
 
 
+  /**
+   * Static method: Add a custom renderer, available to all CornerKit instances
+   * Auto-detection tries tiers from highest to lowest priority and uses the first
+   * supported one; `tier: name` in a config forces the renderer
+   *
+   * Built-in priorities: native 500, houdini 400, clippath 300, mask 200, fallback 0
+   * (see TIER_PRIORITY). Registering an existing name replaces that renderer.
+   *
+   * @param name - Tier name (must not be a built-in tier)
+   * @param renderer - Renderer implementation
+   * @param options - `priority` for auto-detection (default: 1000, before all built-in tiers)
+   *
+   * @throws TypeError if the name or renderer is invalid
+   *
+   * @example
+   * ```typescript
+   * CornerKit.registerRenderer('canvas', {
+   *   supports: () => typeof OffscreenCanvas !== 'undefined',
+   *   apply: (element, config, context) => drawCanvas(element, config),
+   *   update: (element, config) => drawCanvas(element, config),
+   *   remove: (element) => clearCanvas(element),
+   * }, { priority: 350 }); // between native/houdini and clippath
+   * ```
+   */
+  static registerRenderer(
+    name: string,
+    renderer: Renderer,
+    options: { priority?: number } = {}
+  ): void {
+    if (typeof name !== 'string' || name.trim() === '') {
+      throw new TypeError('cornerKit: Renderer name must be a non-empty string');
+    }
+
+    if (isBuiltinTier(name)) {
+      throw new TypeError(`cornerKit: Renderer name "${name}" is reserved for a built-in tier`);
+    }
+
+    const methods = ['supports', 'apply', 'update', 'remove'] as const;
+    const missing = methods.filter(
+      (method) => typeof (renderer as Partial<Renderer> | null)?.[method] !== 'function'
+    );
+    if (missing.length > 0) {
+      throw new TypeError(`cornerKit: Renderer "${name}" must implement ${missing.join(', ')}`);
+    }
+
+    const priority = options.priority ?? 1000;
+    if (!Number.isFinite(priority)) {
+      throw new TypeError(`cornerKit: Renderer priority must be a finite number, got ${priority}`);
+    }
+
+    CornerKit.customRenderers.set(name, renderer);
+    CapabilityDetector.getInstance().registerTier(name, priority, () => renderer.supports());
+  }
+
+  /**
+   * Static method: Add a named shape, usable as `shape: name` by all instances
+   * Registering an existing name replaces that shape.
+   *
+   * @param name - Shape name ('squircle' is reserved for the built-in shape)
+   * @param shape - Function returning SVG path data for a width × height element
+   *
+   * @throws TypeError if the name or shape is invalid
+   *
+   * @example
+   * ```typescript
+   * CornerKit.registerShape('notch', (width, height, config) => notchPath(width, height, config.radius));
+   * ck.apply('.card', { shape: 'notch' });
+   * ```
+   */
+  static registerShape(name: string, shape: ShapeFunction): void {
+    if (typeof name !== 'string' || name.trim() === '') {
+      throw new TypeError('cornerKit: Shape name must be a non-empty string');
+    }
+
+    if (name === DEFAULT_SHAPE) {
+      throw new TypeError(`cornerKit: Shape name "${name}" is reserved for the built-in shape`);
+    }
+
+    if (typeof shape !== 'function') {
+      throw new TypeError(`cornerKit: Shape "${name}" must be a function, got ${typeof shape}`);
+    }
+
+    registerShape(name, shape);
+  }
+
+  /**
+   * Static method: Size and quantisation of the squircle path cache shared by all instances
+   * Elements with the same (quantised) size and corner settings reuse one generated path.
+   * Cached paths are dropped.
+   *
+   * @param options - `maxSize` (paths kept, 0 disables the cache) and/or `quantize`
+   *   (step in pixels that dimensions are rounded to)
+   *
+   * @throws TypeError if an option is invalid
+   *
+   * @example
+   * ```typescript
+   * CornerKit.configurePathCache({ maxSize: 1000, quantize: 2 }); // thousands of similar chips
+   * ```
+   */
+  static configurePathCache(options: PathCacheOptions): void {
+    const { maxSize, quantize } = options;
+
+    if (maxSize !== undefined && !(Number.isInteger(maxSize) && maxSize >= 0)) {
+      throw new TypeError(
+        `cornerKit: Path cache maxSize must be a non-negative integer, got ${String(maxSize)}`
+      );
+    }
+
+    if (quantize !== undefined && !(Number.isFinite(quantize) && quantize > 0)) {
+      throw new TypeError(
+        `cornerKit: Path cache quantize must be a positive number, got ${String(quantize)}`
+      );
+    }
+
+    configurePathCache(options);
+  }
+
+  /**
+   * Static method: Hits and misses of the squircle path cache since it was last cleared
+   *
+   * @returns Hit and miss counts, cached paths and capacity
+   *
+   * @example
+   * ```typescript
+   * const { hits, misses, size } = CornerKit.getPathCacheStats();
+   * ```
+   */
+  static getPathCacheStats(): PathCacheStats {
+    return getPathCacheStats();
+  }
+
+  /**
+   * Static method: Drop all cached squircle paths and reset the stats
+   */
+  static clearPathCache(): void {
+    clearPathCache();
+  }
+
   /**
    * Static method: Check browser support for rendering tiers
    * Can be called without creating an instance
@@ -787,6 +1822,7 @@ export default class CornerKit {
     native: boolean;
     houdini: boolean;
     clippath: boolean;
+    mask: boolean;
     fallback: boolean;
   } {
     const detector = CapabilityDetector.getInstance();
@@ -796,14 +1832,38 @@ export default class CornerKit {
       native: support.native,
       houdini: support.houdini,
       clippath: support.clippath,
+      mask: support.mask,
       fallback: support.fallback,
     };
   }
 }
 
 // Re-export types for convenience
-export type { SquircleConfig, ManagedElement, ManagedElementInfo };
-export { RendererTier, type BrowserSupport } from './core/detector';
+export type {
+  SquircleConfig,
+  StrokeConfig,
+  ShadowConfig,
+  FocusRingConfig,
+  ManagedElement,
+  ManagedElementInfo,
+  OriginalStyles,
+  Renderer,
+  RendererContext,
+  RendererName,
+  ShapeFunction,
+  CornerAlgorithm,
+  ClipPathFormat,
+  RadiusMode,
+  RadiusValue,
+  ResolvedSquircleConfig,
+  ApplyOptions,
+  AutoOptions,
+  ScopeOptions,
+  SquircleHandle,
+  PathCacheOptions,
+  PathCacheStats,
+};
+export { RendererTier, TIER_PRIORITY, type BrowserSupport } from './core/detector';
 export { DEFAULT_CONFIG } from './core/types';
 
 // Re-export data attribute utilities for convenience
@@ -0,0 +1,319 @@
+/**
+ * Apple Continuous Corner Implementation
+ * Reproduces UIKit/SwiftUI `RoundedRectangle(style: .continuous)` corners
+ *
+ * Reference: UIBezierPath continuous rounded rect outlines (iOS 7+), as
+ * reverse-engineered with PaintCode
+ *
+ * Each corner consists of:
+ * - A cubic Bézier easing off the straight edge
+ * - A short straight segment
+ * - A cubic Bézier through the 45° point
+ * - The mirrored segment and Bézier back onto the other edge
+ *
+ * The corner spans 1.52866483 × radius along each edge. When that no longer fits
+ * (radius above min(width, height) / 2 / 1.52866483), UIKit blends the corner into
+ * a circular arc, reaching a capsule at radius = min(width, height) / 2.
+ */
+
+import type { Corner, PerCornerValue } from '../core/types';
+import { mapCorners, resolveCorners } from './corners';
+import { DEFAULT_PRECISION, roundTo } from './precision';
+
+/**
+ * Length along each edge covered by a continuous corner, in units of the radius
+ */
+export const CONTINUOUS_EXTENT = 1.52866483;
+
+/**
+ * Point in corner units: x along the first edge, y along the second edge,
+ * both measured from the corner of the bounding box
+ */
+interface ProfilePoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Corner outline command (absolute, in corner units)
+ */
+type ProfileCommand =
+  | { type: 'L'; to: ProfilePoint }
+  | { type: 'C'; control1: ProfilePoint; control2: ProfilePoint; to: ProfilePoint };
+
+/**
+ * Corner outline from the first edge (y = 0) to the second edge (x = 0)
+ */
+interface CornerProfile {
+  start: ProfilePoint;
+  commands: ProfileCommand[];
+}
+
+/**
+ * UIKit continuous corner for radius 1
+ * The reference outline is symmetric about the diagonal up to ~1e-6; the
+ * mirrored half is generated from the first half so the path is exact
+ */
+const CONTINUOUS_HALF: ProfileCommand[] = [
+  {
+    type: 'C',
+    control1: { x: 1.08849323, y: 0 },
+    control2: { x: 0.86840689, y: 0 },
+    to: { x: 0.66993427, y: 0.065496 },
+  },
+  { type: 'L', to: { x: 0.63149399, y: 0.074911 } },
+  {
+    type: 'C',
+    control1: { x: 0.37282392, y: 0.16905899 },
+    control2: { x: 0.16905899, y: 0.37282392 },
+    to: { x: 0.074911, y: 0.63149399 },
+  },
+];
+
+/**
+ * Circular corner with the same command structure as the continuous corner,
+ * so the two can be blended point by point
+ * Split at 20° and 70°: the tangent directions where the continuous Béziers meet
+ */
+const ARC_SPLIT = (20 * Math.PI) / 180;
+
+/**
+ * Point on the unit quarter circle centered at (1, 1)
+ *
+ * @param angle - Angle from the first edge (0) to the second edge (π/2)
+ */
+function arcPoint(angle: number): ProfilePoint {
+  return { x: 1 - Math.sin(angle), y: 1 - Math.cos(angle) };
+}
+
+/**
+ * Cubic Bézier approximation of a unit circle arc
+ *
+ * @param from - Start angle
+ * @param to - End angle
+ */
+function arcCommand(from: number, to: number): ProfileCommand {
+  const handle = (4 / 3) * Math.tan((to - from) / 4);
+  const start = arcPoint(from);
+  const end = arcPoint(to);
+
+  return {
+    type: 'C',
+    control1: { x: start.x - handle * Math.cos(from), y: start.y + handle * Math.sin(from) },
+    control2: { x: end.x + handle * Math.cos(to), y: end.y - handle * Math.sin(to) },
+    to: end,
+  };
+}
+
+/**
+ * Mirror a half profile about the diagonal to complete the corner
+ *
+ * @param start - Start point of the half profile
+ * @param half - Commands from the first edge to the diagonal
+ * @returns Full corner profile
+ */
+function mirrorProfile(start: ProfilePoint, half: ProfileCommand[]): CornerProfile {
+  const swap = (point: ProfilePoint): ProfilePoint => ({ x: point.y, y: point.x });
+  const points = [start, ...half.map((command) => command.to)];
+
+  // Walk the half profile backwards: each command ends where the previous one started
+  const mirrored = half
+    .map((command, index): ProfileCommand => {
+      const to = swap(points[index] as ProfilePoint);
+      return command.type === 'L'
+        ? { type: 'L', to }
+        : { type: 'C', control1: swap(command.control2), control2: swap(command.control1), to };
+    })
+    .reverse();
+
+  // The middle Bézier crosses the diagonal, so its mirror is itself
+  return { start, commands: [...half, ...mirrored.slice(1)] };
+}
+
+const CONTINUOUS_PROFILE = mirrorProfile({ x: CONTINUOUS_EXTENT, y: 0 }, CONTINUOUS_HALF);
+
+const CIRCULAR_PROFILE = mirrorProfile(arcPoint(0), [
+  arcCommand(0, ARC_SPLIT),
+  { type: 'L', to: arcPoint(ARC_SPLIT) },
+  arcCommand(ARC_SPLIT, Math.PI / 2 - ARC_SPLIT),
+]);
+
+/**
+ * Corner geometry for a radius within the available space
+ */
+interface ContinuousCorner {
+  /**
+   * Scale of the continuous profile
+   */
+  scale: number;
+
+  /**
+   * Radius of the circular profile
+   */
+  circleRadius: number;
+
+  /**
+   * Blend from continuous (0) to circular (1)
+   */
+  blend: number;
+}
+
+/**
+ * Resolve how a continuous corner fits into the available space
+ *
+ * @param radius - Corner radius in pixels
+ * @param limit - Half of the shorter side (the largest possible corner extent)
+ * @returns Profile scale, circle radius and blend factor
+ */
+export function getContinuousCorner(radius: number, limit: number): ContinuousCorner {
+  const r = Math.max(0, Math.min(radius, limit));
+  const fullyContinuous = limit / CONTINUOUS_EXTENT;
+
+  if (r <= fullyContinuous) {
+    return { scale: r, circleRadius: r, blend: 0 };
+  }
+
+  return {
+    scale: fullyContinuous,
+    circleRadius: r,
+    blend: (r - fullyContinuous) / (limit - fullyContinuous),
+  };
+}
+
+/**
+ * Length along each edge covered by a corner
+ *
+ * @param corner - Resolved corner geometry
+ */
+function cornerExtent(corner: ContinuousCorner): number {
+  return (1 - corner.blend) * corner.scale * CONTINUOUS_EXTENT + corner.blend * corner.circleRadius;
+}
+
+/**
+ * Map corner units to element coordinates, walking the outline clockwise
+ * (first edge → second edge)
+ */
+const CORNER_PLACEMENT: Record<
+  Corner,
+  (point: ProfilePoint, width: number, height: number) => ProfilePoint
+> = {
+  topRight: (point, width) => ({ x: width - point.x, y: point.y }),
+  bottomRight: (point, width, height) => ({ x: width - point.y, y: height - point.x }),
+  bottomLeft: (point, _width, height) => ({ x: point.x, y: height - point.y }),
+  topLeft: (point) => ({ x: point.y, y: point.x }),
+};
+
+/**
+ * Generate SVG path commands for one corner
+ *
+ * @param corner - Corner position
+ * @param geometry - Resolved corner geometry
+ * @param width - Element width in pixels
+ * @param height - Element height in pixels
+ * @param scaleY - Vertical stretch for elliptical corners
+ * @param precision - Decimal places of the coordinates
+ * @returns Absolute path commands, or '' for a square corner
+ */
+function drawCorner(
+  corner: Corner,
+  geometry: ContinuousCorner,
+  width: number,
+  height: number,
+  scaleY: number,
+  precision: number
+): string {
+  const round = (value: number): number => roundTo(value, precision);
+
+  if (geometry.circleRadius <= 0) {
+    return '';
+  }
+
+  const { scale, circleRadius, blend } = geometry;
+  const edgeY = corner === 'topLeft' || corner === 'topRight' ? 0 : height;
+  const point = (continuous: ProfilePoint, circular: ProfilePoint): string => {
+    const placed = CORNER_PLACEMENT[corner](
+      {
+        x: (1 - blend) * scale * continuous.x + blend * circleRadius * circular.x,
+        y: (1 - blend) * scale * continuous.y + blend * circleRadius * circular.y,
+      },
+      width,
+      height
+    );
+    return `${round(placed.x)} ${round(edgeY + (placed.y - edgeY) * scaleY)}`;
+  };
+
+  let previous = point(CONTINUOUS_PROFILE.start, CIRCULAR_PROFILE.start);
+  const commands: string[] = [];
+
+  CONTINUOUS_PROFILE.commands.forEach((command, index) => {
+    const circular = CIRCULAR_PROFILE.commands[index] as ProfileCommand;
+    const to = point(command.to, circular.to);
+
+    if (command.type === 'C' && circular.type === 'C') {
+      commands.push(
+        `C ${point(command.control1, circular.control1)} ${point(command.control2, circular.control2)} ${to}`
+      );
+    } else if (to !== previous) {
+      // The straight segments shrink to nothing as the corner becomes circular
+      commands.push(`L ${to}`);
+    }
+
+    previous = to;
+  });
+
+  return commands.join(' ');
+}
+
+/**
+ * Generate complete continuous-corner SVG path (UIKit `.continuous` rounded rect)
+ *
+ * @param width - Element width in pixels
+ * @param height - Element height in pixels
+ * @param radius - Corner radius in pixels, uniform or per corner
+ *   (each corner is limited to half of the shorter side, like UIKit)
+ * @param radiusY - Vertical radius for elliptical corners, uniform or per corner
+ *   (default: same as radius); the corner is stretched vertically by radiusY / radius
+ * @param precision - Decimal places of the coordinates (default: 2)
+ * @returns SVG path string
+ */
+export function generateAppleSquirclePath(
+  width: number,
+  height: number,
+  radius: PerCornerValue<number>,
+  radiusY?: PerCornerValue<number>,
+  precision: number = DEFAULT_PRECISION
+): string {
+  const round = (value: number): number => roundTo(value, precision);
+  const radii = resolveCorners(radius, 0);
+  const radiiY = resolveCorners(radiusY ?? radii, radii);
+
+  // A corner with a zero radius on either axis is square, like CSS
+  const scaleY = mapCorners(radii, (r, corner) => (r > 0 ? radiiY[corner] / r : 1));
+  const corners = mapCorners(radii, (r, corner) =>
+    getContinuousCorner(
+      radiiY[corner] > 0 ? r : 0,
+      // Limit in horizontal units: the stretched corner must fit half the height too
+      Math.min(width, height / scaleY[corner]) / 2
+    )
+  );
+  const extent = (corner: Corner): number => cornerExtent(corners[corner]);
+  const extentY = (corner: Corner): number => extent(corner) * scaleY[corner];
+  const draw = (corner: Corner): string =>
+    drawCorner(corner, corners[corner], width, height, scaleY[corner], precision);
+
+  // Clockwise from the top edge: each corner is preceded by the straight edge leading to it
+  return [
+    `M ${round(extent('topLeft'))} 0`,
+    `L ${round(width - extent('topRight'))} 0`,
+    draw('topRight'),
+    `L ${round(width)} ${round(height - extentY('bottomRight'))}`,
+    draw('bottomRight'),
+    `L ${round(extent('bottomLeft'))} ${round(height)}`,
+    draw('bottomLeft'),
+    `L 0 ${round(extentY('topLeft'))}`,
+    draw('topLeft'),
+    'Z',
+  ]
+    .filter((command) => command !== '')
+    .join(' ');
+}
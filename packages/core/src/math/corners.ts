@@ -0,0 +1,187 @@
+/**
+ * Per-Corner Helpers
+ * Resolves uniform/per-corner config values and applies CSS overlap scaling
+ */
+
+import type { Corner, CornerValues, PerCornerValue } from '../core/types';
+
+/**
+ * Corner names in CSS border-radius order (TL, TR, BR, BL)
+ */
+export const CORNERS: readonly Corner[] = ['topLeft', 'topRight', 'bottomRight', 'bottomLeft'];
+
+/**
+ * Check whether a value is a per-corner object (as opposed to a single value)
+ *
+ * @param value - Config value to check
+ * @returns true for non-null, non-array objects
+ */
+export function isPerCorner<T>(value: unknown): value is Partial<CornerValues<T>> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Expand a uniform or per-corner value into all four corners
+ *
+ * @param value - Single value or per-corner object
+ * @param fallback - Value (or values) for corners missing from the object
+ * @returns Value for every corner
+ */
+export function resolveCorners<T>(
+  value: PerCornerValue<T>,
+  fallback: T | CornerValues<T>
+): CornerValues<T> {
+  const fallbackFor = (corner: Corner): T =>
+    isPerCorner<T>(fallback) ? fallback[corner] : fallback;
+
+  if (!isPerCorner<T>(value)) {
+    return { topLeft: value, topRight: value, bottomRight: value, bottomLeft: value };
+  }
+
+  return {
+    topLeft: value.topLeft ?? fallbackFor('topLeft'),
+    topRight: value.topRight ?? fallbackFor('topRight'),
+    bottomRight: value.bottomRight ?? fallbackFor('bottomRight'),
+    bottomLeft: value.bottomLeft ?? fallbackFor('bottomLeft'),
+  };
+}
+
+/**
+ * Check whether all four corners share the same value
+ *
+ * @param values - Per-corner values
+ * @returns true if every corner equals topLeft
+ */
+export function isUniform<T>(values: CornerValues<T>): boolean {
+  return CORNERS.every((corner) => values[corner] === values.topLeft);
+}
+
+/**
+ * Scale radii down proportionally when adjacent corners overlap
+ * Same rule as CSS Backgrounds 3 §5.5: f = min(side / (sum of radii on that side)),
+ * and if f < 1 every radius is multiplied by f
+ *
+ * @param radii - Per-corner radii in pixels
+ * @param width - Element width in pixels
+ * @param height - Element height in pixels
+ * @returns Radii that fit the box
+ */
+export function scaleCornerRadii(
+  radii: CornerValues<number>,
+  width: number,
+  height: number
+): CornerValues<number> {
+  return scaleEllipticalRadii(radii, radii, width, height).x;
+}
+
+/**
+ * Scale elliptical radii (`border-radius: x / y`) down when adjacent corners overlap
+ * Horizontal radii are checked against the width and vertical radii against the
+ * height; both are multiplied by the same factor, so each corner keeps its ratio.
+ * A corner with a zero radius on either axis is square (both become 0), like CSS
+ *
+ * @param radiiX - Horizontal radii in pixels
+ * @param radiiY - Vertical radii in pixels
+ * @param width - Element width in pixels
+ * @param height - Element height in pixels
+ * @returns Horizontal and vertical radii that fit the box
+ */
+export function scaleEllipticalRadii(
+  radiiX: CornerValues<number>,
+  radiiY: CornerValues<number>,
+  width: number,
+  height: number
+): { x: CornerValues<number>; y: CornerValues<number> } {
+  const ratio = (side: number, sum: number): number => (sum > 0 ? side / sum : Infinity);
+
+  const factor = Math.min(
+    1,
+    ratio(width, radiiX.topLeft + radiiX.topRight),
+    ratio(width, radiiX.bottomLeft + radiiX.bottomRight),
+    ratio(height, radiiY.topLeft + radiiY.bottomLeft),
+    ratio(height, radiiY.topRight + radiiY.bottomRight)
+  );
+
+  const scale = (radius: number, corner: Corner): number =>
+    radiiX[corner] > 0 && radiiY[corner] > 0 ? radius * factor : 0;
+
+  return { x: mapCorners(radiiX, scale), y: mapCorners(radiiY, scale) };
+}
+
+/**
+ * Length along each edge a corner may use when its curve extends past the radius
+ * Each side is shared between its two corners in proportion to their radii, and a
+ * corner gets the smaller share of its two sides. For uniform radii this is
+ * min(width, height) / 2
+ *
+ * Elliptical corners share the height by their vertical radii; the vertical share is
+ * converted to horizontal units (× rx / ry), so the budget applies to the corner
+ * before it is stretched vertically.
+ *
+ * @param radii - Per-corner (horizontal) radii in pixels (already scaled to fit the box)
+ * @param width - Element width in pixels
+ * @param height - Element height in pixels
+ * @param radiiY - Vertical radii for elliptical corners (default: same as radii)
+ * @returns Budget for each corner in pixels, along the horizontal edge
+ */
+export function getCornerBudgets(
+  radii: CornerValues<number>,
+  width: number,
+  height: number,
+  radiiY: CornerValues<number> = radii
+): CornerValues<number> {
+  const share = (side: number, radius: number, other: number): number =>
+    radius + other > 0 ? (side * radius) / (radius + other) : side / 2;
+
+  const horizontal: Record<Corner, Corner> = {
+    topLeft: 'topRight',
+    topRight: 'topLeft',
+    bottomRight: 'bottomLeft',
+    bottomLeft: 'bottomRight',
+  };
+  const vertical: Record<Corner, Corner> = {
+    topLeft: 'bottomLeft',
+    topRight: 'bottomRight',
+    bottomRight: 'topRight',
+    bottomLeft: 'topLeft',
+  };
+
+  return mapCorners(radii, (radius, corner) => {
+    const radiusY = radiiY[corner];
+    const toHorizontal = radius > 0 && radiusY > 0 ? radius / radiusY : 1;
+
+    return Math.min(
+      share(width, radius, radii[horizontal[corner]]),
+      share(height, radiusY, radiiY[vertical[corner]]) * toHorizontal
+    );
+  });
+}
+
+/**
+ * Format per-corner CSS values as a border-radius-style list
+ *
+ * @param values - CSS value for each corner
+ * @returns Single value when uniform, otherwise four values in TL TR BR BL order
+ */
+export function formatCornerList(values: CornerValues<string>): string {
+  return isUniform(values) ? values.topLeft : CORNERS.map((corner) => values[corner]).join(' ');
+}
+
+/**
+ * Map every corner through a function
+ *
+ * @param values - Per-corner values
+ * @param fn - Mapping function, receives the value and corner name
+ * @returns New per-corner values
+ */
+export function mapCorners<T, U>(
+  values: CornerValues<T>,
+  fn: (value: T, corner: Corner) => U
+): CornerValues<U> {
+  return {
+    topLeft: fn(values.topLeft, 'topLeft'),
+    topRight: fn(values.topRight, 'topRight'),
+    bottomRight: fn(values.bottomRight, 'bottomRight'),
+    bottomLeft: fn(values.bottomLeft, 'bottomLeft'),
+  };
+}
@@ -10,6 +10,10 @@
  * - Two cubic Bézier curves on each end (for smooth transitions)
  */
 
+import type { Corner, PerCornerValue } from '../core/types';
+import { getCornerBudgets, mapCorners, resolveCorners, scaleEllipticalRadii } from './corners';
+import { DEFAULT_PRECISION, roundTo } from './precision';
+
 interface CornerPathParams {
   a: number;  // Control point distance 1 (2 * b)
   b: number;  // Control point distance 2
@@ -30,16 +34,30 @@ function toRadians(degrees: number): number {
 /**
  * Calculate path parameters for a corner using Figma's algorithm
  *
+ * When the corner path (1 + smoothing) × radius does not fit the budget, Figma
+ * either lowers the smoothing until it fits (default), or with preserveSmoothing
+ * keeps the smoothing and shortens the Bézier handles instead
+ *
  * @param cornerRadius - Corner radius in pixels
  * @param cornerSmoothing - Smoothing factor 0-1 (0.6 = iOS squircle)
+ * @param preserveSmoothing - Keep the smoothing when the budget is exceeded (default: false)
+ * @param budget - Length along each edge available to the corner (default: unlimited)
  * @returns Path parameters for drawing the corner
  */
 export function getPathParamsForCorner(
   cornerRadius: number,
-  cornerSmoothing: number
+  cornerSmoothing: number,
+  preserveSmoothing: boolean = false,
+  budget: number = Infinity
 ): CornerPathParams {
   // Total corner path length
-  const p = (1 + cornerSmoothing) * cornerRadius;
+  let p = (1 + cornerSmoothing) * cornerRadius;
+
+  // Spend only the budget: less smoothing, shorter path
+  if (!preserveSmoothing && p > budget && cornerRadius > 0) {
+    cornerSmoothing = Math.max(0, Math.min(cornerSmoothing, budget / cornerRadius - 1));
+    p = Math.min(p, budget);
+  }
 
   // Arc angle in degrees (90° when smoothing=0, 0° when smoothing=1)
   const arcMeasure = 90 * (1 - cornerSmoothing);
@@ -63,8 +81,20 @@ export function getPathParamsForCorner(
 
   // Bezier handle lengths
   // The remaining length after arc and transitions is split into 3 parts (1/3 for b, 2/3 for a)
-  const b = (p - arcSectionLength - c - d) / 3;
-  const a = 2 * b;
+  let b = (p - arcSectionLength - c - d) / 3;
+  let a = 2 * b;
+
+  // Preserve smoothing: keep arc and transitions, squeeze the handles into the budget
+  // (a keeps at least 1/6 of the remaining length so the curve stays tangent to the edge)
+  if (preserveSmoothing && p > budget) {
+    const p1ToP3MaxDistance = budget - d - arcSectionLength - c;
+    const minA = p1ToP3MaxDistance / 6;
+    const maxB = p1ToP3MaxDistance - minA;
+
+    b = Math.min(b, maxB);
+    a = p1ToP3MaxDistance - b;
+    p = Math.min(p, budget);
+  }
 
   return {
     a,
@@ -77,18 +107,19 @@ export function getPathParamsForCorner(
   };
 }
 
-/**
- * Round number to 2 decimal places for SVG path optimization
- */
-function round(value: number): number {
-  return Math.round(value * 100) / 100;
-}
-
 /**
  * Generate SVG path commands for top-right corner
+ * (vertical distances are multiplied by scaleY for elliptical corners, values are
+ * rounded to `precision` decimal places)
  */
-export function drawTopRightCorner(params: CornerPathParams): string {
+export function drawTopRightCorner(
+  params: CornerPathParams,
+  scaleY: number = 1,
+  precision: number = DEFAULT_PRECISION
+): string {
   const { cornerRadius, a, b, c, d, arcSectionLength } = params;
+  const round = (value: number): number => roundTo(value, precision);
+  const y = (value: number): number => round(value * scaleY);
 
   if (cornerRadius === 0) {
     return `l ${round(params.p)} 0`;
@@ -98,60 +129,84 @@ export function drawTopRightCorner(params: CornerPathParams): string {
   // Then arc
   // Then second bezier curve (arc to vertical transition)
   return `
-    c ${round(a)} 0 ${round(a + b)} 0 ${round(a + b + c)} ${round(d)}
-    a ${round(cornerRadius)} ${round(cornerRadius)} 0 0 1 ${round(arcSectionLength)} ${round(arcSectionLength)}
-    c ${round(d)} ${round(c)} ${round(d)} ${round(b + c)} ${round(d)} ${round(a + b + c)}
+    c ${round(a)} 0 ${round(a + b)} 0 ${round(a + b + c)} ${y(d)}
+    a ${round(cornerRadius)} ${y(cornerRadius)} 0 0 1 ${round(arcSectionLength)} ${y(arcSectionLength)}
+    c ${round(d)} ${y(c)} ${round(d)} ${y(b + c)} ${round(d)} ${y(a + b + c)}
   `.trim().replace(/\s+/g, ' ');
 }
 
 /**
  * Generate SVG path commands for bottom-right corner
+ * (vertical distances are multiplied by scaleY for elliptical corners, values are
+ * rounded to `precision` decimal places)
  */
-export function drawBottomRightCorner(params: CornerPathParams): string {
+export function drawBottomRightCorner(
+  params: CornerPathParams,
+  scaleY: number = 1,
+  precision: number = DEFAULT_PRECISION
+): string {
   const { cornerRadius, a, b, c, d, arcSectionLength } = params;
+  const round = (value: number): number => roundTo(value, precision);
+  const y = (value: number): number => round(value * scaleY);
 
   if (cornerRadius === 0) {
-    return `l 0 ${round(params.p)}`;
+    return `l 0 ${y(params.p)}`;
   }
 
   return `
-    c 0 ${round(a)} 0 ${round(a + b)} ${round(-d)} ${round(a + b + c)}
-    a ${round(cornerRadius)} ${round(cornerRadius)} 0 0 1 ${round(-arcSectionLength)} ${round(arcSectionLength)}
-    c ${round(-c)} ${round(d)} ${round(-b - c)} ${round(d)} ${round(-a - b - c)} ${round(d)}
+    c 0 ${y(a)} 0 ${y(a + b)} ${round(-d)} ${y(a + b + c)}
+    a ${round(cornerRadius)} ${y(cornerRadius)} 0 0 1 ${round(-arcSectionLength)} ${y(arcSectionLength)}
+    c ${round(-c)} ${y(d)} ${round(-b - c)} ${y(d)} ${round(-a - b - c)} ${y(d)}
   `.trim().replace(/\s+/g, ' ');
 }
 
 /**
  * Generate SVG path commands for bottom-left corner
+ * (vertical distances are multiplied by scaleY for elliptical corners, values are
+ * rounded to `precision` decimal places)
  */
-export function drawBottomLeftCorner(params: CornerPathParams): string {
+export function drawBottomLeftCorner(
+  params: CornerPathParams,
+  scaleY: number = 1,
+  precision: number = DEFAULT_PRECISION
+): string {
   const { cornerRadius, a, b, c, d, arcSectionLength } = params;
+  const round = (value: number): number => roundTo(value, precision);
+  const y = (value: number): number => round(value * scaleY);
 
   if (cornerRadius === 0) {
     return `l ${round(-params.p)} 0`;
   }
 
   return `
-    c ${round(-a)} 0 ${round(-a - b)} 0 ${round(-a - b - c)} ${round(-d)}
-    a ${round(cornerRadius)} ${round(cornerRadius)} 0 0 1 ${round(-arcSectionLength)} ${round(-arcSectionLength)}
-    c ${round(-d)} ${round(-c)} ${round(-d)} ${round(-b - c)} ${round(-d)} ${round(-a - b - c)}
+    c ${round(-a)} 0 ${round(-a - b)} 0 ${round(-a - b - c)} ${y(-d)}
+    a ${round(cornerRadius)} ${y(cornerRadius)} 0 0 1 ${round(-arcSectionLength)} ${y(-arcSectionLength)}
+    c ${round(-d)} ${y(-c)} ${round(-d)} ${y(-b - c)} ${round(-d)} ${y(-a - b - c)}
   `.trim().replace(/\s+/g, ' ');
 }
 
 /**
  * Generate SVG path commands for top-left corner
+ * (vertical distances are multiplied by scaleY for elliptical corners, values are
+ * rounded to `precision` decimal places)
  */
-export function drawTopLeftCorner(params: CornerPathParams): string {
+export function drawTopLeftCorner(
+  params: CornerPathParams,
+  scaleY: number = 1,
+  precision: number = DEFAULT_PRECISION
+): string {
   const { cornerRadius, a, b, c, d, arcSectionLength } = params;
+  const round = (value: number): number => roundTo(value, precision);
+  const y = (value: number): number => round(value * scaleY);
 
   if (cornerRadius === 0) {
-    return `l 0 ${round(-params.p)}`;
+    return `l 0 ${y(-params.p)}`;
   }
 
   return `
-    c 0 ${round(-a)} 0 ${round(-a - b)} ${round(d)} ${round(-a - b - c)}
-    a ${round(cornerRadius)} ${round(cornerRadius)} 0 0 1 ${round(arcSectionLength)} ${round(-arcSectionLength)}
-    c ${round(c)} ${round(-d)} ${round(b + c)} ${round(-d)} ${round(a + b + c)} ${round(-d)}
+    c 0 ${y(-a)} 0 ${y(-a - b)} ${round(d)} ${y(-a - b - c)}
+    a ${round(cornerRadius)} ${y(cornerRadius)} 0 0 1 ${round(arcSectionLength)} ${y(-arcSectionLength)}
+    c ${round(c)} ${y(-d)} ${round(b + c)} ${y(-d)} ${round(a + b + c)} ${y(-d)}
   `.trim().replace(/\s+/g, ' ');
 }
 
@@ -160,39 +215,74 @@ export function drawTopLeftCorner(params: CornerPathParams): string {
  *
  * @param width - Element width in pixels
  * @param height - Element height in pixels
- * @param radius - Corner radius in pixels
- * @param smoothing - Corner smoothing 0-1 (0.6 = iOS squircle, default 0.6)
+ * @param radius - Corner radius in pixels, uniform or per corner (horizontal radius
+ *   for elliptical corners)
+ * @param smoothing - Corner smoothing 0-1, uniform or per corner (0.6 = iOS squircle, default 0.6)
+ * @param preserveSmoothing - Keep the smoothing of corners that exceed their budget
+ *   (Figma's "preserve smoothing"), default: false
+ * @param radiusY - Vertical radius for elliptical corners, uniform or per corner
+ *   (default: same as radius)
+ * @param precision - Decimal places of the coordinates (default: 2)
  * @returns SVG path string
+ *
+ * Elliptical corners are the circular corner for the horizontal radius, stretched
+ * vertically by radiusY / radius (like CSS `border-radius: x / y`)
  */
 export function generateFigmaSquirclePath(
   width: number,
   height: number,
-  radius: number,
-  smoothing: number = 0.6
+  radius: PerCornerValue<number>,
+  smoothing: PerCornerValue<number> = 0.6,
+  preserveSmoothing: boolean = false,
+  radiusY?: PerCornerValue<number>,
+  precision: number = DEFAULT_PRECISION
 ): string {
-  // Clamp radius to element dimensions
-  const clampedRadius = Math.min(radius, width / 2, height / 2);
+  const round = (value: number): number => roundTo(value, precision);
+
+  // Scale radii down proportionally when adjacent corners overlap (CSS rule).
+  // For uniform radii this equals Math.min(radius, width / 2, height / 2)
+  const radiiX = resolveCorners(radius, 0);
+  const { x: radii, y: radiiY } = scaleEllipticalRadii(
+    radiiX,
+    resolveCorners(radiusY ?? radiiX, radiiX),
+    width,
+    height
+  );
+  const smoothings = resolveCorners(smoothing, 0.6);
+
+  // Vertical stretch of each corner
+  const scaleY = mapCorners(radii, (radius, corner) => (radius > 0 ? radiiY[corner] / radius : 1));
+
+  // Smoothing extends each corner past its radius: share the edges between corners
+  const budgets = getCornerBudgets(radii, width, height, radiiY);
 
   // Clamp smoothing to valid range
-  const clampedSmoothing = Math.max(0, Math.min(1, smoothing));
+  const clampSmoothing = (value: number): number => Math.max(0, Math.min(1, value));
 
-  // Calculate path parameters for all corners (assume uniform corners for now)
-  const topLeftParams = getPathParamsForCorner(clampedRadius, clampedSmoothing);
-  const topRightParams = getPathParamsForCorner(clampedRadius, clampedSmoothing);
-  const bottomRightParams = getPathParamsForCorner(clampedRadius, clampedSmoothing);
-  const bottomLeftParams = getPathParamsForCorner(clampedRadius, clampedSmoothing);
+  // Calculate path parameters for each corner
+  const params = (corner: Corner): CornerPathParams =>
+    getPathParamsForCorner(
+      radii[corner],
+      clampSmoothing(smoothings[corner]),
+      preserveSmoothing,
+      budgets[corner]
+    );
+  const topLeftParams = params('topLeft');
+  const topRightParams = params('topRight');
+  const bottomRightParams = params('bottomRight');
+  const bottomLeftParams = params('bottomLeft');
 
   // Build the complete path
   // Start from top-right corner, move counter-clockwise
   const path = `
     M ${round(width - topRightParams.p)} 0
-    ${drawTopRightCorner(topRightParams)}
-    L ${round(width)} ${round(height - bottomRightParams.p)}
-    ${drawBottomRightCorner(bottomRightParams)}
+    ${drawTopRightCorner(topRightParams, scaleY.topRight, precision)}
+    L ${round(width)} ${round(height - bottomRightParams.p * scaleY.bottomRight)}
+    ${drawBottomRightCorner(bottomRightParams, scaleY.bottomRight, precision)}
     L ${round(bottomLeftParams.p)} ${round(height)}
-    ${drawBottomLeftCorner(bottomLeftParams)}
-    L 0 ${round(topLeftParams.p)}
-    ${drawTopLeftCorner(topLeftParams)}
+    ${drawBottomLeftCorner(bottomLeftParams, scaleY.bottomLeft, precision)}
+    L 0 ${round(topLeftParams.p * scaleY.topLeft)}
+    ${drawTopLeftCorner(topLeftParams, scaleY.topLeft, precision)}
     Z
   `.replace(/\s+/g, ' ').trim();
 
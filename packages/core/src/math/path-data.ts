@@ -0,0 +1,374 @@
+/**
+ * SVG Path Data
+ * Converts path data to absolute move/line/cubic commands, so generated and custom
+ * paths can be re-expressed in other coordinate systems (CSS polygon() and shape())
+ *
+ * Reference: SVG 1.1 path grammar, arc conversion per SVG 1.1 Appendix F.6
+ */
+
+import { roundTo } from './precision';
+
+/**
+ * Point in path coordinates
+ */
+export interface PathPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Absolute path command; arcs and quadratic curves become cubic Béziers
+ */
+export type AbsoluteCommand =
+  | { type: 'M'; to: PathPoint }
+  | { type: 'L'; to: PathPoint }
+  | { type: 'C'; control1: PathPoint; control2: PathPoint; to: PathPoint }
+  | { type: 'Z' };
+
+/**
+ * Control point reflected by a following S (cubic) or T (quadratic) command
+ */
+interface ReflectableControl {
+  type: 'C' | 'Q';
+  point: PathPoint;
+}
+
+/**
+ * Command letters and numbers (including exponents and numbers packed without separators)
+ */
+const TOKEN_PATTERN = /[MmLlHhVvCcSsQqTtAaZz]|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g;
+
+/**
+ * Number of arguments per command
+ */
+const ARGUMENT_COUNT: Record<string, number> = {
+  M: 2,
+  L: 2,
+  H: 1,
+  V: 1,
+  C: 6,
+  S: 4,
+  Q: 4,
+  T: 2,
+  A: 7,
+  Z: 0,
+};
+
+/**
+ * Signed angle between two vectors
+ */
+function angleBetween(ux: number, uy: number, vx: number, vy: number): number {
+  return Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+}
+
+/**
+ * Convert an elliptical arc to cubic Béziers (at most 90° each)
+ *
+ * @param from - Current point
+ * @param args - Arc arguments: rx, ry, x-axis rotation (degrees), large-arc flag, sweep flag
+ * @param to - End point
+ * @returns Cubic commands, or a line when a radius is 0
+ */
+function arcToCubics(from: PathPoint, args: number[], to: PathPoint): AbsoluteCommand[] {
+  const [radiusX = 0, radiusY = 0, rotation = 0, largeArc = 0, sweep = 0] = args;
+  let rx = Math.abs(radiusX);
+  let ry = Math.abs(radiusY);
+
+  if (rx === 0 || ry === 0 || (from.x === to.x && from.y === to.y)) {
+    return rx === 0 || ry === 0 ? [{ type: 'L', to }] : [];
+  }
+
+  const phi = (rotation * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+
+  // Endpoint to center parameterization (F.6.5)
+  const dx = (from.x - to.x) / 2;
+  const dy = (from.y - to.y) / 2;
+  const x1 = cos * dx + sin * dy;
+  const y1 = -sin * dx + cos * dy;
+
+  // Radii too small to reach the end point are scaled up (F.6.6)
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  const coefficient =
+    (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cx1 = (coefficient * rx * y1) / ry;
+  const cy1 = (-coefficient * ry * x1) / rx;
+  const cx = cos * cx1 - sin * cy1 + (from.x + to.x) / 2;
+  const cy = sin * cx1 + cos * cy1 + (from.y + to.y) / 2;
+
+  const start = angleBetween(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+  let sweepAngle = angleBetween(
+    (x1 - cx1) / rx,
+    (y1 - cy1) / ry,
+    (-x1 - cx1) / rx,
+    (-y1 - cy1) / ry
+  );
+  if (!sweep && sweepAngle > 0) {
+    sweepAngle -= 2 * Math.PI;
+  } else if (sweep && sweepAngle < 0) {
+    sweepAngle += 2 * Math.PI;
+  }
+
+  const point = (angle: number): PathPoint => ({
+    x: cx + rx * cos * Math.cos(angle) - ry * sin * Math.sin(angle),
+    y: cy + rx * sin * Math.cos(angle) + ry * cos * Math.sin(angle),
+  });
+  const tangent = (angle: number): PathPoint => ({
+    x: -rx * cos * Math.sin(angle) - ry * sin * Math.cos(angle),
+    y: -rx * sin * Math.sin(angle) + ry * cos * Math.cos(angle),
+  });
+
+  const segments = Math.max(1, Math.ceil(Math.abs(sweepAngle) / (Math.PI / 2) - 1e-9));
+  const step = sweepAngle / segments;
+  const handle = (4 / 3) * Math.tan(step / 4);
+  const commands: AbsoluteCommand[] = [];
+
+  for (let i = 0; i < segments; i++) {
+    const a = start + i * step;
+    const b = a + step;
+    const [pointA, tangentA, pointB, tangentB] = [point(a), tangent(a), point(b), tangent(b)];
+
+    commands.push({
+      type: 'C',
+      control1: { x: pointA.x + handle * tangentA.x, y: pointA.y + handle * tangentA.y },
+      control2: { x: pointB.x - handle * tangentB.x, y: pointB.y - handle * tangentB.y },
+      // The last segment ends exactly on the requested point
+      to: i === segments - 1 ? to : pointB,
+    });
+  }
+
+  return commands;
+}
+
+/**
+ * Path command letter (absolute form)
+ */
+export type PathCommandType = 'M' | 'L' | 'H' | 'V' | 'C' | 'S' | 'Q' | 'T' | 'A' | 'Z';
+
+/**
+ * Path command with absolute coordinates, keeping its original command type
+ * `values` are the command's arguments (arc radii, rotation and flags are unchanged)
+ */
+export interface PathSegment {
+  type: PathCommandType;
+  values: number[];
+}
+
+/**
+ * Parse SVG path data into segments with absolute coordinates
+ * Implicit repetitions become separate segments (coordinate pairs after M are line-tos).
+ * Parsing stops at the first malformed command.
+ *
+ * @param path - SVG path data
+ * @returns Absolute segments
+ *
+ * @example
+ * ```typescript
+ * parsePathData('M 10 0 h 80');
+ * // [{ type: 'M', values: [10, 0] }, { type: 'H', values: [90] }]
+ * ```
+ */
+export function parsePathData(path: string): PathSegment[] {
+  const tokens = path.match(TOKEN_PATTERN) ?? [];
+  const segments: PathSegment[] = [];
+
+  let current: PathPoint = { x: 0, y: 0 };
+  let subpathStart: PathPoint = { x: 0, y: 0 };
+  let command = '';
+  let index = 0;
+
+  while (index < tokens.length) {
+    const token = tokens[index] as string;
+    if (/[a-z]/i.test(token)) {
+      command = token;
+      index++;
+    } else if (command === '' || command.toUpperCase() === 'Z') {
+      // Numbers without a command
+      break;
+    }
+
+    const type = command.toUpperCase() as PathCommandType;
+    const relative = command !== type;
+    const count = ARGUMENT_COUNT[type] ?? 0;
+    if (index + count > tokens.length) {
+      break;
+    }
+
+    const values = tokens.slice(index, index + count).map(Number);
+    index += count;
+    if (values.some((value) => Number.isNaN(value))) {
+      break;
+    }
+
+    if (relative) {
+      // Arcs only move their end point; every other argument is a coordinate pair
+      const start = type === 'A' ? 5 : 0;
+      for (let i = start; i < values.length; i++) {
+        const offset =
+          type === 'V' || (type !== 'H' && (i - start) % 2 === 1) ? current.y : current.x;
+        values[i] = (values[i] as number) + offset;
+      }
+    }
+
+    segments.push({ type, values });
+
+    const [x = current.x, y = current.y] = values.slice(-2);
+    if (type === 'Z') {
+      current = subpathStart;
+    } else if (type === 'H') {
+      current = { x: values[0] as number, y: current.y };
+    } else if (type === 'V') {
+      current = { x: current.x, y: values[0] as number };
+    } else {
+      current = { x, y };
+    }
+
+    if (type === 'M') {
+      subpathStart = current;
+      // Further coordinate pairs are implicit line-tos
+      command = relative ? 'l' : 'L';
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Parse SVG path data into absolute move, line and cubic commands
+ * Relative commands, H/V, S/T, quadratic curves and arcs are all normalized.
+ * Parsing stops at the first malformed command.
+ *
+ * @param path - SVG path data
+ * @returns Absolute commands
+ *
+ * @example
+ * ```typescript
+ * toAbsoluteCommands('M 10 0 h 80 v 50 Z');
+ * // [{ type: 'M', to: { x: 10, y: 0 } }, { type: 'L', to: { x: 90, y: 0 } }, ...]
+ * ```
+ */
+export function toAbsoluteCommands(path: string): AbsoluteCommand[] {
+  const commands: AbsoluteCommand[] = [];
+
+  let current: PathPoint = { x: 0, y: 0 };
+  let subpathStart: PathPoint = { x: 0, y: 0 };
+  // Last control point, reflected by S and T
+  let lastControl: ReflectableControl | null = null;
+
+  parsePathData(path).forEach(({ type, values }) => {
+    const reflect = (kind: 'C' | 'Q'): PathPoint =>
+      lastControl?.type === kind
+        ? { x: 2 * current.x - lastControl.point.x, y: 2 * current.y - lastControl.point.y }
+        : current;
+    const quadratic = (control: PathPoint, to: PathPoint): AbsoluteCommand => ({
+      type: 'C',
+      control1: {
+        x: current.x + (2 / 3) * (control.x - current.x),
+        y: current.y + (2 / 3) * (control.y - current.y),
+      },
+      control2: { x: to.x + (2 / 3) * (control.x - to.x), y: to.y + (2 / 3) * (control.y - to.y) },
+      to,
+    });
+
+    let next: AbsoluteCommand[] = [];
+    let control: ReflectableControl | null = null;
+    const [a = 0, b = 0, c = 0, d = 0, e = 0, f = 0, g = 0] = values;
+
+    switch (type) {
+      case 'M':
+        next = [{ type: 'M', to: { x: a, y: b } }];
+        subpathStart = { x: a, y: b };
+        break;
+      case 'L':
+        next = [{ type: 'L', to: { x: a, y: b } }];
+        break;
+      case 'H':
+        next = [{ type: 'L', to: { x: a, y: current.y } }];
+        break;
+      case 'V':
+        next = [{ type: 'L', to: { x: current.x, y: a } }];
+        break;
+      case 'C':
+        next = [
+          { type: 'C', control1: { x: a, y: b }, control2: { x: c, y: d }, to: { x: e, y: f } },
+        ];
+        control = { type: 'C', point: { x: c, y: d } };
+        break;
+      case 'S':
+        next = [
+          { type: 'C', control1: reflect('C'), control2: { x: a, y: b }, to: { x: c, y: d } },
+        ];
+        control = { type: 'C', point: { x: a, y: b } };
+        break;
+      case 'Q':
+        next = [quadratic({ x: a, y: b }, { x: c, y: d })];
+        control = { type: 'Q', point: { x: a, y: b } };
+        break;
+      case 'T': {
+        const reflected = reflect('Q');
+        next = [quadratic(reflected, { x: a, y: b })];
+        control = { type: 'Q', point: reflected };
+        break;
+      }
+      case 'A':
+        next = arcToCubics(current, [a, b, c, d, e], { x: f, y: g });
+        break;
+      case 'Z':
+        next = [{ type: 'Z' }];
+        break;
+    }
+
+    next.forEach((item) => {
+      commands.push(item);
+      current = item.type === 'Z' ? subpathStart : item.to;
+    });
+    lastControl = control;
+  });
+
+  return commands;
+}
+
+/**
+ * Stretch path data by independent horizontal and vertical factors
+ * Arc radii scale with their axis, which is exact for arcs without rotation
+ * (the only arcs the corner algorithms draw)
+ *
+ * @param path - SVG path data
+ * @param scaleX - Horizontal factor
+ * @param scaleY - Vertical factor
+ * @param precision - Decimal places of the result
+ * @returns Scaled path data with absolute commands
+ *
+ * @example
+ * ```typescript
+ * scalePath('M 0 0 H 100 V 50 Z', 2, 1, 2);
+ * // 'M 0 0 H 200 V 50 Z'
+ * ```
+ */
+export function scalePath(path: string, scaleX: number, scaleY: number, precision: number): string {
+  return parsePathData(path)
+    .map(({ type, values }) => {
+      const scaled = values.map((value, i) => {
+        let factor = i % 2 === 0 ? scaleX : scaleY;
+        if (type === 'H') {
+          factor = scaleX;
+        } else if (type === 'V') {
+          factor = scaleY;
+        } else if (type === 'A') {
+          // rx ry rotation large-arc sweep x y: rotation and flags stay as they are
+          factor = [scaleX, scaleY, 1, 1, 1, scaleX, scaleY][i] ?? 1;
+        }
+        return roundTo(value * factor, precision);
+      });
+      return [type, ...scaled].join(' ');
+    })
+    .join(' ');
+}
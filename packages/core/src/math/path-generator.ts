@@ -8,6 +8,27 @@
  */
 
 import { generateFigmaSquirclePath } from './figma-squircle';
+import { generateAppleSquirclePath } from './apple-squircle';
+import { generateSuperellipsePath, smoothingToExponent } from './superellipse';
+import type {
+  ClipPathFormat,
+  PerCornerValue,
+  ShapeFunction,
+  ResolvedSquircleConfig,
+} from '../core/types';
+import { CORNERS, mapCorners, resolveCorners } from './corners';
+import { scalePath, toAbsoluteCommands, type PathPoint } from './path-data';
+import { optimizePath } from './path-optimizer';
+import { DEFAULT_PRECISION, roundTo } from './precision';
+import { warn } from '../utils/logger';
+
+/**
+ * Algorithm settings for generateSquirclePath()
+ */
+export type SquirclePathOptions = Pick<
+  ResolvedSquircleConfig,
+  'algorithm' | 'exponent' | 'preserveSmoothing' | 'radiusY' | 'precision'
+>;
 
 /**
  * FR-016, FR-017: Generate SVG path string for a squircle shape
@@ -17,8 +38,12 @@ import { generateFigmaSquirclePath } from './figma-squircle';
  *
  * @param width - Element width in pixels
  * @param height - Element height in pixels
- * @param radius - Corner radius in pixels (will be clamped to min(width/2, height/2))
- * @param smoothing - Smoothing factor 0-1 (default: 0.6 for iOS squircles)
+ * @param radius - Corner radius in pixels, uniform or per corner
+ *   (overlapping radii are scaled down proportionally, like CSS border-radius)
+ * @param smoothing - Smoothing factor 0-1, uniform or per corner (default: 0.6 for iOS squircles)
+ * @param options - Corner algorithm (default: 'figma'), superellipse exponent,
+ *   Figma preserveSmoothing, vertical radii for elliptical corners and the number of
+ *   decimal places (default: 2)
  * @returns SVG path string ready for clip-path CSS property
  *
  * Algorithm: Each corner = arc + 2 cubic bezier curves
@@ -29,30 +54,296 @@ import { generateFigmaSquirclePath } from './figma-squircle';
 export function generateSquirclePath(
   width: number,
   height: number,
-  radius: number,
-  smoothing: number = 0.6
+  radius: PerCornerValue<number>,
+  smoothing: PerCornerValue<number> = 0.6,
+  options: SquirclePathOptions = {}
 ): string {
+  const radii = resolveCorners(radius, 0);
+  const radiusY = options.radiusY ?? undefined;
+  const precision = options.precision ?? DEFAULT_PRECISION;
+  const round = (value: number): number => roundTo(value, precision);
+
   // Handle edge cases: zero dimensions or radius
-  if (width <= 0 || height <= 0 || radius <= 0) {
+  if (width <= 0 || height <= 0 || CORNERS.every((corner) => radii[corner] <= 0)) {
     // Return a simple rectangle path for degenerate cases
     return `M 0,0 L ${round(width)},0 L ${round(width)},${round(height)} L 0,${round(height)} Z`;
   }
 
+  // True superellipse corners: explicit exponent, or derived from smoothing per corner
+  if (options.algorithm === 'superellipse') {
+    const exponent =
+      options.exponent ?? mapCorners(resolveCorners(smoothing, 0.6), smoothingToExponent);
+    return generateSuperellipsePath(width, height, radii, exponent, radiusY, precision);
+  }
+
+  // UIKit continuous corners have a fixed profile, so smoothing does not apply
+  if (options.algorithm === 'apple') {
+    return generateAppleSquirclePath(width, height, radii, radiusY, precision);
+  }
+
   // Use Figma's algorithm (handles clamping internally)
-  return generateFigmaSquirclePath(width, height, radius, smoothing);
+  return generateFigmaSquirclePath(
+    width,
+    height,
+    radii,
+    smoothing,
+    options.preserveSmoothing,
+    radiusY,
+    precision
+  );
+}
+
+/**
+ * Name of the built-in shape (the Figma squircle)
+ */
+export const DEFAULT_SHAPE = 'squircle';
+
+/**
+ * Characters allowed in path data returned by custom shapes
+ * Path data ends up in CSS path('...') and SVG attributes, so quotes, brackets
+ * and anything else that could break out of them is rejected
+ */
+const PATH_DATA_PATTERN = /^[MmLlHhVvCcSsQqTtAaZz0-9eE.,+\-\s]+$/;
+
+/**
+ * Named shapes for `shape: name`
+ */
+const shapes = new Map<string, ShapeFunction>([
+  [
+    DEFAULT_SHAPE,
+    (width, height, config): string =>
+      generateSquirclePath(width, height, config.radius, config.smoothing, config),
+  ],
+]);
+
+/**
+ * Add (or replace) a named shape
+ *
+ * @param name - Shape name used in `shape: name`
+ * @param shape - Path generator
+ */
+export function registerShape(name: string, shape: ShapeFunction): void {
+  shapes.set(name, shape);
 }
 
 /**
- * FR-033: Optimize path string by rounding coordinates to minimize decimal places
- * Rounds to 2 decimal places for optimal balance between precision and bundle size
+ * Check if a named shape exists
  *
- * @param value - Coordinate value
- * @returns Rounded value
+ * @param name - Shape name
+ */
+export function hasShape(name: string): boolean {
+  return shapes.has(name);
+}
+
+/**
+ * Path cache settings (see configurePathCache())
+ */
+export interface PathCacheOptions {
+  /**
+   * Most paths kept; the least recently used path is evicted first (0 disables caching)
+   * @default 256
+   */
+  maxSize?: number;
+
+  /**
+   * Dimensions are rounded to this step in pixels before generating, so
+   * near-identical sizes share a path; the shared path is stretched to each size
+   * @default 1
+   */
+  quantize?: number;
+}
+
+/**
+ * Path cache usage since the last clearPathCache()
  */
-function round(value: number): number {
-  // Round to 2 decimal places
-  // This provides sub-pixel precision (~0.01px) while keeping path strings small
-  return Math.round(value * 100) / 100;
+export interface PathCacheStats {
+  hits: number;
+  misses: number;
+  size: number;
+  maxSize: number;
+}
+
+const pathCache = new Map<string, string>();
+const pathCacheSettings: Required<PathCacheOptions> = { maxSize: 256, quantize: 1 };
+const pathCacheStats = { hits: 0, misses: 0 };
+
+/**
+ * Change the path cache size or quantisation step (validated by CornerKit.configurePathCache())
+ * Cached paths are dropped, as they were generated with the previous step
+ *
+ * @param options - Settings to change
+ */
+export function configurePathCache(options: PathCacheOptions): void {
+  pathCacheSettings.maxSize = options.maxSize ?? pathCacheSettings.maxSize;
+  pathCacheSettings.quantize = options.quantize ?? pathCacheSettings.quantize;
+  pathCache.clear();
+}
+
+/**
+ * Path cache hits, misses and size
+ */
+export function getPathCacheStats(): PathCacheStats {
+  return { ...pathCacheStats, size: pathCache.size, maxSize: pathCacheSettings.maxSize };
+}
+
+/**
+ * Drop all cached paths and reset the stats
+ */
+export function clearPathCache(): void {
+  pathCache.clear();
+  pathCacheStats.hits = 0;
+  pathCacheStats.misses = 0;
+}
+
+/**
+ * Write a path in compact form when the config sets `precision`
+ *
+ * @param path - SVG path data
+ * @param config - Element configuration
+ */
+function compact(path: string, config: ResolvedSquircleConfig): string {
+  return typeof config.precision === 'number' ? optimizePath(path, config.precision) : path;
+}
+
+/**
+ * Generate the squircle for a config at an exact size
+ *
+ * @param width - Width in pixels
+ * @param height - Height in pixels
+ * @param config - Element configuration
+ */
+function squirclePath(width: number, height: number, config: ResolvedSquircleConfig): string {
+  return compact(
+    generateSquirclePath(width, height, config.radius, config.smoothing, config),
+    config
+  );
+}
+
+/**
+ * Generate the squircle for a config through the LRU path cache
+ * Width and height are quantised first, and the cached path is stretched back to
+ * the element's size so no edge is clipped (corners distort by at most half a
+ * step). Every other option that changes the squircle is part of the cache key
+ *
+ * @param width - Element width in pixels
+ * @param height - Element height in pixels
+ * @param config - Element configuration
+ * @returns SVG path string
+ */
+function cachedSquirclePath(width: number, height: number, config: ResolvedSquircleConfig): string {
+  const { quantize } = pathCacheSettings;
+  const quantizedWidth = Math.round(width / quantize) * quantize;
+  const quantizedHeight = Math.round(height / quantize) * quantize;
+
+  // Sizes that round to zero cannot be stretched back
+  if (quantizedWidth <= 0 || quantizedHeight <= 0) {
+    return squirclePath(width, height, config);
+  }
+
+  const path = lookupSquirclePath(quantizedWidth, quantizedHeight, config);
+  if (quantizedWidth === width && quantizedHeight === height) {
+    return path;
+  }
+
+  const precision = config.precision ?? DEFAULT_PRECISION;
+  return compact(
+    scalePath(path, width / quantizedWidth, height / quantizedHeight, precision),
+    config
+  );
+}
+
+/**
+ * Get the squircle for a quantised size from the LRU path cache, generating it on a miss
+ *
+ * @param width - Quantised width in pixels
+ * @param height - Quantised height in pixels
+ * @param config - Element configuration
+ * @returns SVG path string
+ */
+function lookupSquirclePath(width: number, height: number, config: ResolvedSquircleConfig): string {
+  const { maxSize } = pathCacheSettings;
+  const generate = (): string => squirclePath(width, height, config);
+
+  if (maxSize === 0) {
+    return generate();
+  }
+
+  const key = JSON.stringify([
+    width,
+    height,
+    config.radius,
+    config.smoothing,
+    config.algorithm,
+    config.exponent,
+    config.preserveSmoothing,
+    config.radiusY,
+    config.precision,
+  ]);
+  const cached = pathCache.get(key);
+
+  if (cached !== undefined) {
+    // Re-insert to mark as most recently used (Map keeps insertion order)
+    pathCache.delete(key);
+    pathCache.set(key, cached);
+    pathCacheStats.hits++;
+    return cached;
+  }
+
+  const path = generate();
+  pathCacheStats.misses++;
+  pathCache.set(key, path);
+  if (pathCache.size > maxSize) {
+    pathCache.delete(pathCache.keys().next().value as string);
+  }
+
+  return path;
+}
+
+/**
+ * Generate the SVG path for an element using its configured shape
+ * Falls back to the squircle (with a warning) when the shape is unknown, throws,
+ * or returns something that is not path data. Squircles come from the LRU path
+ * cache (see configurePathCache())
+ *
+ * @param width - Element width in pixels
+ * @param height - Element height in pixels
+ * @param config - Element configuration (`shape`, radius, smoothing)
+ * @returns SVG path string
+ */
+export function generateShapePath(
+  width: number,
+  height: number,
+  config: ResolvedSquircleConfig
+): string {
+  const { shape } = config;
+  const squircle = (): string => cachedSquirclePath(width, height, config);
+
+  if (!shape || shape === DEFAULT_SHAPE) {
+    return squircle();
+  }
+
+  const generate = typeof shape === 'function' ? shape : shapes.get(shape);
+  if (!generate) {
+    warn(
+      `Unknown shape "${String(shape)}". Register it with CornerKit.registerShape(). Using squircle.`
+    );
+    return squircle();
+  }
+
+  let path: unknown;
+  try {
+    path = generate(width, height, config);
+  } catch (error) {
+    warn(`Shape function threw an error: ${String(error)}. Using squircle.`);
+    return squircle();
+  }
+
+  if (typeof path !== 'string' || !PATH_DATA_PATTERN.test(path)) {
+    warn('Shape function must return SVG path data (commands and numbers only). Using squircle.');
+    return squircle();
+  }
+
+  return compact(path.trim(), config);
 }
 
 /**
@@ -61,8 +352,8 @@ function round(value: number): number {
  *
  * @param width - Element width in pixels
  * @param height - Element height in pixels
- * @param radius - Corner radius in pixels
- * @param smoothing - Smoothing factor 0-1 (default: 0.6 for iOS squircles)
+ * @param radius - Corner radius in pixels, uniform or per corner
+ * @param smoothing - Smoothing factor 0-1, uniform or per corner (default: 0.6 for iOS squircles)
  * @returns CSS clip-path value
  *
  * Example: "path('M 10,0 L 90,0 ...')"
@@ -70,9 +361,161 @@ function round(value: number): number {
 export function generateClipPath(
   width: number,
   height: number,
-  radius: number,
-  smoothing: number = 0.6
+  radius: PerCornerValue<number>,
+  smoothing: PerCornerValue<number> = 0.6
 ): string {
   const path = generateSquirclePath(width, height, radius, smoothing);
   return `path('${path}')`;
 }
+
+/**
+ * Longest polygon edge along a flattened curve, in pixels
+ * (~0.1px deviation from a 20px radius arc)
+ */
+const POLYGON_STEP = 4;
+
+/**
+ * Most polygon points per curve segment
+ */
+const MAX_CURVE_POINTS = 16;
+
+/**
+ * Write a coordinate relative to the nearer edge of the element
+ * Points in the far half become `calc(100% - Npx)`, so they follow that edge
+ * when the element resizes
+ *
+ * @param value - Coordinate in pixels
+ * @param size - Element size along the same axis
+ * @param precision - Decimal places
+ * @returns CSS length
+ */
+function anchor(value: number, size: number, precision: number): string {
+  if (value <= size / 2) {
+    return `${roundTo(value, precision)}px`;
+  }
+
+  const distance = roundTo(size - value, precision);
+  if (distance === 0) {
+    return '100%';
+  }
+
+  return distance > 0 ? `calc(100% - ${distance}px)` : `calc(100% + ${-distance}px)`;
+}
+
+/**
+ * Point on a cubic Bézier curve
+ *
+ * @param from - Start point
+ * @param control1 - First control point
+ * @param control2 - Second control point
+ * @param to - End point
+ * @param t - Curve parameter 0-1
+ */
+function cubicPoint(
+  from: PathPoint,
+  control1: PathPoint,
+  control2: PathPoint,
+  to: PathPoint,
+  t: number
+): PathPoint {
+  const u = 1 - t;
+  const a = u * u * u;
+  const b = 3 * u * u * t;
+  const c = 3 * u * t * t;
+  const d = t * t * t;
+
+  return {
+    x: a * from.x + b * control1.x + c * control2.x + d * to.x,
+    y: a * from.y + b * control1.y + c * control2.y + d * to.y,
+  };
+}
+
+/**
+ * Generate a responsive CSS clip-path value from SVG path data
+ * Coordinates are anchored to the nearer edge (`calc(100% - Npx)`), so the corners
+ * keep their size in pixels while the edges stretch with the element: the clip-path
+ * stays correct on resize without re-rendering. Corners that would no longer fit
+ * (the element shrank below the size it was rendered at) overlap.
+ *
+ * @param width - Element width in pixels (the size the path was generated for)
+ * @param height - Element height in pixels
+ * @param path - SVG path data, e.g. from generateShapePath()
+ * @param format - 'shape' for CSS shape() with exact curves, 'polygon' to flatten
+ *   the curves into polygon() points (default; works wherever clip-path does)
+ * @param precision - Decimal places of the lengths (default: 2)
+ * @returns CSS clip-path value
+ *
+ * Example: "polygon(10px 0px, calc(100% - 10px) 0px, ...)"
+ */
+export function generateResponsiveClipPath(
+  width: number,
+  height: number,
+  path: string,
+  format: ClipPathFormat = 'polygon',
+  precision: number = DEFAULT_PRECISION
+): string {
+  const commands = toAbsoluteCommands(path);
+  const point = (p: PathPoint): string =>
+    `${anchor(p.x, width, precision)} ${anchor(p.y, height, precision)}`;
+
+  if (format === 'shape') {
+    const segments = commands.map((command, index) => {
+      switch (command.type) {
+        case 'M':
+          return `${index === 0 ? 'from' : 'move to'} ${point(command.to)}`;
+        case 'L':
+          return `line to ${point(command.to)}`;
+        case 'C':
+          return `curve to ${point(command.to)} with ${point(command.control1)} / ${point(command.control2)}`;
+        default:
+          return 'close';
+      }
+    });
+
+    // shape() must start with a `from` point, like path data with an M
+    if (commands[0]?.type !== 'M') {
+      segments.unshift('from 0px 0px');
+    }
+
+    return `shape(${segments.join(', ')})`;
+  }
+
+  // polygon() has a single outline: curves are sampled, subpaths are joined
+  const points: string[] = [];
+  let current: PathPoint = { x: 0, y: 0 };
+  let subpathStart = current;
+  const add = (p: PathPoint): void => {
+    const value = point(p);
+    if (points[points.length - 1] !== value) {
+      points.push(value);
+    }
+  };
+
+  commands.forEach((command) => {
+    if (command.type === 'Z') {
+      current = subpathStart;
+      return;
+    }
+
+    if (command.type === 'C') {
+      const { control1, control2, to } = command;
+      const length =
+        Math.hypot(control1.x - current.x, control1.y - current.y) +
+        Math.hypot(control2.x - control1.x, control2.y - control1.y) +
+        Math.hypot(to.x - control2.x, to.y - control2.y);
+      const count = Math.min(MAX_CURVE_POINTS, Math.max(1, Math.ceil(length / POLYGON_STEP)));
+
+      for (let i = 1; i < count; i++) {
+        add(cubicPoint(current, control1, control2, to, i / count));
+      }
+    }
+
+    add(command.to);
+    current = command.to;
+    if (command.type === 'M') {
+      subpathStart = command.to;
+    }
+  });
+
+  return `polygon(${points.join(', ')})`;
+}
@@ -0,0 +1,163 @@
+/**
+ * Path Optimizer
+ * Rewrites SVG path data as the shortest equivalent string for a given precision:
+ * each command is written absolute or relative (and lines as H/V) depending on
+ * which is shorter, repeated command letters are dropped, leading zeros are
+ * removed and separators only appear where numbers would otherwise merge
+ *
+ * Relative values are computed from rounded absolute positions, so rounding
+ * errors do not accumulate along the path
+ */
+
+import { parsePathData, type PathPoint, type PathSegment } from './path-data';
+import { DEFAULT_PRECISION, roundTo } from './precision';
+
+/**
+ * Format a number as briefly as possible ('0.5' → '.5', '-0.5' → '-.5')
+ *
+ * @param value - Number to format
+ * @param precision - Decimal places
+ */
+function formatNumber(value: number, precision: number): string {
+  // String() drops trailing zeros; adding 0 turns -0 into 0
+  return String(roundTo(value, precision) + 0).replace(/^(-?)0\./, '$1.');
+}
+
+/**
+ * Join numbers with the fewest separators
+ * A separator is only needed where the next number could be read as part of the
+ * previous one: no space before '-', or before '.' after a number with a decimal point
+ *
+ * @param numbers - Formatted numbers
+ * @param previous - Number written just before (empty after a command letter)
+ */
+function joinNumbers(numbers: string[], previous: string): string {
+  let result = '';
+  let last = previous;
+
+  numbers.forEach((number) => {
+    const merges = number.startsWith('-') || (number.startsWith('.') && last.includes('.'));
+    result += last === '' || merges ? number : ` ${number}`;
+    last = number;
+  });
+
+  return result;
+}
+
+/**
+ * One way of writing a segment
+ */
+interface Candidate {
+  letter: string;
+  numbers: string[];
+}
+
+/**
+ * Optimize SVG path data for size
+ * The result draws the same outline (up to `precision`), using relative commands,
+ * H/V lines, implicit repeated commands, no leading zeros and minimal separators.
+ * Arc flags keep their separators for parsers that do not split packed flags.
+ *
+ * @param path - SVG path data
+ * @param precision - Decimal places of the coordinates (default: 2)
+ * @returns Optimized path data
+ *
+ * @example
+ * ```typescript
+ * optimizePath('M 10,0 L 90,0 L 90,0.5 C 95,0.5 100,5 100,10 Z');
+ * // 'M10 0H90V.5c5 0 10 4.5 10 9.5Z'
+ * ```
+ */
+export function optimizePath(path: string, precision: number = DEFAULT_PRECISION): string {
+  const round = (value: number): number => roundTo(value, precision);
+  const format = (value: number): string => formatNumber(value, precision);
+
+  let output = '';
+  let lastLetter = '';
+  let lastNumber = '';
+  let current: PathPoint = { x: 0, y: 0 };
+  let subpathStart: PathPoint = { x: 0, y: 0 };
+
+  parsePathData(path).forEach(({ type, values }: PathSegment) => {
+    if (type === 'Z') {
+      output += 'Z';
+      lastLetter = 'Z';
+      lastNumber = '';
+      current = subpathStart;
+      return;
+    }
+
+    // Absolute values rounded first: relative values are exact differences of them
+    const absolute = values.map((value, index) =>
+      type === 'A' && (index === 3 || index === 4) ? value : round(value)
+    );
+    const relative = absolute.map((value, index) => {
+      if (type === 'A' && index < 5) {
+        return value;
+      }
+      const position = type === 'A' ? index - 5 : index;
+      const isY = type === 'V' || (type !== 'H' && position % 2 === 1);
+      return round(value - (isY ? current.y : current.x));
+    });
+
+    const candidates: Candidate[] = [
+      { letter: type, numbers: absolute.map(format) },
+      { letter: type.toLowerCase(), numbers: relative.map(format) },
+    ];
+
+    // Horizontal and vertical lines
+    if (type === 'L') {
+      const [x = 0, y = 0] = absolute;
+      const [dx = 0, dy = 0] = relative;
+      if (y === current.y) {
+        candidates.push(
+          { letter: 'H', numbers: [format(x)] },
+          { letter: 'h', numbers: [format(dx)] }
+        );
+      }
+      if (x === current.x) {
+        candidates.push(
+          { letter: 'V', numbers: [format(y)] },
+          { letter: 'v', numbers: [format(dy)] }
+        );
+      }
+    }
+
+    // Pick the shortest written form, counting the letter only when it cannot be omitted
+    const written = candidates.map((candidate) => {
+      const repeats =
+        candidate.letter === lastLetter ||
+        (lastLetter === 'M' && candidate.letter === 'L') ||
+        (lastLetter === 'm' && candidate.letter === 'l');
+      const text =
+        repeats && type !== 'M'
+          ? joinNumbers(candidate.numbers, lastNumber)
+          : candidate.letter + joinNumbers(candidate.numbers, '');
+      return { candidate, text };
+    });
+    const best = written.reduce((shortest, option) =>
+      option.text.length < shortest.text.length ? option : shortest
+    );
+
+    output += best.text;
+    lastLetter = best.candidate.letter;
+    lastNumber = best.candidate.numbers[best.candidate.numbers.length - 1] ?? '';
+
+    if (type === 'H') {
+      current = { x: absolute[0] as number, y: current.y };
+    } else if (type === 'V') {
+      current = { x: current.x, y: absolute[0] as number };
+    } else {
+      current = {
+        x: absolute[absolute.length - 2] as number,
+        y: absolute[absolute.length - 1] as number,
+      };
+    }
+
+    if (type === 'M') {
+      subpathStart = current;
+    }
+  });
+
+  return output;
+}
@@ -0,0 +1,27 @@
+/**
+ * Path Precision
+ * FR-033: Coordinates are rounded to minimize path string length
+ * 2 decimal places (~0.01px) by default; `precision` in the config selects 0-4
+ */
+
+/**
+ * Decimal places in generated paths unless `precision` is configured
+ */
+export const DEFAULT_PRECISION = 2;
+
+/**
+ * Most decimal places accepted for `precision`
+ */
+export const MAX_PRECISION = 4;
+
+/**
+ * Round a coordinate to a number of decimal places
+ *
+ * @param value - Coordinate value
+ * @param precision - Decimal places (default: 2)
+ * @returns Rounded value
+ */
+export function roundTo(value: number, precision: number = DEFAULT_PRECISION): number {
+  const factor = 10 ** precision;
+  return Math.round(value * factor) / factor;
+}
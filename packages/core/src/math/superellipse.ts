@@ -4,6 +4,10 @@
  * Based on the superellipse formula with parametric equations
  */
 
+import type { Corner, PerCornerValue } from '../core/types';
+import { resolveCorners, scaleEllipticalRadii } from './corners';
+import { DEFAULT_PRECISION, roundTo } from './precision';
+
 export interface SuperellipsePoint {
   x: number;
   y: number;
@@ -115,3 +119,285 @@ export function generateSquircleCorners(
     bottomLeft: generateCornerPoints(width, height, radius, exponent, 3),
   };
 }
+
+/**
+ * Convert Figma smoothing (0-1) to the CSS `corner-shape: superellipse(K)` parameter
+ * The CSS curve is |x|^n + |y|^n = 1 with n = 2^K (K=1 is round, K=2 is the `squircle` keyword)
+ *
+ * Matching strategy: the Figma corner extends p = (1 + smoothing) × radius along each edge,
+ * so the CSS border-radius is set to p and K is chosen so both curves cross the corner
+ * diagonal at the same point: r × (1 - 1/√2) from the corner for the Figma path,
+ * p × (1 - 2^(-1/n)) for the superellipse.
+ *
+ * @param smoothing - Value between 0 and 1 (0 = circle)
+ * @returns Superellipse parameter K (1 = circle, ~2.13 at smoothing=1)
+ *
+ * Examples:
+ * - smoothing = 0.0 → K = 1.00 (round, same as plain border-radius)
+ * - smoothing = 0.6 → K ≈ 1.78
+ * - smoothing = 1.0 → K ≈ 2.13
+ */
+export function smoothingToSuperellipse(smoothing: number): number {
+  const s = Math.max(0, Math.min(1, smoothing));
+
+  // Diagonal inset of the Figma corner relative to its extent p
+  const inset = (1 - Math.SQRT1_2) / (1 + s);
+
+  // Solve p × (1 - 2^(-1/n)) = inset × p for n, then K = log2(n)
+  const n = -1 / Math.log2(1 - inset);
+  return Math.log2(n);
+}
+
+/**
+ * Circular border-radius that best approximates a Figma squircle corner
+ * Used by the fallback tier, where only plain border-radius is available
+ *
+ * A circle of radius p = (1 + smoothing) × radius starts where the Figma corner does,
+ * but cuts far deeper into the corner: the Figma curve never strays more than ~3%
+ * from the plain circle of radius r. The best circle is therefore only slightly larger
+ * than r, sized so it removes the same area from the corner as the squircle does.
+ * The factor is a fit of the numerically integrated corner area (within 0.3%).
+ *
+ * @param radius - Corner radius in pixels
+ * @param smoothing - Value between 0 and 1
+ * @returns Equivalent circular radius in pixels
+ *
+ * Examples (radius = 100):
+ * - smoothing = 0.0 → 100
+ * - smoothing = 0.6 → ~101.9
+ * - smoothing = 1.0 → 109
+ */
+export function smoothingToCircularRadius(radius: number, smoothing: number): number {
+  const s = Math.max(0, Math.min(1, smoothing));
+  return radius * (1 + 0.09 * s * s * s);
+}
+
+/**
+ * Cubic Bézier segment: start point, two control points, end point
+ */
+export type CubicSegment = [
+  SuperellipsePoint,
+  SuperellipsePoint,
+  SuperellipsePoint,
+  SuperellipsePoint,
+];
+
+/**
+ * Bézier segments per corner for the superellipse algorithm
+ * Four segments keep the error below 0.15% of the radius for n ≤ 5 (0.4% at n = 20)
+ */
+const SEGMENTS_PER_CORNER = 4;
+
+/**
+ * Maximum fitted quadrants kept in quadrantCache
+ * Animated or continuous exponents would otherwise grow the cache without bound
+ */
+const QUADRANT_CACHE_SIZE = 64;
+
+/**
+ * Fitted quadrants by exponent (unit size, reused for every element), least recently used first
+ */
+const quadrantCache = new Map<number, CubicSegment[]>();
+
+/**
+ * Point on the unit superellipse |x|^n + |y|^n = 1 in the first quadrant
+ *
+ * @param exponent - Superellipse exponent (n)
+ * @param theta - Parameter angle in radians, 0 to π/2
+ */
+function superellipsePoint(exponent: number, theta: number): SuperellipsePoint {
+  return {
+    x: Math.pow(Math.cos(theta), 2 / exponent),
+    y: Math.pow(Math.sin(theta), 2 / exponent),
+  };
+}
+
+/**
+ * Unit tangent of the superellipse at a parameter angle (direction of increasing theta)
+ * At theta = 0 the derivative is infinite for n > 2; the limit direction is straight up
+ *
+ * @param exponent - Superellipse exponent (n)
+ * @param theta - Parameter angle in radians, 0 to π/4
+ */
+function superellipseTangent(exponent: number, theta: number): SuperellipsePoint {
+  const cos = Math.cos(theta);
+  const sin = Math.sin(theta);
+
+  if (sin === 0) {
+    return { x: 0, y: 1 };
+  }
+
+  const x = -Math.pow(cos, 2 / exponent - 1) * sin;
+  const y = Math.pow(sin, 2 / exponent - 1) * cos;
+  const length = Math.hypot(x, y);
+
+  return { x: x / length, y: y / length };
+}
+
+/**
+ * Fit one cubic Bézier between two parameter angles
+ * End points and tangents come from the curve; the two handle lengths are solved so the
+ * Bézier midpoint (t = 0.5) lands on the curve point at the middle angle
+ *
+ * @param exponent - Superellipse exponent (n)
+ * @param from - Start angle in radians
+ * @param to - End angle in radians
+ */
+function fitSegment(exponent: number, from: number, to: number): CubicSegment {
+  const start = superellipsePoint(exponent, from);
+  const end = superellipsePoint(exponent, to);
+  const startTangent = superellipseTangent(exponent, from);
+  const endTangent = superellipseTangent(exponent, to);
+  const middle = superellipsePoint(exponent, (from + to) / 2);
+
+  // B(0.5) = (start + end) / 2 + 3/8 × (a × startTangent - b × endTangent) = middle
+  const rx = (8 * middle.x - 4 * start.x - 4 * end.x) / 3;
+  const ry = (8 * middle.y - 4 * start.y - 4 * end.y) / 3;
+  const det = endTangent.x * startTangent.y - startTangent.x * endTangent.y;
+  const a = (endTangent.x * ry - endTangent.y * rx) / det;
+  const b = (startTangent.x * ry - startTangent.y * rx) / det;
+
+  return [
+    start,
+    { x: start.x + a * startTangent.x, y: start.y + a * startTangent.y },
+    { x: end.x - b * endTangent.x, y: end.y - b * endTangent.y },
+    end,
+  ];
+}
+
+/**
+ * Fit cubic Béziers to one quadrant of the unit superellipse |x|^n + |y|^n = 1
+ * Runs from (1, 0) to (0, 1); the second half mirrors the first across the diagonal
+ * Replaces dense polylines (generateCornerPoints) with a handful of curve commands
+ *
+ * @param exponent - Superellipse exponent (n ≥ 2)
+ * @returns Connected Bézier segments
+ */
+export function fitSuperellipseQuadrant(exponent: number): CubicSegment[] {
+  const cached = quadrantCache.get(exponent);
+  if (cached) {
+    // Re-insert to mark as most recently used (Map keeps insertion order)
+    quadrantCache.delete(exponent);
+    quadrantCache.set(exponent, cached);
+    return cached;
+  }
+
+  const half = SEGMENTS_PER_CORNER / 2;
+  const step = Math.PI / 4 / half;
+  const firstHalf: CubicSegment[] = [];
+  for (let i = 0; i < half; i++) {
+    firstHalf.push(fitSegment(exponent, i * step, (i + 1) * step));
+  }
+
+  // Mirror (swap x/y) and reverse to continue from the diagonal to (0, 1)
+  const mirror = (point: SuperellipsePoint): SuperellipsePoint => ({ x: point.y, y: point.x });
+  const secondHalf = firstHalf
+    .map(
+      ([start, control1, control2, end]): CubicSegment => [
+        mirror(end),
+        mirror(control2),
+        mirror(control1),
+        mirror(start),
+      ]
+    )
+    .reverse();
+
+  const segments = [...firstHalf, ...secondHalf];
+  quadrantCache.set(exponent, segments);
+  if (quadrantCache.size > QUADRANT_CACHE_SIZE) {
+    quadrantCache.delete(quadrantCache.keys().next().value as number);
+  }
+  return segments;
+}
+
+/**
+ * Placement of the unit quadrant for each corner of a clockwise path
+ * sx/sy: axis directions from the corner center, reversed: traverse the quadrant
+ * from (0, 1) to (1, 0)
+ */
+const CORNER_PLACEMENT: Record<Corner, { sx: number; sy: number; reversed: boolean }> = {
+  topRight: { sx: 1, sy: -1, reversed: true },
+  bottomRight: { sx: 1, sy: 1, reversed: false },
+  bottomLeft: { sx: -1, sy: 1, reversed: true },
+  topLeft: { sx: -1, sy: -1, reversed: false },
+};
+
+/**
+ * Generate a squircle path whose corners are true superellipse (Lamé curve) quarters
+ * Each corner spans `radius` along both edges, like border-radius, and is drawn with
+ * a few fitted cubic Béziers (see fitSuperellipseQuadrant())
+ *
+ * @param width - Element width in pixels
+ * @param height - Element height in pixels
+ * @param radius - Corner radius in pixels, uniform or per corner (scaled down like CSS when overlapping)
+ * @param exponent - Superellipse exponent n ≥ 2, uniform or per corner (2 = circle)
+ * @param radiusY - Vertical radius for elliptical corners, uniform or per corner
+ *   (default: same as radius)
+ * @param precision - Decimal places of the coordinates (default: 2)
+ * @returns SVG path string
+ */
+export function generateSuperellipsePath(
+  width: number,
+  height: number,
+  radius: PerCornerValue<number>,
+  exponent: PerCornerValue<number>,
+  radiusY?: PerCornerValue<number>,
+  precision: number = DEFAULT_PRECISION
+): string {
+  const round = (value: number): number => roundTo(value, precision);
+  const radiiX = resolveCorners(radius, 0);
+  const { x: radii, y: radiiY } = scaleEllipticalRadii(
+    radiiX,
+    resolveCorners(radiusY ?? radiiX, radiiX),
+    width,
+    height
+  );
+  const exponents = resolveCorners(exponent, 2);
+
+  const centers: Record<Corner, SuperellipsePoint> = {
+    topRight: { x: width - radii.topRight, y: radiiY.topRight },
+    bottomRight: { x: width - radii.bottomRight, y: height - radiiY.bottomRight },
+    bottomLeft: { x: radii.bottomLeft, y: height - radiiY.bottomLeft },
+    topLeft: { x: radii.topLeft, y: radiiY.topLeft },
+  };
+
+  const drawCorner = (corner: Corner): string => {
+    const r = radii[corner];
+    const ry = radiiY[corner];
+    if (r <= 0) {
+      return '';
+    }
+
+    const { sx, sy, reversed } = CORNER_PLACEMENT[corner];
+    const center = centers[corner];
+    const place = (point: SuperellipsePoint): string =>
+      `${round(center.x + sx * r * point.x)} ${round(center.y + sy * ry * point.y)}`;
+
+    let segments = fitSuperellipseQuadrant(Math.max(2, exponents[corner]));
+    if (reversed) {
+      segments = segments
+        .map(([start, control1, control2, end]): CubicSegment => [end, control2, control1, start])
+        .reverse();
+    }
+
+    return segments
+      .map(([, control1, control2, end]) => `C ${place(control1)} ${place(control2)} ${place(end)}`)
+      .join(' ');
+  };
+
+  // Clockwise from the top edge: each corner is preceded by the straight edge leading to it
+  return [
+    `M ${round(radii.topLeft)} 0`,
+    `L ${round(width - radii.topRight)} 0`,
+    drawCorner('topRight'),
+    `L ${round(width)} ${round(height - radiiY.bottomRight)}`,
+    drawCorner('bottomRight'),
+    `L ${round(radii.bottomLeft)} ${round(height)}`,
+    drawCorner('bottomLeft'),
+    `L 0 ${round(radiiY.topLeft)}`,
+    drawCorner('topLeft'),
+    'Z',
+  ]
+    .filter((command) => command !== '')
+    .join(' ');
+}
@@ -0,0 +1,112 @@
+/**
+ * Background Renderer
+ * Paints the squircle as a generated SVG background-image instead of clipping the element
+ * Children, shadows and outlines stay unclipped. Shares resize handling with ClipPathRenderer.
+ */
+
+import { ClipPathRenderer } from './clippath';
+import type { ResolvedSquircleConfig } from '../core/types';
+import { BackgroundLayer } from '../utils/background-layer';
+import { createFillSvg, toCssUrl } from '../utils/svg';
+import { getWindow } from '../utils/realm';
+
+/**
+ * Element background-color before the squircle took it over
+ */
+interface OriginalBackground {
+  /**
+   * Inline background-color to restore on removal ('' when not set inline)
+   */
+  inline: string;
+
+  /**
+   * Computed background-color, used as the default fill
+   */
+  computed: string;
+}
+
+/**
+ * Background Renderer Class
+ * The element's background-color moves into the squircle fill; its own background
+ * images keep painting on top of the squircle
+ */
+export class BackgroundRenderer extends ClipPathRenderer {
+  /**
+   * Squircle layer, painted directly above background-color
+   */
+  private fillLayer = new BackgroundLayer('bottom');
+
+  /**
+   * Background colors captured on first render
+   */
+  private originals = new WeakMap<HTMLElement, OriginalBackground>();
+
+  /**
+   * Paint fill (and stroke) as a single SVG background layer
+   * No clip-path is set
+   *
+   * @param element - Target HTMLElement
+   * @param config - Squircle configuration
+   * @param path - SVG path data sized to the element
+   * @param width - Element width in pixels
+   * @param height - Element height in pixels
+   */
+  protected override render(
+    element: HTMLElement,
+    config: ResolvedSquircleConfig,
+    path: string,
+    width: number,
+    height: number
+  ): void {
+    let original = this.originals.get(element);
+    if (!original) {
+      const computed = getWindow(element).getComputedStyle(element);
+      original = {
+        inline: element.style.backgroundColor,
+        computed: computed.backgroundColor || 'transparent',
+      };
+      this.originals.set(element, original);
+
+      // The rectangular background-color would show around the squircle corners
+      element.style.backgroundColor = 'transparent';
+    }
+
+    // Stroke is drawn into the same image: a second managed layer would conflict
+    const strokeColor = config.stroke?.color
+      ? ''
+      : getWindow(element).getComputedStyle(element).color || '#000';
+    const svg = createFillSvg(
+      path,
+      width,
+      height,
+      config.fill ?? original.computed,
+      config.stroke,
+      strokeColor
+    );
+
+    this.fillLayer.set(element, toCssUrl(svg));
+  }
+
+  /**
+   * The background image is drawn at the element's size, so it is re-rendered on every
+   * resize (`responsive` only applies to clip-paths)
+   */
+  protected override needsResizeObserver(): boolean {
+    return true;
+  }
+
+  /**
+   * Remove the squircle layer and restore the original background-color
+   *
+   * @param element - Target HTMLElement
+   */
+  protected override clearPath(element: HTMLElement): void {
+    this.fillLayer.remove(element);
+
+    const original = this.originals.get(element);
+    if (original) {
+      element.style.backgroundColor = original.inline;
+      this.originals.delete(element);
+    }
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Built-in Renderers
+ * Adapts the tier renderer classes to the common Renderer interface,
+ * so CornerKit dispatches built-in and registered renderers the same way
+ */
+
+import { CapabilityDetector, RendererTier } from '../core/detector';
+import type { Renderer } from '../core/types';
+import { BackgroundRenderer } from './background';
+import { ClipPathRenderer } from './clippath';
+import { FallbackRenderer } from './fallback';
+import { HoudiniRenderer } from './houdini';
+import { MaskRenderer } from './mask';
+import { NativeRenderer } from './native';
+
+/**
+ * Built-in renderer key: a tier, or 'background' for `mode: 'background'` (any tier)
+ */
+export type BuiltinRendererKey = RendererTier | 'background';
+
+/**
+ * Wrap a path renderer (clip-path, mask, background): these regenerate the path
+ * on resize and return their ResizeObserver (none for responsive clip-paths)
+ *
+ * @param renderer - ClipPathRenderer or subclass
+ * @param supports - Feature check for this renderer
+ */
+function createPathRenderer(renderer: ClipPathRenderer, supports: () => boolean): Renderer {
+  return {
+    supports,
+    apply: (element, config, context) =>
+      renderer.apply(
+        element,
+        config,
+        context.options,
+        (_element, width, height) => context.onDimensionUpdate(width, height),
+        context.getConfig
+      ),
+    update: (element, config) => renderer.update(element, config),
+    remove: (element, originalStyles) => renderer.remove(element, originalStyles?.transition),
+  };
+}
+
+/**
+ * Create the Renderer for a built-in tier
+ * Tiers whose shape the browser resizes itself (native, houdini, fallback) return no observer
+ *
+ * @param key - Built-in tier or 'background'
+ * @returns Renderer wrapping a new renderer instance
+ */
+export function createBuiltinRenderer(key: BuiltinRendererKey): Renderer {
+  const supported = (tier: RendererTier) => (): boolean => CapabilityDetector.supports()[tier];
+
+  switch (key) {
+    case 'background':
+      // Background images work everywhere (the stroke/fill SVG is a plain data URI)
+      return createPathRenderer(new BackgroundRenderer(), () => true);
+
+    case RendererTier.CLIPPATH:
+      return createPathRenderer(new ClipPathRenderer(), supported(RendererTier.CLIPPATH));
+
+    case RendererTier.MASK:
+      return createPathRenderer(new MaskRenderer(), supported(RendererTier.MASK));
+
+    case RendererTier.NATIVE: {
+      const renderer = new NativeRenderer();
+      return {
+        supports: supported(RendererTier.NATIVE),
+        apply: (element, config) => renderer.apply(element, config),
+        update: (element, config) => renderer.update(element, config),
+        remove: (element, originalStyles) =>
+          renderer.remove(element, originalStyles?.transition, originalStyles?.borderRadius),
+      };
+    }
+
+    case RendererTier.HOUDINI: {
+      const renderer = new HoudiniRenderer();
+      return {
+        supports: supported(RendererTier.HOUDINI),
+        apply: (element, config) => renderer.apply(element, config),
+        update: (element, config) => renderer.update(element, config),
+        remove: (element, originalStyles) => renderer.remove(element, originalStyles?.transition),
+      };
+    }
+
+    case RendererTier.FALLBACK: {
+      const renderer = new FallbackRenderer();
+      return {
+        supports: () => true,
+        apply: (element, config) => renderer.apply(element, config),
+        update: (element, config) => renderer.update(element, config),
+        remove: (element, originalStyles): void => {
+          renderer.remove(element, originalStyles?.borderRadius);
+          // Fallback does not touch transition, but restore it like the other tiers
+          if (originalStyles?.transition !== undefined) {
+            element.style.transition = originalStyles.transition;
+          }
+        },
+      };
+    }
+  }
+}
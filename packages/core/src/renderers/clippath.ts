@@ -4,10 +4,14 @@
  * Primary implementation for modern browsers (Firefox, Safari, Chrome, Edge)
  */
 
-import { generateSquirclePath } from '../math/path-generator';
-import type { SquircleConfig, RenderOptions } from '../core/types';
+import { generateResponsiveClipPath, generateShapePath } from '../math/path-generator';
+import type { ResolvedSquircleConfig, RenderOptions } from '../core/types';
+import { CapabilityDetector } from '../core/detector';
 import { warn, warnZeroDimensions, warnDetachedElement } from '../utils/logger';
 import { hasZeroDimensions, isDetached } from '../utils/validator';
+import { BackgroundLayer } from '../utils/background-layer';
+import { getWindow } from '../utils/realm';
+import { createStrokeSvg, toCssUrl } from '../utils/svg';
 
 /**
  * Callback function signature for dimension updates
@@ -36,6 +40,11 @@ export interface ResizeObserverWithCleanup extends ResizeObserver {
  * FR-018 to FR-022: SVG clip-path implementation with ResizeObserver
  */
 export class ClipPathRenderer {
+  /**
+   * Background layer used to draw `stroke` along the squircle outline
+   */
+  private strokeLayer = new BackgroundLayer();
+
   /**
    * FR-018: Apply squircle clip-path to an element
    * Generates SVG path and sets element.style.clipPath
@@ -45,15 +54,16 @@ export class ClipPathRenderer {
    * @param options - Render options (reduced motion, etc.)
    * @param onDimensionUpdate - Callback for dimension changes
    * @param getConfig - Callback to get current config (for dynamic updates)
-   * @returns ResizeObserver instance for this element (to be stored in registry)
+   * @returns ResizeObserver instance for this element (to be stored in registry),
+   *   or undefined for responsive clip-paths that follow the element by themselves
    */
   apply(
     element: HTMLElement,
-    config: SquircleConfig,
+    config: ResolvedSquircleConfig,
     options?: RenderOptions,
     onDimensionUpdate?: DimensionUpdateCallback,
-    getConfig?: () => SquircleConfig
-  ): ResizeObserverWithCleanup {
+    getConfig?: () => ResolvedSquircleConfig
+  ): ResizeObserverWithCleanup | undefined {
     // Check for zero dimensions (development warning)
     if (hasZeroDimensions(element)) {
       warnZeroDimensions(element);
@@ -73,6 +83,10 @@ export class ClipPathRenderer {
     // Generate and apply initial clip-path
     this.updateClipPath(element, config);
 
+    if (!this.needsResizeObserver(element, config)) {
+      return undefined;
+    }
+
     // FR-019: Create ResizeObserver to detect dimension changes
     const observer = this.createResizeObserver(element, onDimensionUpdate, getConfig);
     observer.observe(element);
@@ -80,6 +94,23 @@ export class ClipPathRenderer {
     return observer;
   }
 
+  /**
+   * Check whether the element has to be re-rendered on resize
+   * Responsive clip-paths stretch with the element; the stroke image does not, and
+   * elements without a size yet have not been rendered
+   *
+   * @param element - Target HTMLElement
+   * @param config - Squircle configuration
+   */
+  protected needsResizeObserver(element: HTMLElement, config: ResolvedSquircleConfig): boolean {
+    return (
+      !config.responsive ||
+      Boolean(config.stroke) ||
+      element.offsetWidth < 1 ||
+      element.offsetHeight < 1
+    );
+  }
+
   /**
    * Update squircle configuration and re-render
    * Regenerates path with new config
@@ -87,7 +118,7 @@ export class ClipPathRenderer {
    * @param element - Target HTMLElement
    * @param config - New squircle configuration
    */
-  update(element: HTMLElement, config: SquircleConfig): void {
+  update(element: HTMLElement, config: ResolvedSquircleConfig): void {
     this.updateClipPath(element, config);
   }
 
@@ -99,7 +130,10 @@ export class ClipPathRenderer {
    * @param originalTransition - Original transition value to restore (if any)
    */
   remove(element: HTMLElement, originalTransition?: string): void {
-    element.style.clipPath = '';
+    this.clearPath(element);
+
+    // Remove stroke layer and restore original backgrounds
+    this.strokeLayer.remove(element);
 
     // Restore original transition if provided
     if (originalTransition !== undefined) {
@@ -114,9 +148,7 @@ export class ClipPathRenderer {
    * @param element - Target HTMLElement
    * @param config - Squircle configuration
    */
-  private updateClipPath(element: HTMLElement, config: SquircleConfig): void {
-    const { radius, smoothing } = config;
-
+  private updateClipPath(element: HTMLElement, config: ResolvedSquircleConfig): void {
     // Get current element dimensions
     const width = element.offsetWidth;
     const height = element.offsetHeight;
@@ -126,11 +158,84 @@ export class ClipPathRenderer {
       return;
     }
 
-    // Generate SVG path string
-    const path = generateSquirclePath(width, height, radius, smoothing);
+    // Generate SVG path string (squircle or the configured custom shape)
+    const path = generateShapePath(width, height, config);
+
+    this.render(element, config, path, width, height);
+  }
+
+  /**
+   * Shape the element with the generated path and draw the stroke
+   * Overridden by renderers that share this resize handling but apply the path
+   * differently (MaskRenderer, BackgroundRenderer)
+   *
+   * @param element - Target HTMLElement
+   * @param config - Squircle configuration
+   * @param path - SVG path data sized to the element
+   * @param width - Element width in pixels
+   * @param height - Element height in pixels
+   */
+  protected render(
+    element: HTMLElement,
+    config: ResolvedSquircleConfig,
+    path: string,
+    width: number,
+    height: number
+  ): void {
+    element.style.clipPath = config.responsive
+      ? generateResponsiveClipPath(
+          width,
+          height,
+          path,
+          CapabilityDetector.getInstance().clipPathFormat(),
+          config.precision ?? undefined
+        )
+      : `path('${path}')`;
+
+    // Draw (or clear) the stroke with the same path
+    this.updateStroke(element, config, path, width, height);
+  }
+
+  /**
+   * Remove the shape set by render()
+   *
+   * @param element - Target HTMLElement
+   */
+  protected clearPath(element: HTMLElement): void {
+    element.style.clipPath = '';
+  }
+
+  /**
+   * Draw the configured stroke as an SVG background layer that follows the path
+   * A CSS border would be clipped away at the corners by clip-path
+   *
+   * @param element - Target HTMLElement
+   * @param config - Squircle configuration
+   * @param path - SVG path data already generated for the clip-path
+   * @param width - Element width in pixels
+   * @param height - Element height in pixels
+   */
+  protected updateStroke(
+    element: HTMLElement,
+    config: ResolvedSquircleConfig,
+    path: string,
+    width: number,
+    height: number
+  ): void {
+    const { stroke } = config;
+
+    if (!stroke || stroke.width <= 0) {
+      this.strokeLayer.remove(element);
+      return;
+    }
+
+    // Default to the element's text color, like CSS border-color: currentColor
+    const fallbackColor = stroke.color
+      ? ''
+      : getWindow(element).getComputedStyle(element).color || '#000';
+    const svg = createStrokeSvg(path, width, height, stroke, fallbackColor);
 
-    // Apply clip-path CSS property
-    element.style.clipPath = `path('${path}')`;
+    this.strokeLayer.set(element, toCssUrl(svg));
   }
 
   /**
@@ -163,20 +268,23 @@ export class ClipPathRenderer {
   private createResizeObserver(
     element: HTMLElement,
     onDimensionUpdate?: DimensionUpdateCallback,
-    getConfig?: () => SquircleConfig
+    getConfig?: () => ResolvedSquircleConfig
   ): ResizeObserverWithCleanup {
     // Store last dimensions to implement 1px threshold (FR-022)
     let lastWidth = element.offsetWidth;
     let lastHeight = element.offsetHeight;
     let rafId: number | null = null;
 
-    const observer = new ResizeObserver((entries) => {
+    // Observe and schedule in the element's own window (iframes, popups)
+    const view = getWindow(element);
+
+    const observer = new view.ResizeObserver((entries) => {
       // FR-020: Debounce with requestAnimationFrame (max 60fps updates)
       if (rafId !== null) {
-        cancelAnimationFrame(rafId);
+        view.cancelAnimationFrame(rafId);
       }
 
-      rafId = requestAnimationFrame(() => {
+      rafId = view.requestAnimationFrame(() => {
         for (const entry of entries) {
           // FR-021: Error handling for detached elements
           try {
@@ -226,7 +334,7 @@ export class ClipPathRenderer {
     const wrappedObserver = observer as ResizeObserverWithCleanup;
     wrappedObserver.cleanup = () => {
       if (rafId !== null) {
-        cancelAnimationFrame(rafId);
+        view.cancelAnimationFrame(rafId);
         rafId = null;
       }
     };
@@ -4,13 +4,17 @@
  * Graceful degradation for browsers without clip-path support (IE11, older browsers)
  */
 
-import type { SquircleConfig } from '../core/types';
+import type { ResolvedSquircleConfig } from '../core/types';
+import { formatCornerList, mapCorners, resolveCorners } from '../math/corners';
+import { smoothingToCircularRadius } from '../math/superellipse';
+import { toCssRadii } from '../utils/units';
 
 /**
  * Fallback Renderer Class
  * FR-012: border-radius fallback for universal compatibility
  *
- * Note: This renderer does NOT create true squircles - it uses standard rounded corners.
+ * Note: This renderer does NOT create true squircles - it uses standard rounded corners,
+ * sized per corner to approximate the squircle (see smoothingToCircularRadius()).
  * This is intentional graceful degradation for maximum browser compatibility.
  */
 export class FallbackRenderer {
@@ -19,9 +23,9 @@ export class FallbackRenderer {
    * Sets element.style.borderRadius with the configured radius
    *
    * @param element - Target HTMLElement
-   * @param config - Squircle configuration (only radius is used, smoothing is ignored)
+   * @param config - Squircle configuration
    */
-  apply(element: HTMLElement, config: SquircleConfig): void {
+  apply(element: HTMLElement, config: ResolvedSquircleConfig): void {
     this.updateBorderRadius(element, config);
   }
 
@@ -32,18 +36,19 @@ export class FallbackRenderer {
    * @param element - Target HTMLElement
    * @param config - New squircle configuration
    */
-  update(element: HTMLElement, config: SquircleConfig): void {
+  update(element: HTMLElement, config: ResolvedSquircleConfig): void {
     this.updateBorderRadius(element, config);
   }
 
   /**
    * Remove border-radius from element
-   * Resets element.style.borderRadius to empty string
+   * Restores the original inline border-radius (or clears it)
    *
    * @param element - Target HTMLElement
+   * @param originalBorderRadius - Original inline border-radius to restore (if any)
    */
-  remove(element: HTMLElement): void {
-    element.style.borderRadius = '';
+  remove(element: HTMLElement, originalBorderRadius = ''): void {
+    element.style.borderRadius = originalBorderRadius;
   }
 
   /**
@@ -53,9 +58,18 @@ export class FallbackRenderer {
    * @param element - Target HTMLElement
    * @param config - Squircle configuration
    */
-  private updateBorderRadius(element: HTMLElement, config: SquircleConfig): void {
-    const { radius } = config;
-    // Note: smoothing is ignored in fallback mode (border-radius doesn't support it)
-    element.style.borderRadius = `${radius}px`;
+  private updateBorderRadius(element: HTMLElement, config: ResolvedSquircleConfig): void {
+    // Per-corner radii map onto the four-value border-radius shorthand (TL TR BR BL)
+    // Smoothing enlarges each radius to the circle closest to the squircle corner
+    // Elliptical corners (radiusY) use the `x / y` syntax; rem, em, vw and vh stay CSS lengths
+    const smoothing = resolveCorners(config.smoothing, 0.8);
+    const radii = toCssRadii(
+      config,
+      mapCorners(smoothing, (value) => smoothingToCircularRadius(1, value))
+    );
+
+    element.style.borderRadius = radii.radiusY
+      ? `${formatCornerList(radii.radius)} / ${formatCornerList(radii.radiusY)}`
+      : formatCornerList(radii.radius);
   }
 }
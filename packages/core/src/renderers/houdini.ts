@@ -0,0 +1,312 @@
+/**
+ * Houdini Renderer (Tier 2)
+ * Renders squircles using a CSS Paint Worklet as mask-image
+ * Resizes are handled by the browser's paint pipeline (no ResizeObserver, no JS per frame)
+ */
+
+import type { ResolvedSquircleConfig } from '../core/types';
+import { warn } from '../utils/logger';
+import { getWindow } from '../utils/realm';
+import { formatCornerList, mapCorners, resolveCorners } from '../math/corners';
+import { toCssRadii } from '../utils/units';
+
+/**
+ * Name the worklet is registered under (used as `paint(squircle)`)
+ */
+export const PAINT_WORKLET_NAME = 'squircle';
+
+/**
+ * Registered custom properties read by the paint worklet
+ */
+export const HOUDINI_PROPERTIES = {
+  radius: '--squircle-radius',
+  smoothing: '--squircle-smoothing',
+  preserveSmoothing: '--squircle-preserve-smoothing',
+} as const;
+
+/**
+ * CSS namespace with the (not yet typed) paintWorklet entry point
+ */
+type HoudiniCSS = typeof CSS & { paintWorklet?: Worklet };
+
+/**
+ * Paint worklet source
+ * Runs inside PaintWorkletGlobalScope, so it cannot import from the library.
+ * Mirrors getPathParamsForCorner() in math/figma-squircle.ts (including the
+ * per-corner budget from getCornerBudgets()): each corner is
+ * bezier → arc → bezier, drawn with absolute canvas coordinates.
+ */
+const WORKLET_SOURCE = `
+const rad = (deg) => (deg * Math.PI) / 180;
+
+// Expand a 1-4 value list the way border-radius does (TL, TR, BR, BL)
+function expand(value) {
+  const list = value.toString().trim().split(/\\s+/).map((v) => parseFloat(v) || 0);
+  const [tl, tr = tl, br = tl, bl = tr] = list;
+  return [tl, tr, br, bl];
+}
+
+// Smoothing extends corners past their radius: each side is shared in proportion to the radii
+function share(side, r, other) {
+  return r + other > 0 ? (side * r) / (r + other) : side / 2;
+}
+
+function corner(r, s, budget, preserve) {
+  let p = (1 + s) * r;
+  if (!preserve && p > budget && r > 0) {
+    s = Math.max(0, Math.min(s, budget / r - 1));
+    p = budget;
+  }
+  const arcMeasure = 90 * (1 - s);
+  const arc = Math.sin(rad(arcMeasure / 2)) * r * Math.sqrt(2);
+  const alpha = (90 - arcMeasure) / 2;
+  const p3ToP4 = r * Math.tan(rad(alpha / 2));
+  const beta = 45 * s;
+  const c = p3ToP4 * Math.cos(rad(beta));
+  const d = c * Math.tan(rad(beta));
+  let b = (p - arc - c - d) / 3;
+  let a = 2 * b;
+  if (preserve && p > budget) {
+    const max = budget - d - arc - c;
+    b = Math.min(b, max - max / 6);
+    a = max - b;
+    p = budget;
+  }
+  return { a, b, c, d, p, r, half: arcMeasure / 2 };
+}
+
+registerPaint('${PAINT_WORKLET_NAME}', class {
+  static get inputProperties() {
+    return [
+      '${HOUDINI_PROPERTIES.radius}',
+      '${HOUDINI_PROPERTIES.smoothing}',
+      '${HOUDINI_PROPERTIES.preserveSmoothing}',
+    ];
+  }
+
+  paint(ctx, size, props) {
+    const w = size.width;
+    const h = size.height;
+    const radii = expand(props.get('${HOUDINI_PROPERTIES.radius}')).map((r) => Math.max(0, r));
+    const smoothing = expand(props.get('${HOUDINI_PROPERTIES.smoothing}'));
+    const preserve = parseFloat(props.get('${HOUDINI_PROPERTIES.preserveSmoothing}').toString()) > 0;
+
+    // Scale overlapping radii down proportionally (CSS border-radius rule)
+    const [rtl, rtr, rbr, rbl] = radii;
+    const f = Math.min(1, w / (rtl + rtr || 1), w / (rbl + rbr || 1), h / (rtl + rbl || 1), h / (rtr + rbr || 1));
+    const [stl, str, sbr, sbl] = radii.map((r) => r * f);
+    const budgets = [
+      Math.min(share(w, stl, str), share(h, stl, sbl)),
+      Math.min(share(w, str, stl), share(h, str, sbr)),
+      Math.min(share(w, sbr, sbl), share(h, sbr, str)),
+      Math.min(share(w, sbl, sbr), share(h, sbl, stl)),
+    ];
+    const [tl, tr, br, bl] = [stl, str, sbr, sbl].map((r, i) =>
+      corner(r, Math.max(0, Math.min(1, smoothing[i])), budgets[i], preserve)
+    );
+
+    ctx.fillStyle = '#000';
+    ctx.beginPath();
+
+    // Top-right
+    ctx.moveTo(w - tr.p, 0);
+    if (tr.r > 0) {
+      ctx.bezierCurveTo(w - tr.p + tr.a, 0, w - tr.p + tr.a + tr.b, 0, w - tr.p + tr.a + tr.b + tr.c, tr.d);
+      ctx.arc(w - tr.r, tr.r, tr.r, rad(-45 - tr.half), rad(-45 + tr.half));
+      ctx.bezierCurveTo(w, tr.p - tr.a - tr.b, w, tr.p - tr.a, w, tr.p);
+    }
+
+    // Bottom-right
+    ctx.lineTo(w, h - br.p);
+    if (br.r > 0) {
+      ctx.bezierCurveTo(w, h - br.p + br.a, w, h - br.p + br.a + br.b, w - br.d, h - br.p + br.a + br.b + br.c);
+      ctx.arc(w - br.r, h - br.r, br.r, rad(45 - br.half), rad(45 + br.half));
+      ctx.bezierCurveTo(w - br.p + br.a + br.b, h, w - br.p + br.a, h, w - br.p, h);
+    }
+
+    // Bottom-left
+    ctx.lineTo(bl.p, h);
+    if (bl.r > 0) {
+      ctx.bezierCurveTo(bl.p - bl.a, h, bl.p - bl.a - bl.b, h, bl.p - bl.a - bl.b - bl.c, h - bl.d);
+      ctx.arc(bl.r, h - bl.r, bl.r, rad(135 - bl.half), rad(135 + bl.half));
+      ctx.bezierCurveTo(0, h - bl.p + bl.a + bl.b, 0, h - bl.p + bl.a, 0, h - bl.p);
+    }
+
+    // Top-left
+    ctx.lineTo(0, tl.p);
+    if (tl.r > 0) {
+      ctx.bezierCurveTo(0, tl.p - tl.a, 0, tl.p - tl.a - tl.b, tl.d, tl.p - tl.a - tl.b - tl.c);
+      ctx.arc(tl.r, tl.r, tl.r, rad(225 - tl.half), rad(225 + tl.half));
+      ctx.bezierCurveTo(tl.p - tl.a - tl.b, 0, tl.p - tl.a, 0, tl.p, 0);
+    }
+
+    ctx.closePath();
+    ctx.fill();
+  }
+});
+`;
+
+/**
+ * Shared worklet registration per window (not per renderer instance)
+ * Iframes and popups have their own CSS namespace, so each one registers separately
+ */
+const workletReady = new WeakMap<Window, Promise<void>>();
+
+/**
+ * Register custom properties and load the paint worklet module in a window
+ * Registration is idempotent: subsequent calls for the window return the same promise
+ *
+ * @param view - Window of the elements to paint (default: the current window)
+ * @returns Promise resolving once `paint(squircle)` is available in that window
+ */
+export function registerSquircleWorklet(view: Window & typeof globalThis = window): Promise<void> {
+  const existing = workletReady.get(view);
+  if (existing) {
+    return existing;
+  }
+
+  const ready = loadWorklet(view);
+  workletReady.set(view, ready);
+  return ready;
+}
+
+/**
+ * Register the custom properties and add the worklet module through a window's CSS namespace
+ *
+ * @param view - Window to register in
+ * @returns Promise resolving once the module has loaded
+ */
+function loadWorklet(view: Window & typeof globalThis): Promise<void> {
+  const css = view.CSS as HoudiniCSS;
+
+  // Typed custom properties let the worklet receive numeric values
+  // and allow radius/smoothing to be animated by the browser
+  const properties: PropertyDefinition[] = [
+    { name: HOUDINI_PROPERTIES.radius, syntax: '<length>+', inherits: false, initialValue: '0px' },
+    { name: HOUDINI_PROPERTIES.smoothing, syntax: '<number>+', inherits: false, initialValue: '0' },
+    {
+      name: HOUDINI_PROPERTIES.preserveSmoothing,
+      syntax: '<number>',
+      inherits: false,
+      initialValue: '0',
+    },
+  ];
+
+  properties.forEach((definition) => {
+    try {
+      css.registerProperty?.(definition);
+    } catch {
+      // Already registered (e.g. by another cornerKit copy on the page) - safe to ignore
+    }
+  });
+
+  if (!css.paintWorklet) {
+    return Promise.reject(new Error('CSS.paintWorklet is not available'));
+  }
+
+  const url = view.URL.createObjectURL(
+    new view.Blob([WORKLET_SOURCE], { type: 'text/javascript' })
+  );
+  return css.paintWorklet.addModule(url).finally(() => {
+    view.URL.revokeObjectURL(url);
+  });
+}
+
+/**
+ * Houdini Renderer Class
+ * FR-010: CSS Paint API implementation using mask-image: paint(squircle)
+ */
+export class HoudiniRenderer {
+  /**
+   * Elements currently styled by this renderer
+   * Guards the async worklet load against elements removed in the meantime
+   */
+  private activeElements = new WeakSet<HTMLElement>();
+
+  /**
+   * Apply squircle mask to an element
+   * Sets the worklet's custom properties immediately and the mask-image
+   * once the worklet module has loaded in the element's window (avoids masking
+   * the element away with an unregistered paint() image)
+   *
+   * @param element - Target HTMLElement
+   * @param config - Squircle configuration
+   */
+  apply(element: HTMLElement, config: ResolvedSquircleConfig): void {
+    this.activeElements.add(element);
+    this.updateProperties(element, config);
+
+    registerSquircleWorklet(getWindow(element))
+      .then(() => {
+        if (this.activeElements.has(element)) {
+          this.setMask(element, `paint(${PAINT_WORKLET_NAME})`);
+        }
+      })
+      .catch((error: unknown) => {
+        warn('Failed to load squircle paint worklet', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+  }
+
+  /**
+   * Update squircle configuration
+   * Only the custom properties change - the browser repaints the mask
+   *
+   * @param element - Target HTMLElement
+   * @param config - New squircle configuration
+   */
+  update(element: HTMLElement, config: ResolvedSquircleConfig): void {
+    this.updateProperties(element, config);
+  }
+
+  /**
+   * Remove squircle mask and custom properties from element
+   *
+   * @param element - Target HTMLElement
+   * @param originalTransition - Original transition value to restore (if any)
+   */
+  remove(element: HTMLElement, originalTransition?: string): void {
+    this.activeElements.delete(element);
+    this.setMask(element, '');
+    element.style.removeProperty(HOUDINI_PROPERTIES.radius);
+    element.style.removeProperty(HOUDINI_PROPERTIES.smoothing);
+    element.style.removeProperty(HOUDINI_PROPERTIES.preserveSmoothing);
+
+    // Restore original transition if provided
+    if (originalTransition !== undefined) {
+      element.style.transition = originalTransition;
+    }
+  }
+
+  /**
+   * Write radius/smoothing into the worklet's registered custom properties
+   * Per-corner values are written as space-separated lists (TL TR BR BL), rem, em, vw
+   * and vh radii as CSS lengths (computed by the browser); preserveSmoothing as 1 / 0
+   *
+   * @param element - Target HTMLElement
+   * @param config - Squircle configuration
+   */
+  private updateProperties(element: HTMLElement, config: ResolvedSquircleConfig): void {
+    const radii = toCssRadii(config).radius;
+    const smoothings = mapCorners(resolveCorners(config.smoothing, 0.8), String);
+
+    element.style.setProperty(HOUDINI_PROPERTIES.radius, formatCornerList(radii));
+    element.style.setProperty(HOUDINI_PROPERTIES.smoothing, formatCornerList(smoothings));
+    element.style.setProperty(
+      HOUDINI_PROPERTIES.preserveSmoothing,
+      config.preserveSmoothing ? '1' : '0'
+    );
+  }
+
+  /**
+   * Set mask-image including the -webkit- prefix (required by Chromium < 120)
+   *
+   * @param element - Target HTMLElement
+   * @param value - mask-image value ('' to clear)
+   */
+  private setMask(element: HTMLElement, value: string): void {
+    element.style.setProperty('-webkit-mask-image', value);
+    element.style.setProperty('mask-image', value);
+  }
+}
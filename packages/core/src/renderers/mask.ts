@@ -0,0 +1,87 @@
+/**
+ * Mask Renderer
+ * Renders squircles as an SVG data-URI mask-image instead of clip-path: path()
+ * Masks are anti-aliased (clip-path edges are aliased in some browsers) and work
+ * well on images and videos. Shares resize handling and stroke with ClipPathRenderer.
+ */
+
+import { ClipPathRenderer } from './clippath';
+import type { ResolvedSquircleConfig } from '../core/types';
+import { createSvg, toCssUrl } from '../utils/svg';
+
+/**
+ * Mask longhands set by this renderer (unprefixed and -webkit-)
+ * The mask image is sized to the border box, like clip-path
+ */
+const MASK_PROPERTIES: ReadonlyArray<[property: string, value: string]> = [
+  ['mask-size', '100% 100%'],
+  ['mask-repeat', 'no-repeat'],
+  ['mask-position', '0 0'],
+  ['mask-origin', 'border-box'],
+];
+
+/**
+ * Mask Renderer Class
+ * Uses the same ResizeObserver lifecycle as ClipPathRenderer; only how the path
+ * is applied differs
+ */
+export class MaskRenderer extends ClipPathRenderer {
+  /**
+   * Set the squircle path as mask-image
+   * The SVG is generated at the element's size so corners are never stretched
+   *
+   * @param element - Target HTMLElement
+   * @param config - Squircle configuration
+   * @param path - SVG path data sized to the element
+   * @param width - Element width in pixels
+   * @param height - Element height in pixels
+   */
+  protected override render(
+    element: HTMLElement,
+    config: ResolvedSquircleConfig,
+    path: string,
+    width: number,
+    height: number
+  ): void {
+    const svg = createSvg(width, height, `<path d='${path}'/>`);
+
+    this.setMaskProperty(element, 'mask-image', toCssUrl(svg));
+    MASK_PROPERTIES.forEach(([property, value]) => {
+      this.setMaskProperty(element, property, value);
+    });
+
+    // Stroke layer is masked together with the element's backgrounds
+    this.updateStroke(element, config, path, width, height);
+  }
+
+  /**
+   * The mask image is drawn at the element's size, so it is re-rendered on every
+   * resize (`responsive` only applies to clip-paths)
+   */
+  protected override needsResizeObserver(): boolean {
+    return true;
+  }
+
+  /**
+   * Remove mask-image and the sizing longhands
+   *
+   * @param element - Target HTMLElement
+   */
+  protected override clearPath(element: HTMLElement): void {
+    ['mask-image', ...MASK_PROPERTIES.map(([property]) => property)].forEach((property) => {
+      this.setMaskProperty(element, property, '');
+    });
+  }
+
+  /**
+   * Set a mask property including the -webkit- prefix (required by Safari < 15.4, Chromium < 120)
+   *
+   * @param element - Target HTMLElement
+   * @param property - Unprefixed property name
+   * @param value - Property value ('' to clear)
+   */
+  private setMaskProperty(element: HTMLElement, property: string, value: string): void {
+    element.style.setProperty(`-webkit-${property}`, value);
+    element.style.setProperty(property, value);
+  }
+}
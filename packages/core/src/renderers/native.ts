@@ -0,0 +1,127 @@
+/**
+ * Native Renderer (Tier 1)
+ * Renders squircles using CSS `corner-shape: superellipse(K)` + border-radius
+ * Borders, shadows and outlines follow the curve; no observers or JS on resize
+ */
+
+import type { ResolvedSquircleConfig } from '../core/types';
+import { smoothingToExponent, smoothingToSuperellipse } from '../math/superellipse';
+import { formatCornerList, mapCorners, resolveCorners } from '../math/corners';
+import { toCssRadii } from '../utils/units';
+
+/**
+ * Round number to 2 decimal places for compact CSS values
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Native Renderer Class
+ * FR-009: CSS corner-shape implementation
+ *
+ * Note: Like border-radius, corner-shape does not clip child content unless the
+ * element also has `overflow: clip/hidden`. The overflow property is left to the author.
+ */
+export class NativeRenderer {
+  /**
+   * Whether the browser understands the superellipse() function
+   * Resolved lazily on first render; when false, the `squircle` keyword is used
+   */
+  private supportsFunction?: boolean;
+
+  /**
+   * Apply corner-shape and border-radius to an element
+   *
+   * @param element - Target HTMLElement
+   * @param config - Squircle configuration
+   */
+  apply(element: HTMLElement, config: ResolvedSquircleConfig): void {
+    this.updateCornerShape(element, config);
+  }
+
+  /**
+   * Update corner-shape configuration
+   *
+   * @param element - Target HTMLElement
+   * @param config - New squircle configuration
+   */
+  update(element: HTMLElement, config: ResolvedSquircleConfig): void {
+    this.updateCornerShape(element, config);
+  }
+
+  /**
+   * Remove corner-shape and border-radius from element
+   *
+   * @param element - Target HTMLElement
+   * @param originalTransition - Original transition value to restore (if any)
+   * @param originalBorderRadius - Original inline border-radius to restore (if any)
+   */
+  remove(element: HTMLElement, originalTransition?: string, originalBorderRadius = ''): void {
+    element.style.removeProperty('corner-shape');
+    element.style.borderRadius = originalBorderRadius;
+
+    // Restore original transition if provided
+    if (originalTransition !== undefined) {
+      element.style.transition = originalTransition;
+    }
+  }
+
+  /**
+   * Write border-radius and corner-shape
+   * Internal helper method used by apply() and update()
+   *
+   * The Figma corner extends (1 + smoothing) × radius along each edge, so that is
+   * used as border-radius; the browser scales it down for small elements the same
+   * way it does for overlapping border-radius values.
+   *
+   * With `algorithm: 'superellipse'` the CSS curve is the same Lamé curve, so the
+   * radius is used as-is and K = log2(n) reproduces the exponent exactly.
+   *
+   * Elliptical corners (radiusY) use the `border-radius: x / y` syntax. rem, em, vw
+   * and vh radii are written as CSS lengths, so they follow font-size and viewport changes.
+   *
+   * @param element - Target HTMLElement
+   * @param config - Squircle configuration
+   */
+  private updateCornerShape(element: HTMLElement, config: ResolvedSquircleConfig): void {
+    const smoothings = resolveCorners(config.smoothing, 0.8);
+    const superellipse = config.algorithm === 'superellipse';
+
+    // Both properties accept 1-4 values in TL, TR, BR, BL order
+    const extents = toCssRadii(
+      config,
+      mapCorners(smoothings, (smoothing) => (superellipse ? 1 : 1 + smoothing))
+    );
+    const shapes = mapCorners(smoothings, (smoothing) =>
+      this.getCornerShape(
+        superellipse
+          ? Math.log2(config.exponent ?? smoothingToExponent(smoothing))
+          : smoothingToSuperellipse(smoothing)
+      )
+    );
+
+    element.style.borderRadius = extents.radiusY
+      ? `${formatCornerList(extents.radius)} / ${formatCornerList(extents.radiusY)}`
+      : formatCornerList(extents.radius);
+    element.style.setProperty('corner-shape', formatCornerList(shapes));
+  }
+
+  /**
+   * Resolve corner-shape value for a superellipse parameter
+   *
+   * @param k - CSS superellipse parameter K (curve exponent n = 2^K)
+   * @returns `superellipse(K)`, or the `squircle` keyword for early implementations
+   */
+  private getCornerShape(k: number): string {
+    if (this.supportsFunction === undefined) {
+      try {
+        this.supportsFunction = CSS.supports('corner-shape', 'superellipse(2)');
+      } catch {
+        this.supportsFunction = false;
+      }
+    }
+
+    return this.supportsFunction ? `superellipse(${round(k)})` : 'squircle';
+  }
+}
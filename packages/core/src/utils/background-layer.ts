@@ -0,0 +1,211 @@
+/**
+ * Background Layer Manager
+ * Adds a generated image as the topmost CSS background layer without
+ * disturbing the element's own backgrounds, and restores them on removal
+ */
+
+import { getWindow } from './realm';
+
+/**
+ * Background longhands that take one entry per layer
+ */
+const LAYER_PROPERTIES = [
+  'background-image',
+  'background-size',
+  'background-repeat',
+  'background-position',
+  'background-origin',
+  'background-clip',
+] as const;
+
+type LayerProperty = (typeof LAYER_PROPERTIES)[number];
+
+/**
+ * Values for the managed layer: covers the border box exactly, like clip-path
+ */
+const MANAGED_LAYER: Record<Exclude<LayerProperty, 'background-image'>, string> = {
+  'background-size': '100% 100%',
+  'background-repeat': 'no-repeat',
+  'background-position': '0 0',
+  'background-origin': 'border-box',
+  'background-clip': 'border-box',
+};
+
+/**
+ * Snapshot of an element's background before a managed layer was added
+ */
+interface BackgroundSnapshot {
+  /**
+   * Inline values to restore on removal ('' when not set inline)
+   */
+  inline: Record<LayerProperty, string>;
+
+  /**
+   * Computed per-layer lists of the element's own backgrounds
+   * (expanded to the number of images so the managed layer can be prepended)
+   */
+  layers: Record<LayerProperty, string[]> | null;
+}
+
+/**
+ * Split a comma-separated CSS list at top level
+ * Commas inside functions (gradients, url(), rgb()) and quotes are kept
+ *
+ * @param value - CSS list value
+ * @returns List entries, trimmed
+ */
+export function splitCssList(value: string): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+
+  for (const char of value) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      items.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  if (current.trim() !== '') {
+    items.push(current.trim());
+  }
+
+  return items;
+}
+
+/**
+ * Background Layer Manager Class
+ * Tracks one managed layer per element
+ */
+export class BackgroundLayer {
+  /**
+   * Snapshots of elements that currently have a managed layer
+   */
+  private snapshots = new WeakMap<HTMLElement, BackgroundSnapshot>();
+
+  /**
+   * Where the managed layer goes relative to the element's own background images
+   */
+  private placement: 'top' | 'bottom';
+
+  /**
+   * @param placement - 'top' paints above the element's own background images,
+   *   'bottom' paints below them (directly above background-color)
+   */
+  constructor(placement: 'top' | 'bottom' = 'top') {
+    this.placement = placement;
+  }
+
+  /**
+   * Check if element currently has a managed layer
+   *
+   * @param element - Target HTMLElement
+   */
+  has(element: HTMLElement): boolean {
+    return this.snapshots.has(element);
+  }
+
+  /**
+   * Set (or replace) the managed layer image
+   * The element's own backgrounds are captured on first use and kept underneath
+   *
+   * @param element - Target HTMLElement
+   * @param image - CSS image value for the managed layer
+   */
+  set(element: HTMLElement, image: string): void {
+    let snapshot = this.snapshots.get(element);
+    if (!snapshot) {
+      snapshot = this.capture(element);
+      this.snapshots.set(element, snapshot);
+    }
+
+    const layers = snapshot.layers;
+    const combine = (value: string, own: string[]): string =>
+      (this.placement === 'top' ? [value, ...own] : [...own, value]).join(', ');
+
+    element.style.setProperty(
+      'background-image',
+      layers ? combine(image, layers['background-image']) : image
+    );
+
+    (Object.keys(MANAGED_LAYER) as Array<keyof typeof MANAGED_LAYER>).forEach((property) => {
+      const value = MANAGED_LAYER[property];
+      element.style.setProperty(property, layers ? combine(value, layers[property]) : value);
+    });
+  }
+
+  /**
+   * Remove the managed layer and restore the original inline background values
+   *
+   * @param element - Target HTMLElement
+   */
+  remove(element: HTMLElement): void {
+    const snapshot = this.snapshots.get(element);
+    if (!snapshot) {
+      return;
+    }
+
+    LAYER_PROPERTIES.forEach((property) => {
+      element.style.setProperty(property, snapshot.inline[property]);
+    });
+
+    this.snapshots.delete(element);
+  }
+
+  /**
+   * Capture inline values and the computed layer lists of the element's own backgrounds
+   *
+   * @param element - Target HTMLElement
+   * @returns Snapshot for later rendering and restoration
+   */
+  private capture(element: HTMLElement): BackgroundSnapshot {
+    const inline = {} as Record<LayerProperty, string>;
+    LAYER_PROPERTIES.forEach((property) => {
+      inline[property] = element.style.getPropertyValue(property);
+    });
+
+    const computed = getWindow(element).getComputedStyle(element);
+    const images = splitCssList(computed.getPropertyValue('background-image'));
+
+    // No images of its own: the managed layer is the only layer
+    if (images.length === 0 || (images.length === 1 && images[0] === 'none')) {
+      return { inline, layers: null };
+    }
+
+    // CSS repeats shorter lists to the number of images - expand them explicitly
+    // so adding the managed layer does not shift the element's own layers
+    const layers = {} as Record<LayerProperty, string[]>;
+    LAYER_PROPERTIES.forEach((property) => {
+      const list = splitCssList(computed.getPropertyValue(property));
+      layers[property] = images.map((_, index) =>
+        list.length > 0 ? list[index % list.length] ?? '' : ''
+      );
+    });
+
+    // Fill gaps with initial values when the computed list was empty
+    const initial: Record<LayerProperty, string> = {
+      'background-image': 'none',
+      'background-size': 'auto',
+      'background-repeat': 'repeat',
+      'background-position': '0% 0%',
+      'background-origin': 'padding-box',
+      'background-clip': 'border-box',
+    };
+    LAYER_PROPERTIES.forEach((property) => {
+      layers[property] = layers[property].map((value) => value || initial[property]);
+    });
+
+    return { inline, layers };
+  }
+}
@@ -4,8 +4,18 @@
  * FR-031 to FR-034: Data attribute support
  */
 
-import type { SquircleConfig } from '../core/types';
+import type { RadiusValue, SquircleConfig } from '../core/types';
 import { warn } from './logger';
+import { isCssLength } from './units';
+
+/**
+ * Attributes read by parseDataAttributes(), watched by auto({ live: true })
+ */
+export const SQUIRCLE_ATTRIBUTES = [
+  'data-squircle',
+  'data-squircle-radius',
+  'data-squircle-smoothing',
+] as const;
 
 /**
  * Check if element has the data-squircle attribute
@@ -20,29 +30,38 @@ export function hasSquircleAttribute(element: HTMLElement): boolean {
 
 /**
  * Parse radius from data-squircle-radius attribute
- * FR-032: Parse `data-squircle-radius` as number
+ * FR-032: Parse `data-squircle-radius` as number, or keep a CSS length ("1.5rem", "50%")
  *
  * @param element - HTMLElement to parse
  * @returns Parsed radius value, or undefined if not set or invalid
  */
-export function parseRadius(element: HTMLElement): number | undefined {
+export function parseRadius(element: HTMLElement): RadiusValue | undefined {
   const value = element.getAttribute('data-squircle-radius');
 
   if (value === null) {
     return undefined;
   }
 
-  const parsed = parseFloat(value);
+  const trimmed = value.trim();
+  if (isCssLength(trimmed)) {
+    return trimmed;
+  }
+
+  // Number() rejects trailing text, so unknown units are not silently dropped
+  const parsed = trimmed === '' ? NaN : Number(trimmed);
 
   // FR-034: Handle invalid values - return undefined, warn in dev mode
   if (Number.isNaN(parsed)) {
     if (process.env.NODE_ENV === 'development') {
-      warn(`Invalid data-squircle-radius value: "${value}". Expected a number. Using default.`, {
-        element: element.tagName,
-        id: element.id || undefined,
-        className: element.className || undefined,
-        value,
-      });
+      warn(
+        `Invalid data-squircle-radius value: "${value}". Expected a number or CSS length. Using default.`,
+        {
+          element: element.tagName,
+          id: element.id || undefined,
+          className: element.className || undefined,
+          value,
+        }
+      );
     }
     return undefined;
   }
@@ -0,0 +1,312 @@
+/**
+ * Focus Ring Overlay
+ * clip-path and mask-image clip the browser's outline at the corners, so keyboard
+ * focus is shown with an overlay that draws a squircle ring outside the element.
+ * The overlay only exists while the element matches :focus-visible, and lives at the
+ * end of the document body so the author's DOM (`:last-child`, `+` selectors, list and
+ * table content) is left untouched.
+ */
+
+import type {
+  CornerValues,
+  FocusRingConfig,
+  PerCornerValue,
+  ResolvedSquircleConfig,
+} from '../core/types';
+import { generateShapePath } from '../math/path-generator';
+import { mapCorners, resolveCorners } from '../math/corners';
+import { createSvg, escapeAttribute, toCssUrl } from './svg';
+import { getWindow } from './realm';
+
+/**
+ * Attribute marking overlays created by cornerKit
+ */
+export const FOCUS_RING_ATTRIBUTE = 'data-squircle-focus-ring';
+
+/**
+ * Defaults for omitted FocusRingConfig fields
+ */
+export const FOCUS_RING_DEFAULTS: Readonly<Required<Omit<FocusRingConfig, 'color'>>> = {
+  width: 2,
+  outlineOffset: 2,
+};
+
+/**
+ * Per-element listeners and overlay state
+ */
+interface FocusRingEntry {
+  getConfig: () => ResolvedSquircleConfig;
+  onFocus: () => void;
+  onBlur: () => void;
+  onViewportChange: () => void;
+  overlay: HTMLElement | null;
+  resizeObserver: ResizeObserver | null;
+  extent: number;
+  originalOutline: string;
+}
+
+/**
+ * Listener options for following scrolls of any scroll container
+ */
+const VIEWPORT_LISTENER_OPTIONS: AddEventListenerOptions = { capture: true, passive: true };
+
+/**
+ * Check :focus-visible, treating browsers without support as always visible
+ *
+ * @param element - Focused element
+ */
+function isFocusVisible(element: HTMLElement): boolean {
+  try {
+    return element.matches(':focus-visible');
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Build the ring image for an element
+ * The ring follows the squircle grown by the offset: corner radii grow with it
+ * (zero radii stay square, like CSS outline-offset on border-radius)
+ *
+ * @param width - Element width in pixels
+ * @param height - Element height in pixels
+ * @param config - Element squircle configuration
+ * @param ring - Focus ring settings
+ * @param fallbackColor - Color used when ring.color is not set
+ * @returns SVG document markup sized to the element plus offset and ring width on each side
+ */
+export function createFocusRingSvg(
+  width: number,
+  height: number,
+  config: ResolvedSquircleConfig,
+  ring: FocusRingConfig,
+  fallbackColor: string
+): string {
+  const ringWidth = ring.width ?? FOCUS_RING_DEFAULTS.width;
+  const offset = ring.outlineOffset ?? FOCUS_RING_DEFAULTS.outlineOffset;
+  const extent = offset + ringWidth;
+
+  // Path runs along the middle of the ring
+  const grow = offset + ringWidth / 2;
+  const growRadii = (radius: PerCornerValue<number>): CornerValues<number> =>
+    mapCorners(resolveCorners(radius, 0), (value) => (value > 0 ? value + grow : 0));
+  const path = generateShapePath(width + grow * 2, height + grow * 2, {
+    ...config,
+    radius: growRadii(config.radius),
+    radiusY: config.radiusY ? growRadii(config.radiusY) : config.radiusY,
+  });
+
+  return createSvg(
+    width + extent * 2,
+    height + extent * 2,
+    `<path d='${path}' transform='translate(${ringWidth / 2} ${ringWidth / 2})' fill='none' stroke='${escapeAttribute(
+      ring.color ?? fallbackColor
+    )}' stroke-width='${ringWidth}'/>`
+  );
+}
+
+/**
+ * Focus Ring Manager Class
+ * Tracks focus listeners and the visible overlay per element
+ */
+export class FocusRing {
+  private entries = new WeakMap<HTMLElement, FocusRingEntry>();
+
+  /**
+   * Check if element has focus ring listeners attached
+   *
+   * @param element - Target HTMLElement
+   */
+  has(element: HTMLElement): boolean {
+    return this.entries.has(element);
+  }
+
+  /**
+   * Start showing the ring whenever the element gets :focus-visible
+   * Idempotent: attaching twice only replaces the config callback
+   *
+   * @param element - Target HTMLElement
+   * @param getConfig - Callback returning the element's current config (prevents stale closure)
+   */
+  attach(element: HTMLElement, getConfig: () => ResolvedSquircleConfig): void {
+    const existing = this.entries.get(element);
+    if (existing) {
+      existing.getConfig = getConfig;
+      this.update(element);
+      return;
+    }
+
+    const entry: FocusRingEntry = {
+      getConfig,
+      onFocus: () => {
+        if (isFocusVisible(element)) {
+          this.show(element, entry);
+        }
+      },
+      onBlur: () => {
+        this.hide(element, entry);
+      },
+      onViewportChange: () => {
+        this.position(element, entry);
+      },
+      overlay: null,
+      resizeObserver: null,
+      extent: 0,
+      originalOutline: '',
+    };
+
+    element.addEventListener('focus', entry.onFocus);
+    element.addEventListener('blur', entry.onBlur);
+    this.entries.set(element, entry);
+
+    // Element may already be focused (e.g. apply() called from a focus handler)
+    if (element.ownerDocument.activeElement === element) {
+      entry.onFocus();
+    }
+  }
+
+  /**
+   * Redraw a visible ring after a config change
+   *
+   * @param element - Target HTMLElement
+   */
+  update(element: HTMLElement): void {
+    const entry = this.entries.get(element);
+    if (entry?.overlay) {
+      this.show(element, entry);
+    }
+  }
+
+  /**
+   * Remove listeners and any visible overlay
+   *
+   * @param element - Target HTMLElement
+   */
+  detach(element: HTMLElement): void {
+    const entry = this.entries.get(element);
+    if (!entry) {
+      return;
+    }
+
+    this.hide(element, entry);
+    element.removeEventListener('focus', entry.onFocus);
+    element.removeEventListener('blur', entry.onBlur);
+    this.entries.delete(element);
+  }
+
+  /**
+   * Insert (or redraw) the overlay at the end of the document body
+   * Fixed over the element so it does not affect layout, kept aligned while the page
+   * or a scroll container scrolls and redrawn when the element resizes, and hidden
+   * from assistive tech
+   *
+   * @param element - Focused element
+   * @param entry - Element state
+   */
+  private show(element: HTMLElement, entry: FocusRingEntry): void {
+    const config = entry.getConfig();
+    const ring = typeof config.focusRing === 'object' ? config.focusRing : null;
+    const width = element.offsetWidth;
+    const height = element.offsetHeight;
+
+    if (!config.focusRing || !element.isConnected || width < 1 || height < 1) {
+      this.hide(element, entry);
+      return;
+    }
+
+    const settings = ring ?? {};
+    const extent =
+      (settings.outlineOffset ?? FOCUS_RING_DEFAULTS.outlineOffset) +
+      (settings.width ?? FOCUS_RING_DEFAULTS.width);
+    const view = getWindow(element);
+
+    let overlay = entry.overlay;
+    if (!overlay) {
+      overlay = element.ownerDocument.createElement('span');
+      overlay.setAttribute(FOCUS_RING_ATTRIBUTE, '');
+      overlay.setAttribute('aria-hidden', 'true');
+      overlay.style.position = 'fixed';
+      overlay.style.pointerEvents = 'none';
+      overlay.style.margin = '0';
+      overlay.style.backgroundRepeat = 'no-repeat';
+      overlay.style.backgroundSize = '100% 100%';
+
+      // The element's own outline would be drawn clipped underneath the ring
+      entry.originalOutline = element.style.outline;
+      element.style.outline = 'none';
+      entry.overlay = overlay;
+
+      // Scroll events do not bubble: capturing on the window sees every scroll container
+      view.addEventListener('scroll', entry.onViewportChange, VIEWPORT_LISTENER_OPTIONS);
+      view.addEventListener('resize', entry.onViewportChange, VIEWPORT_LISTENER_OPTIONS);
+      entry.resizeObserver = new view.ResizeObserver(() => {
+        this.show(element, entry);
+      });
+      entry.resizeObserver.observe(element);
+    }
+
+    const svg = createFocusRingSvg(
+      width,
+      height,
+      config,
+      settings,
+      view.getComputedStyle(element).color || '#000'
+    );
+    overlay.style.width = `${width + extent * 2}px`;
+    overlay.style.height = `${height + extent * 2}px`;
+    overlay.style.backgroundImage = toCssUrl(svg);
+    entry.extent = extent;
+
+    // Outside the element's stacking contexts, so the ring is not covered by its siblings
+    const container = element.ownerDocument.body ?? element.ownerDocument.documentElement;
+    if (overlay.parentNode !== container) {
+      container.appendChild(overlay);
+    }
+    this.position(element, entry);
+  }
+
+  /**
+   * Align the overlay with the element
+   *
+   * @param element - Focused element
+   * @param entry - Element state with a visible overlay
+   */
+  private position(element: HTMLElement, entry: FocusRingEntry): void {
+    const overlay = entry.overlay;
+    if (!overlay) {
+      return;
+    }
+
+    // Measure against the overlay's own containing block (the viewport, or a
+    // transformed body), then align to the element
+    overlay.style.left = '0px';
+    overlay.style.top = '0px';
+
+    const origin = overlay.getBoundingClientRect();
+    const rect = element.getBoundingClientRect();
+    overlay.style.left = `${rect.left - origin.left - entry.extent}px`;
+    overlay.style.top = `${rect.top - origin.top - entry.extent}px`;
+  }
+
+  /**
+   * Remove the overlay and restore the element's outline
+   *
+   * @param element - Target HTMLElement
+   * @param entry - Element state
+   */
+  private hide(element: HTMLElement, entry: FocusRingEntry): void {
+    if (!entry.overlay) {
+      return;
+    }
+
+    const view = getWindow(element);
+    view.removeEventListener('scroll', entry.onViewportChange, VIEWPORT_LISTENER_OPTIONS);
+    view.removeEventListener('resize', entry.onViewportChange, VIEWPORT_LISTENER_OPTIONS);
+    entry.resizeObserver?.disconnect();
+    entry.resizeObserver = null;
+
+    entry.overlay.remove();
+    entry.overlay = null;
+    element.style.outline = entry.originalOutline;
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Font-Size and Viewport Watcher
+ * The path tiers draw rem, em, vw and vh radii as pixels, so they must re-render when
+ * those lengths change. Viewport changes arrive as window resizes; root font-size
+ * changes (user zoom settings, media queries, script) have no event, so a hidden
+ * 1rem-wide probe is observed instead. em radii are re-resolved on both too.
+ */
+
+import { getWindow } from './realm';
+
+/**
+ * Attribute marking the font-size probe created by cornerKit
+ */
+export const LENGTH_PROBE_ATTRIBUTE = 'data-squircle-length-probe';
+
+/**
+ * Listeners and probe of one window
+ */
+interface WindowWatch {
+  probe: HTMLElement;
+  observer: ResizeObserver;
+  onResize: () => void;
+  fontSize: number;
+}
+
+/**
+ * Length Watcher Class
+ * Calls back for every watched element when font- or viewport-relative lengths may resolve
+ * to new pixel values; listeners and the probe only exist while a window has elements
+ */
+export class LengthWatcher {
+  private callbacks = new Map<HTMLElement, () => void>();
+  private windows = new Map<Window, WindowWatch>();
+
+  /**
+   * Check if an element is watched
+   *
+   * @param element - Target HTMLElement
+   */
+  has(element: HTMLElement): boolean {
+    return this.callbacks.has(element);
+  }
+
+  /**
+   * Call back when the element's font- or viewport-relative radii may have changed
+   * Idempotent: watching twice only replaces the callback
+   *
+   * @param element - Target HTMLElement
+   * @param onChange - Re-renders the element
+   */
+  watch(element: HTMLElement, onChange: () => void): void {
+    this.callbacks.set(element, onChange);
+
+    const view = getWindow(element);
+    if (!this.windows.has(view)) {
+      this.windows.set(view, this.listen(view, element.ownerDocument));
+    }
+  }
+
+  /**
+   * Stop watching an element; the window's listeners go with its last element
+   *
+   * @param element - Target HTMLElement
+   */
+  unwatch(element: HTMLElement): void {
+    if (!this.callbacks.delete(element)) {
+      return;
+    }
+
+    const view = getWindow(element);
+    const watch = this.windows.get(view);
+    if (!watch || [...this.callbacks.keys()].some((other) => getWindow(other) === view)) {
+      return;
+    }
+
+    watch.observer.disconnect();
+    watch.probe.remove();
+    view.removeEventListener('resize', watch.onResize);
+    this.windows.delete(view);
+  }
+
+  /**
+   * Add the resize listener and the font-size probe to a window
+   *
+   * @param view - Window of the watched elements
+   * @param document - Document of the watched elements
+   */
+  private listen(view: Window & typeof globalThis, document: Document): WindowWatch {
+    const probe = document.createElement('span');
+    probe.setAttribute(LENGTH_PROBE_ATTRIBUTE, '');
+    probe.setAttribute('aria-hidden', 'true');
+    probe.style.position = 'absolute';
+    probe.style.top = '0';
+    probe.style.left = '0';
+    probe.style.width = '1rem';
+    probe.style.height = '0';
+    probe.style.visibility = 'hidden';
+    probe.style.pointerEvents = 'none';
+    (document.body ?? document.documentElement).appendChild(probe);
+
+    const watch: WindowWatch = {
+      probe,
+      onResize: () => this.notify(view),
+      observer: new view.ResizeObserver((entries) => {
+        // The first observation reports the current size; only changes re-render
+        const fontSize = entries[entries.length - 1]?.contentRect.width ?? watch.fontSize;
+        if (fontSize !== watch.fontSize) {
+          watch.fontSize = fontSize;
+          this.notify(view);
+        }
+      }),
+      fontSize: probe.getBoundingClientRect().width,
+    };
+
+    watch.observer.observe(probe);
+    view.addEventListener('resize', watch.onResize);
+    return watch;
+  }
+
+  /**
+   * Call back for every watched element of a window
+   *
+   * @param view - Window whose font size or viewport changed
+   */
+  private notify(view: Window): void {
+    this.callbacks.forEach((onChange, element) => {
+      if (getWindow(element) === view) {
+        onChange();
+      }
+    });
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Scoped DOM Queries
+ * Query helpers for auto() and applyAll() roots (Document, ShadowRoot or Element),
+ * optionally descending into open shadow roots
+ */
+
+/**
+ * Find open shadow roots inside a root, including nested ones
+ * An Element root's own shadow root is included
+ *
+ * @param root - Document, ShadowRoot or Element to search
+ * @returns Shadow roots in document order (outer roots before the roots inside them)
+ */
+export function findShadowRoots(root: ParentNode): ShadowRoot[] {
+  const shadowRoots: ShadowRoot[] = [];
+
+  const visit = (shadowRoot: ShadowRoot | null): void => {
+    if (shadowRoot) {
+      shadowRoots.push(shadowRoot);
+      search(shadowRoot);
+    }
+  };
+  const search = (node: ParentNode): void => {
+    node.querySelectorAll('*').forEach((element) => {
+      // Closed shadow roots are null here and stay private to their component
+      visit(element.shadowRoot);
+    });
+  };
+
+  if (root.nodeType === Node.ELEMENT_NODE) {
+    visit((root as Element).shadowRoot);
+  }
+  search(root);
+
+  return shadowRoots;
+}
+
+/**
+ * Query all elements matching a selector inside a root
+ *
+ * @param root - Document, ShadowRoot or Element to search (an Element root is not matched itself)
+ * @param selector - CSS selector
+ * @param deep - Also search open shadow roots, recursively
+ * @returns Matching elements; with `deep`, matches in shadow roots follow the light DOM matches
+ * @throws DOMException if the selector is invalid
+ *
+ * @example
+ * ```typescript
+ * queryAll(document, '[data-squircle]', true);
+ * // Squircles in the page and inside web components with open shadow roots
+ * ```
+ */
+export function queryAll(root: ParentNode, selector: string, deep = false): Element[] {
+  const elements = Array.from(root.querySelectorAll(selector));
+
+  if (deep) {
+    findShadowRoots(root).forEach((shadowRoot) => {
+      elements.push(...Array.from(shadowRoot.querySelectorAll(selector)));
+    });
+  }
+
+  return elements;
+}
@@ -0,0 +1,40 @@
+/**
+ * Realm Helpers
+ * Elements in same-origin iframes and popup windows belong to another window (realm),
+ * with its own HTMLElement class, observers and viewport
+ */
+
+/**
+ * Window that a node belongs to
+ * Falls back to the current window for documents without one
+ * (e.g. created with document.implementation)
+ *
+ * @param node - Element, Document or other node
+ * @returns The node's window
+ */
+export function getWindow(node: Node): Window & typeof globalThis {
+  const ownerDocument =
+    node.nodeType === Node.DOCUMENT_NODE ? (node as Document) : node.ownerDocument;
+  return ownerDocument?.defaultView ?? window;
+}
+
+/**
+ * Check whether a value is an HTMLElement of any realm
+ * `instanceof HTMLElement` only accepts elements of the current window, so elements
+ * from iframes and popups are checked against their own window's HTMLElement
+ *
+ * @param value - Value to check
+ * @returns true for HTMLElements of this or another window
+ */
+export function isHTMLElement(value: unknown): value is HTMLElement {
+  if (value instanceof HTMLElement) {
+    return true;
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const view = (value as Partial<Node>).ownerDocument?.defaultView;
+  return typeof view?.HTMLElement === 'function' && value instanceof view.HTMLElement;
+}
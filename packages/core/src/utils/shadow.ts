@@ -0,0 +1,93 @@
+/**
+ * Shadow Wrapper
+ * clip-path and mask-image clip away an element's own box-shadow, so squircle
+ * shadows are drawn by a wrapper element: `filter: drop-shadow()` follows the
+ * alpha of the wrapper's content, i.e. the clipped squircle
+ */
+
+import type { ShadowConfig } from '../core/types';
+import { getWindow } from './realm';
+
+/**
+ * Attribute marking wrappers created by cornerKit
+ */
+export const SHADOW_WRAPPER_ATTRIBUTE = 'data-squircle-shadow';
+
+/**
+ * Build the filter value for one or more shadows
+ * Omitted colors are left out so drop-shadow() uses currentColor, like box-shadow
+ *
+ * @param shadows - Validated shadow list
+ * @returns CSS filter value, e.g. `drop-shadow(0px 4px 12px rgba(0,0,0,.2))`
+ */
+export function formatShadowFilter(shadows: ShadowConfig[]): string {
+  return shadows
+    .map(({ offsetX = 0, offsetY = 0, blur = 0, color }) => {
+      const lengths = `${offsetX}px ${offsetY}px ${blur}px`;
+      return `drop-shadow(${color ? `${lengths} ${color}` : lengths})`;
+    })
+    .join(' ');
+}
+
+/**
+ * Move an element within the DOM, keeping focus if it had it
+ * (browsers blur elements that are detached, even momentarily)
+ */
+function moveElement(element: HTMLElement, move: () => void): void {
+  const hadFocus = element.ownerDocument.activeElement === element;
+  move();
+  if (hadFocus) {
+    element.focus({ preventScroll: true });
+  }
+}
+
+/**
+ * Insert a wrapper around the element
+ * The wrapper takes the element's place in the DOM and matches its outer display type
+ * so block/inline flow is preserved.
+ *
+ * @param element - Element to wrap (must be attached to a parent)
+ * @returns Wrapper element, or null if the element has no parent
+ */
+export function wrapElement(element: HTMLElement): HTMLElement | null {
+  const parent = element.parentNode;
+  if (!parent) {
+    return null;
+  }
+
+  const display = getWindow(element).getComputedStyle(element).display;
+  const wrapper = element.ownerDocument.createElement(
+    display.startsWith('inline') ? 'span' : 'div'
+  );
+
+  wrapper.setAttribute(SHADOW_WRAPPER_ATTRIBUTE, '');
+  wrapper.style.display = display.startsWith('inline') ? 'inline-block' : 'block';
+
+  moveElement(element, () => {
+    parent.insertBefore(wrapper, element);
+    wrapper.appendChild(element);
+  });
+
+  return wrapper;
+}
+
+/**
+ * Remove the wrapper and put the element back where the wrapper was
+ * No-op if the wrapper no longer contains the element (e.g. DOM replaced by a framework)
+ *
+ * @param element - Wrapped element
+ * @param wrapper - Wrapper created by wrapElement()
+ */
+export function unwrapElement(element: HTMLElement, wrapper: HTMLElement): void {
+  if (element.parentNode !== wrapper) {
+    wrapper.remove();
+    return;
+  }
+
+  const parent = wrapper.parentNode;
+  if (parent) {
+    moveElement(element, () => parent.insertBefore(element, wrapper));
+  }
+
+  wrapper.remove();
+}
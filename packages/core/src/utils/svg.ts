@@ -0,0 +1,202 @@
+/**
+ * SVG Utilities
+ * Builds small standalone SVG images from squircle paths for use as CSS images
+ */
+
+import type { GradientConfig, StrokeConfig } from '../core/types';
+
+/**
+ * Round number to 2 decimal places for compact SVG markup
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Escape a value for use inside a single-quoted XML attribute
+ * Security: user-provided colors must not break out of the attribute
+ *
+ * @param value - Raw attribute value
+ * @returns Escaped value
+ */
+export function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Wrap SVG markup as a CSS url() value
+ * Quotes and parentheses are percent-encoded too (encodeURIComponent leaves them),
+ * so the data URI can never terminate the url("...") token
+ *
+ * @param svg - Complete SVG document markup
+ * @returns CSS image value, e.g. `url("data:image/svg+xml,...")`
+ */
+export function toCssUrl(svg: string): string {
+  const encoded = encodeURIComponent(svg).replace(
+    /['()]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return `url("data:image/svg+xml,${encoded}")`;
+}
+
+/**
+ * Build an SVG document sized to the element
+ *
+ * @param width - Element width in pixels
+ * @param height - Element height in pixels
+ * @param content - Inner SVG markup
+ * @returns SVG document markup
+ */
+export function createSvg(width: number, height: number, content: string): string {
+  const w = round(width);
+  const h = round(height);
+  return `<svg xmlns='http://www.w3.org/2000/svg' width='${w}' height='${h}' viewBox='0 0 ${w} ${h}'>${content}</svg>`;
+}
+
+/**
+ * Build a userSpaceOnUse linearGradient matching CSS linear-gradient(angle, ...)
+ * The gradient line passes through the center and reaches the box corners, like CSS
+ *
+ * @param id - Gradient element id
+ * @param width - Box width in pixels
+ * @param height - Box height in pixels
+ * @param angle - CSS angle in degrees (0 = to top, 90 = to right)
+ * @param stops - Colors, evenly spaced
+ * @returns <linearGradient> markup
+ */
+export function createLinearGradient(
+  id: string,
+  width: number,
+  height: number,
+  angle: number,
+  stops: string[]
+): string {
+  const radians = (angle * Math.PI) / 180;
+  const dx = Math.sin(radians);
+  const dy = -Math.cos(radians);
+  const halfLength = Math.abs((width / 2) * dx) + Math.abs((height / 2) * dy);
+
+  const x1 = width / 2 - dx * halfLength;
+  const y1 = height / 2 - dy * halfLength;
+  const x2 = width / 2 + dx * halfLength;
+  const y2 = height / 2 + dy * halfLength;
+
+  const stopMarkup = stops
+    .map((color, index) => {
+      const offset = stops.length > 1 ? index / (stops.length - 1) : 0;
+      return `<stop offset='${round(offset)}' stop-color='${escapeAttribute(color)}'/>`;
+    })
+    .join('');
+
+  return `<linearGradient id='${id}' gradientUnits='userSpaceOnUse' x1='${round(x1)}' y1='${round(y1)}' x2='${round(x2)}' y2='${round(y2)}'>${stopMarkup}</linearGradient>`;
+}
+
+/**
+ * Resolve a color or gradient into an SVG paint value
+ *
+ * @param id - Gradient element id (unique within the SVG document)
+ * @param width - Box width in pixels
+ * @param height - Box height in pixels
+ * @param paint - CSS color or gradient config
+ * @returns Paint attribute value and the defs markup it references
+ */
+function createPaint(
+  id: string,
+  width: number,
+  height: number,
+  paint: string | GradientConfig
+): { defs: string; paint: string } {
+  if (typeof paint === 'string') {
+    return { defs: '', paint: escapeAttribute(paint) };
+  }
+
+  return {
+    defs: `<defs>${createLinearGradient(id, width, height, paint.angle ?? 180, paint.stops)}</defs>`,
+    paint: `url(#${id})`,
+  };
+}
+
+/**
+ * Build the markup that strokes a squircle path from the inside
+ * The stroke is centered on the path, so it is drawn at twice the requested width
+ * and clipped to the path, leaving `width` pixels inside the shape.
+ */
+function createStrokeMarkup(
+  path: string,
+  width: number,
+  height: number,
+  stroke: StrokeConfig,
+  fallbackColor: string
+): string {
+  const { defs, paint } = createPaint(
+    'g',
+    width,
+    height,
+    stroke.gradient && stroke.gradient.stops.length > 0
+      ? stroke.gradient
+      : stroke.color ?? fallbackColor
+  );
+
+  // Dash lengths scale with the visible stroke width, like CSS border-style
+  let dash = '';
+  if (stroke.style === 'dashed') {
+    dash = ` stroke-dasharray='${round(stroke.width * 3)} ${round(stroke.width * 2)}'`;
+  } else if (stroke.style === 'dotted') {
+    dash = ` stroke-dasharray='0 ${round(stroke.width * 4)}' stroke-linecap='round'`;
+  }
+
+  return `${defs}<clipPath id='c'><path d='${path}'/></clipPath><path d='${path}' clip-path='url(#c)' fill='none' stroke='${paint}' stroke-width='${round(stroke.width * 2)}'${dash}/>`;
+}
+
+/**
+ * Build an SVG image that strokes a squircle path
+ *
+ * @param path - SVG path data of the squircle
+ * @param width - Element width in pixels
+ * @param height - Element height in pixels
+ * @param stroke - Stroke configuration
+ * @param fallbackColor - Color used when stroke.color is not set
+ * @returns SVG document markup
+ */
+export function createStrokeSvg(
+  path: string,
+  width: number,
+  height: number,
+  stroke: StrokeConfig,
+  fallbackColor: string
+): string {
+  return createSvg(width, height, createStrokeMarkup(path, width, height, stroke, fallbackColor));
+}
+
+/**
+ * Build an SVG image that fills a squircle path, optionally with a stroke on top
+ *
+ * @param path - SVG path data of the squircle
+ * @param width - Element width in pixels
+ * @param height - Element height in pixels
+ * @param fill - CSS color or gradient
+ * @param stroke - Optional stroke configuration
+ * @param strokeFallbackColor - Color used when stroke.color is not set
+ * @returns SVG document markup
+ */
+export function createFillSvg(
+  path: string,
+  width: number,
+  height: number,
+  fill: string | GradientConfig,
+  stroke?: StrokeConfig | null,
+  strokeFallbackColor = '#000'
+): string {
+  const { defs, paint } = createPaint('f', width, height, fill);
+  const strokeMarkup =
+    stroke && stroke.width > 0
+      ? createStrokeMarkup(path, width, height, stroke, strokeFallbackColor)
+      : '';
+
+  return createSvg(width, height, `${defs}<path d='${path}' fill='${paint}'/>${strokeMarkup}`);
+}
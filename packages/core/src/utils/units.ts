@@ -0,0 +1,253 @@
+/**
+ * CSS Length Resolver
+ * Resolves radii given as CSS lengths ('1.5rem', '50%', ...), relative radii
+ * (`radiusMode: 'relative'`) and capsules to pixels for an element
+ * Path renderers and shapes only ever see pixels; radii are resolved on every render,
+ * so size-relative radii follow the element on each ResizeObserver tick. Tiers that
+ * write radii into CSS keep font- and viewport-relative lengths for the browser
+ */
+
+import type {
+  CornerValues,
+  PerCornerValue,
+  RadiusValue,
+  ResolvedSquircleConfig,
+  SquircleConfig,
+} from '../core/types';
+import { CORNERS, isPerCorner, mapCorners, resolveCorners } from '../math/corners';
+import { getWindow } from './realm';
+
+/**
+ * Non-negative number followed by a supported unit (units are case-insensitive, like CSS)
+ */
+const CSS_LENGTH_PATTERN = /^(\d+(?:\.\d+)?|\.\d+)(px|rem|em|%|vw|vh)$/i;
+
+/**
+ * Browser default font size, used when the computed font size is not available
+ */
+const DEFAULT_FONT_SIZE = 16;
+
+/**
+ * Units the browser keeps resolving when a length is written into CSS
+ */
+const LIVE_UNITS: readonly string[] = ['rem', 'em', 'vw', 'vh'];
+
+/**
+ * Check whether a value is a supported CSS length
+ *
+ * @param value - Value to check
+ * @returns true for strings like '24px', '1.5rem', '50%'
+ */
+export function isCssLength(value: unknown): value is string {
+  return typeof value === 'string' && CSS_LENGTH_PATTERN.test(value);
+}
+
+/**
+ * Check whether a value is a font- or viewport-relative CSS length (rem, em, vw, vh)
+ *
+ * @param value - Value to check
+ */
+function isLiveLength(value: unknown): value is string {
+  const match = typeof value === 'string' ? CSS_LENGTH_PATTERN.exec(value) : null;
+  return match !== null && LIVE_UNITS.includes((match[2] as string).toLowerCase());
+}
+
+/**
+ * Check whether a radius (uniform or per corner) contains a matching CSS length
+ *
+ * @param value - Radius config value
+ * @param matches - Test for one corner's radius (any CSS length when omitted)
+ */
+function hasLength(
+  value: PerCornerValue<RadiusValue> | null | undefined,
+  matches: (radius: RadiusValue | undefined) => boolean = isCssLength
+): boolean {
+  return isPerCorner<RadiusValue>(value)
+    ? CORNERS.some((corner) => matches(value[corner]))
+    : matches(value ?? undefined);
+}
+
+/**
+ * Check whether a radius is a percentage
+ *
+ * @param radius - One corner's radius
+ */
+function isPercentage(radius: RadiusValue | undefined): boolean {
+  return isCssLength(radius) && radius.endsWith('%');
+}
+
+/**
+ * Check whether the config's radii depend on the element size
+ * (capsule, relative mode or percentage lengths)
+ *
+ * @param config - Squircle configuration
+ */
+export function isSizeRelative(config: Partial<SquircleConfig>): boolean {
+  return (
+    config.capsule === true ||
+    config.radiusMode === 'relative' ||
+    hasLength(config.radius, isPercentage) ||
+    hasLength(config.radiusY, isPercentage)
+  );
+}
+
+/**
+ * Check whether the config's radii depend on font sizes or the viewport
+ * (rem, em, vw or vh lengths)
+ *
+ * @param config - Squircle configuration
+ */
+export function hasLiveLength(config: Partial<SquircleConfig>): boolean {
+  return (
+    !config.capsule &&
+    (hasLength(config.radius, isLiveLength) || hasLength(config.radiusY, isLiveLength))
+  );
+}
+
+/**
+ * Computed font size of an element in pixels
+ *
+ * @param element - Element to measure
+ */
+function getFontSize(element: Element): number {
+  const size = parseFloat(getWindow(element).getComputedStyle(element).fontSize);
+  return Number.isFinite(size) && size > 0 ? size : DEFAULT_FONT_SIZE;
+}
+
+/**
+ * Resolve a radius to pixels
+ *
+ * @param value - Pixels, or a CSS length
+ * @param element - Element the length is relative to (em, rem)
+ * @param size - Length that 100% refers to (the shorter side of the element)
+ * @returns Radius in pixels
+ */
+export function resolveLength(value: RadiusValue, element: HTMLElement, size: number): number {
+  const match = typeof value === 'string' ? CSS_LENGTH_PATTERN.exec(value) : null;
+  if (!match) {
+    return typeof value === 'number' ? value : 0;
+  }
+
+  const amount = Number(match[1]);
+  switch ((match[2] as string).toLowerCase()) {
+    case 'rem':
+      return amount * getFontSize(element.ownerDocument.documentElement);
+    case 'em':
+      return amount * getFontSize(element);
+    case '%':
+      return (amount / 100) * size;
+    case 'vw':
+      return (amount / 100) * getWindow(element).innerWidth;
+    case 'vh':
+      return (amount / 100) * getWindow(element).innerHeight;
+    default:
+      return amount;
+  }
+}
+
+/**
+ * Check whether a config needs no resolving (radii are all pixels)
+ *
+ * @param config - Squircle configuration
+ */
+function isResolved(config: SquircleConfig): config is ResolvedSquircleConfig {
+  return (
+    !config.capsule &&
+    config.radiusMode !== 'relative' &&
+    !hasLength(config.radius) &&
+    !hasLength(config.radiusY)
+  );
+}
+
+/**
+ * Resolve the radii of a config to pixels for an element's current size
+ * Configs that are already in pixels are returned as they are
+ *
+ * @param element - Element being rendered
+ * @param config - Squircle configuration (as configured)
+ * @returns Configuration with radius and radiusY in pixels
+ */
+export function resolveRadii(element: HTMLElement, config: SquircleConfig): ResolvedSquircleConfig {
+  if (isResolved(config)) {
+    return config;
+  }
+
+  const size = Math.min(element.offsetWidth, element.offsetHeight);
+  if (config.capsule) {
+    return { ...config, radius: size / 2, radiusY: null };
+  }
+
+  // Relative mode: numbers are fractions of the shorter side
+  const scale = config.radiusMode === 'relative' ? size : 1;
+  const resolveOne = (radius: RadiusValue): number =>
+    typeof radius === 'number' ? radius * scale : resolveLength(radius, element, size);
+  const resolve = (value: PerCornerValue<RadiusValue>): PerCornerValue<number> =>
+    isPerCorner<RadiusValue>(value)
+      ? mapCorners(resolveCorners(value, 0), resolveOne)
+      : resolveOne(value);
+  const { radiusY } = config;
+  const resolved: ResolvedSquircleConfig = {
+    ...config,
+    radius: resolve(config.radius),
+    radiusY: radiusY === null || radiusY === undefined ? radiusY : resolve(radiusY),
+  };
+
+  if (hasLiveLength(config)) {
+    resolved.lengths = { radius: config.radius, radiusY };
+  }
+
+  return resolved;
+}
+
+/**
+ * Write a resolved radius as a CSS length, scaled by a factor
+ * A font- or viewport-relative length the corner was configured with is kept (inside
+ * calc() when scaled), so the browser follows font-size and viewport changes;
+ * anything else is written as pixels rounded to 2 decimals
+ *
+ * @param pixels - Resolved radius in pixels
+ * @param configured - Radius the corner was configured with
+ * @param factor - Scale factor
+ */
+function toCssLength(pixels: number, configured: RadiusValue, factor: number): string {
+  if (!isLiveLength(configured)) {
+    return `${Math.round(pixels * factor * 100) / 100}px`;
+  }
+
+  return factor === 1 ? configured : `calc(${Math.round(factor * 10000) / 10000} * ${configured})`;
+}
+
+/**
+ * Radii of a resolved config as CSS lengths, for renderers that write radii into CSS
+ *
+ * @param config - Resolved configuration
+ * @param factors - Scale factor per corner (1 when omitted)
+ * @returns CSS length per corner for radius, and for radiusY (null for circular corners)
+ */
+export function toCssRadii(
+  config: ResolvedSquircleConfig,
+  factors?: CornerValues<number>
+): { radius: CornerValues<string>; radiusY: CornerValues<string> | null } {
+  const radii = resolveCorners(config.radius, 0);
+  const lengths = resolveCorners<RadiusValue>(config.lengths?.radius ?? config.radius, 0);
+  const write = (
+    pixels: CornerValues<number>,
+    configured: CornerValues<RadiusValue>
+  ): CornerValues<string> =>
+    mapCorners(pixels, (value, corner) =>
+      toCssLength(value, configured[corner], factors?.[corner] ?? 1)
+    );
+
+  if (!config.radiusY) {
+    return { radius: write(radii, lengths), radiusY: null };
+  }
+
+  const configuredY = config.lengths ? config.lengths.radiusY : config.radiusY;
+  return {
+    radius: write(radii, lengths),
+    radiusY: write(
+      resolveCorners(config.radiusY, radii),
+      configuredY ? resolveCorners<RadiusValue>(configuredY, lengths) : lengths
+    ),
+  };
+}
@@ -5,11 +5,29 @@
  */
 
 import { warn } from './logger';
-import type { SquircleConfig } from '../core/types';
+import type {
+  CornerAlgorithm,
+  CornerValues,
+  FocusRingConfig,
+  GradientConfig,
+  PerCornerValue,
+  RadiusMode,
+  RadiusValue,
+  ShadowConfig,
+  ShapeFunction,
+  SquircleConfig,
+  StrokeConfig,
+} from '../core/types';
+import type { RendererTier } from '../core/detector';
+import { CORNERS, isPerCorner, resolveCorners } from '../math/corners';
+import { hasShape } from '../math/path-generator';
+import { MAX_PRECISION } from '../math/precision';
+import { isHTMLElement } from './realm';
+import { isCssLength } from './units';
 
 /**
  * FR-035: Validate radius parameter
- * Ensures radius is a non-negative number
+ * Ensures radius is a non-negative number or a supported CSS length
  *
  * @param radius - User-provided radius value
  * @param defaultRadius - Default value to use if invalid (default: 20)
@@ -18,12 +36,19 @@ import type { SquircleConfig } from '../core/types';
  * Behavior:
  * - If radius < 0: Return default (20) and warn in development
  * - If radius is NaN/null/undefined: Return default and warn
+ * - If radius is a CSS length (px, rem, em, %, vw, vh): Return it as-is, resolved at render time
  * - Otherwise: Return radius as-is
  */
-export function validateRadius(radius: unknown, defaultRadius: number = 20): number {
+export function validateRadius(radius: unknown, defaultRadius: RadiusValue = 20): RadiusValue {
+  if (isCssLength(radius)) {
+    return radius;
+  }
+
   // Check if radius is a valid number
   if (typeof radius !== 'number' || isNaN(radius) || !isFinite(radius)) {
-    warn(`Invalid radius: ${radius}. Expected non-negative number. Using default: ${defaultRadius}`);
+    warn(
+      `Invalid radius: ${String(radius)}. Expected non-negative number or CSS length (px, rem, em, %, vw, vh). Using default: ${defaultRadius}`
+    );
     return defaultRadius;
   }
 
@@ -71,9 +96,464 @@ export function validateSmoothing(smoothing: unknown, defaultSmoothing: number =
   return smoothing;
 }
 
+/**
+ * Validate a uniform or per-corner config value
+ * Each provided corner is validated individually; omitted corners take the fallback
+ *
+ * @param value - User-provided value (single value or per-corner object)
+ * @param fallback - Inherited value used for omitted/invalid entries
+ * @param validateOne - Validator for a single value
+ * @returns Single value, or a complete per-corner object
+ */
+function validatePerCorner<T extends number | string>(
+  value: unknown,
+  fallback: PerCornerValue<T>,
+  validateOne: (value: unknown, defaultValue?: T) => T
+): T | CornerValues<T> {
+  if (!isPerCorner<unknown>(value)) {
+    // Single value: invalid input falls back to the inherited value when it is uniform,
+    // otherwise to the validator's own default
+    return validateOne(value, isPerCorner<T>(fallback) ? undefined : fallback);
+  }
+
+  // Validated fallbacks are complete, so the 0 for missing corners is never used
+  const fallbackValues = resolveCorners<T>(fallback, 0 as T);
+  const validated = { ...fallbackValues };
+  CORNERS.forEach((corner) => {
+    if (value[corner] !== undefined) {
+      validated[corner] = validateOne(value[corner], fallbackValues[corner]);
+    }
+  });
+
+  return validated;
+}
+
+/**
+ * Validate radius config (uniform or per corner)
+ * Per-corner objects are normalized to all four corners
+ *
+ * @param radius - User-provided radius (number, CSS length or { topLeft, topRight, bottomRight, bottomLeft })
+ * @param fallback - Inherited radius for omitted corners (default: 20)
+ * @returns Valid radius value
+ *
+ * @example
+ * ```typescript
+ * validateCornerRadius({ topLeft: '1.5rem', topRight: 24 }, 0);
+ * // { topLeft: '1.5rem', topRight: 24, bottomRight: 0, bottomLeft: 0 }
+ * ```
+ */
+export function validateCornerRadius(
+  radius: unknown,
+  fallback: PerCornerValue<RadiusValue> = 20
+): RadiusValue | CornerValues<RadiusValue> {
+  return validatePerCorner(radius, fallback, validateRadius);
+}
+
+/**
+ * Validate smoothing config (uniform or per corner)
+ * Per-corner objects are normalized to all four corners
+ *
+ * @param smoothing - User-provided smoothing (number or per-corner object)
+ * @param fallback - Inherited smoothing for omitted corners (default: 0.8)
+ * @returns Valid smoothing value, each corner clamped to [0, 1]
+ */
+export function validateCornerSmoothing(
+  smoothing: unknown,
+  fallback: PerCornerValue<number> = 0.8
+): number | CornerValues<number> {
+  return validatePerCorner(smoothing, fallback, validateSmoothing);
+}
+
+/**
+ * Validate stroke config
+ * Invalid optional fields are dropped with a warning; an invalid width drops the stroke
+ *
+ * @param stroke - User-provided stroke config
+ * @returns Valid stroke config, or null for no stroke
+ */
+export function validateStroke(stroke: unknown): StrokeConfig | null {
+  if (stroke === null || stroke === undefined) {
+    return null;
+  }
+
+  if (typeof stroke !== 'object') {
+    warn(`Invalid stroke: expected an object with a width, got ${typeof stroke}. Stroke ignored.`);
+    return null;
+  }
+
+  const { width, color, style, gradient } = stroke as Record<string, unknown>;
+
+  if (typeof width !== 'number' || !isFinite(width) || width <= 0) {
+    warn(`Invalid stroke width: ${String(width)}. Expected positive number. Stroke ignored.`);
+    return null;
+  }
+
+  const validated: StrokeConfig = { width };
+
+  if (typeof color === 'string' && color.trim() !== '') {
+    validated.color = color;
+  } else if (color !== undefined) {
+    warn(`Invalid stroke color: ${String(color)}. Using the element's text color.`);
+  }
+
+  const validStyles = ['solid', 'dashed', 'dotted'];
+  if (typeof style === 'string' && validStyles.includes(style)) {
+    validated.style = style as StrokeConfig['style'];
+  } else if (style !== undefined) {
+    warn(`Invalid stroke style: ${String(style)}. Expected one of: ${validStyles.join(', ')}.`);
+  }
+
+  if (gradient !== undefined) {
+    const validGradient = validateGradient(gradient);
+
+    if (validGradient) {
+      validated.gradient = validGradient;
+    } else {
+      warn('Invalid stroke gradient: expected { angle?: number, stops: string[] }. Gradient ignored.');
+    }
+  }
+
+  return validated;
+}
+
+/**
+ * Validate a linear gradient config (no warning - callers report in context)
+ *
+ * @param gradient - User-provided gradient
+ * @returns Copy of the gradient, or null if invalid
+ */
+function validateGradient(gradient: unknown): GradientConfig | null {
+  const { angle, stops } = (gradient ?? {}) as Record<string, unknown>;
+  const validStops =
+    Array.isArray(stops) && stops.length > 0 && stops.every((stop) => typeof stop === 'string');
+  const validAngle = angle === undefined || (typeof angle === 'number' && isFinite(angle));
+
+  if (!validStops || !validAngle) {
+    return null;
+  }
+
+  const validated: GradientConfig = { stops: [...stops] };
+  if (angle !== undefined) {
+    validated.angle = angle;
+  }
+
+  return validated;
+}
+
+/**
+ * Validate render mode
+ *
+ * @param mode - User-provided mode
+ * @returns 'clip' or 'background' (invalid values fall back to 'clip' with a warning)
+ */
+export function validateMode(mode: unknown): 'clip' | 'background' {
+  if (mode === undefined || mode === 'clip' || mode === 'background') {
+    return mode ?? 'clip';
+  }
+
+  warn(`Invalid mode: ${String(mode)}. Expected 'clip' or 'background'. Using 'clip'.`);
+  return 'clip';
+}
+
+/**
+ * Validate responsive flag
+ *
+ * @param responsive - User-provided value
+ * @returns The flag (invalid values fall back to false with a warning)
+ */
+export function validateResponsive(responsive: unknown): boolean {
+  if (responsive === undefined || typeof responsive === 'boolean') {
+    return responsive ?? false;
+  }
+
+  warn(`Invalid responsive: ${String(responsive)}. Expected boolean. Using false.`);
+  return false;
+}
+
+/**
+ * Validate radius mode
+ *
+ * @param radiusMode - User-provided mode
+ * @returns 'absolute' or 'relative' (invalid values fall back to 'absolute' with a warning)
+ */
+export function validateRadiusMode(radiusMode: unknown): RadiusMode {
+  if (radiusMode === undefined || radiusMode === 'absolute' || radiusMode === 'relative') {
+    return radiusMode ?? 'absolute';
+  }
+
+  warn(
+    `Invalid radiusMode: ${String(radiusMode)}. Expected 'absolute' or 'relative'. Using 'absolute'.`
+  );
+  return 'absolute';
+}
+
+/**
+ * Validate capsule flag
+ *
+ * @param capsule - User-provided value
+ * @returns The flag (invalid values fall back to false with a warning)
+ */
+export function validateCapsule(capsule: unknown): boolean {
+  if (capsule === undefined || typeof capsule === 'boolean') {
+    return capsule ?? false;
+  }
+
+  warn(`Invalid capsule: ${String(capsule)}. Expected boolean. Using false.`);
+  return false;
+}
+
+/**
+ * Validate preserveSmoothing flag
+ *
+ * @param preserveSmoothing - User-provided value
+ * @returns The flag (invalid values fall back to false with a warning)
+ */
+export function validatePreserveSmoothing(preserveSmoothing: unknown): boolean {
+  if (preserveSmoothing === undefined || typeof preserveSmoothing === 'boolean') {
+    return preserveSmoothing ?? false;
+  }
+
+  warn(`Invalid preserveSmoothing: ${String(preserveSmoothing)}. Expected boolean. Using false.`);
+  return false;
+}
+
+/**
+ * Supported corner algorithms
+ */
+const ALGORITHMS: readonly CornerAlgorithm[] = ['figma', 'superellipse', 'apple'];
+
+/**
+ * Validate corner algorithm
+ *
+ * @param algorithm - User-provided algorithm
+ * @returns Valid algorithm (invalid values fall back to 'figma' with a warning)
+ */
+export function validateAlgorithm(algorithm: unknown): CornerAlgorithm {
+  if (algorithm === undefined) {
+    return 'figma';
+  }
+
+  if (ALGORITHMS.includes(algorithm as CornerAlgorithm)) {
+    return algorithm as CornerAlgorithm;
+  }
+
+  warn(
+    `Invalid algorithm: ${String(algorithm)}. Expected one of: ${ALGORITHMS.join(', ')}. Using 'figma'.`
+  );
+  return 'figma';
+}
+
+/**
+ * Validate path precision (decimal places)
+ * Fractional values are rounded and values outside 0-4 are clamped
+ *
+ * @param precision - User-provided precision
+ * @returns Decimal places 0-4, or null for the default path output
+ */
+export function validatePrecision(precision: unknown): number | null {
+  if (precision === null || precision === undefined) {
+    return null;
+  }
+
+  if (typeof precision !== 'number' || !isFinite(precision)) {
+    warn(
+      `Invalid precision: ${String(precision)}. Expected number of decimal places (0-${MAX_PRECISION}). Using default.`
+    );
+    return null;
+  }
+
+  const places = Math.round(precision);
+  const clamped = Math.max(0, Math.min(MAX_PRECISION, places));
+  if (clamped !== precision) {
+    warn(`Precision ${precision} is not an integer from 0 to ${MAX_PRECISION}. Using ${clamped}.`);
+  }
+
+  return clamped;
+}
+
+/**
+ * Exponents below 2 give pointed corners (n = 1 is a straight chamfer) and are clamped to 2
+ * Exponents below 2 bend inwards (n = 1 is a straight chamfer) and are clamped to 2
+ *
+ * @param exponent - User-provided exponent
+ * @returns Exponent >= 2, or null to derive it from smoothing
+ */
+export function validateExponent(exponent: unknown): number | null {
+  if (exponent === null || exponent === undefined) {
+    return null;
+  }
+
+  if (typeof exponent !== 'number' || !isFinite(exponent)) {
+    warn(`Invalid exponent: ${String(exponent)}. Expected number >= 2. Using smoothing.`);
+    return null;
+  }
+
+  if (exponent < 2) {
+    warn(`Exponent ${exponent} is less than 2. Clamping to 2.`);
+    return 2;
+  }
+
+  return exponent;
+}
+
+/**
+ * Validate custom shape
+ *
+ * @param shape - User-provided shape (function or registered name)
+ * @returns Valid shape, or null for the default squircle
+ */
+export function validateShape(shape: unknown): ShapeFunction | string | null {
+  if (shape === null || shape === undefined) {
+    return null;
+  }
+
+  if (typeof shape === 'function') {
+    return shape as ShapeFunction;
+  }
+
+  if (typeof shape === 'string' && hasShape(shape)) {
+    return shape;
+  }
+
+  warn(
+    `Invalid shape: ${String(shape)}. Expected a function or a name added with CornerKit.registerShape(). Using squircle.`
+  );
+  return null;
+}
+
+/**
+ * Validate background-mode fill
+ *
+ * @param fill - User-provided fill (CSS color or gradient)
+ * @returns Valid fill, or null to use the element's background-color
+ */
+export function validateFill(fill: unknown): string | GradientConfig | null {
+  if (fill === null || fill === undefined) {
+    return null;
+  }
+
+  if (typeof fill === 'string' && fill.trim() !== '') {
+    return fill;
+  }
+
+  const gradient = typeof fill === 'object' ? validateGradient(fill) : null;
+  if (!gradient) {
+    warn(
+      'Invalid fill: expected a CSS color or { angle?: number, stops: string[] }. Using the element background-color.'
+    );
+  }
+
+  return gradient;
+}
+
+/**
+ * Validate shadow config (single shadow or list of layered shadows)
+ * Invalid shadows are dropped with a warning; invalid optional fields are omitted
+ *
+ * @param shadow - User-provided shadow config
+ * @returns Non-empty list of valid shadows, or null for no shadow
+ */
+export function validateShadow(shadow: unknown): ShadowConfig[] | null {
+  if (shadow === null || shadow === undefined) {
+    return null;
+  }
+
+  const isNumber = (value: unknown): value is number =>
+    typeof value === 'number' && isFinite(value);
+
+  const shadows: ShadowConfig[] = [];
+  const list: unknown[] = Array.isArray(shadow) ? shadow : [shadow];
+
+  list.forEach((entry) => {
+    if (entry === null || typeof entry !== 'object') {
+      warn(`Invalid shadow: expected an object, got ${typeof entry}. Shadow ignored.`);
+      return;
+    }
+
+    const { offsetX, offsetY, blur, color } = entry as Record<string, unknown>;
+    const validated: ShadowConfig = {};
+
+    if (isNumber(offsetX)) {
+      validated.offsetX = offsetX;
+    } else if (offsetX !== undefined) {
+      warn(`Invalid shadow offsetX: ${String(offsetX)}. Using 0.`);
+    }
+
+    if (isNumber(offsetY)) {
+      validated.offsetY = offsetY;
+    } else if (offsetY !== undefined) {
+      warn(`Invalid shadow offsetY: ${String(offsetY)}. Using 0.`);
+    }
+
+    if (isNumber(blur) && blur >= 0) {
+      validated.blur = blur;
+    } else if (blur !== undefined) {
+      warn(`Invalid shadow blur: ${String(blur)}. Expected non-negative number. Using 0.`);
+    }
+
+    if (typeof color === 'string' && color.trim() !== '') {
+      validated.color = color;
+    } else if (color !== undefined) {
+      warn(`Invalid shadow color: ${String(color)}. Using the element's text color.`);
+    }
+
+    shadows.push(validated);
+  });
+
+  return shadows.length > 0 ? shadows : null;
+}
+
+/**
+ * Validate focus ring config
+ * `true` enables the ring with defaults; invalid fields are omitted with a warning
+ *
+ * @param focusRing - User-provided focus ring config
+ * @returns Focus ring settings, or null when disabled
+ */
+export function validateFocusRing(focusRing: unknown): FocusRingConfig | null {
+  if (focusRing === null || focusRing === undefined || focusRing === false) {
+    return null;
+  }
+
+  if (focusRing === true) {
+    return {};
+  }
+
+  if (typeof focusRing !== 'object') {
+    warn(`Invalid focusRing: expected boolean or object, got ${typeof focusRing}. Focus ring disabled.`);
+    return null;
+  }
+
+  const { width, color, outlineOffset } = focusRing as Record<string, unknown>;
+  const validated: FocusRingConfig = {};
+
+  if (typeof width === 'number' && isFinite(width) && width > 0) {
+    validated.width = width;
+  } else if (width !== undefined) {
+    warn(`Invalid focusRing width: ${String(width)}. Expected positive number. Using default.`);
+  }
+
+  if (typeof color === 'string' && color.trim() !== '') {
+    validated.color = color;
+  } else if (color !== undefined) {
+    warn(`Invalid focusRing color: ${String(color)}. Using the element's text color.`);
+  }
+
+  if (typeof outlineOffset === 'number' && isFinite(outlineOffset) && outlineOffset >= 0) {
+    validated.outlineOffset = outlineOffset;
+  } else if (outlineOffset !== undefined) {
+    warn(
+      `Invalid focusRing outlineOffset: ${String(outlineOffset)}. Expected non-negative number. Using default.`
+    );
+  }
+
+  return validated;
+}
+
 /**
  * FR-038: Validate element parameter
- * Ensures element is a valid HTMLElement instance
+ * Ensures element is a valid HTMLElement instance of this window or another one
+ * (same-origin iframes and popups)
  *
  * @param element - User-provided element value
  * @returns true if valid HTMLElement, false otherwise
@@ -81,9 +561,9 @@ export function validateSmoothing(smoothing: unknown, defaultSmoothing: number =
  * Security: Prevents prototype pollution by checking instanceof
  */
 export function validateElement(element: unknown): element is HTMLElement {
-  // Check if element is an HTMLElement instance
+  // Check if element is an HTMLElement instance of its own window
   // Using instanceof is safe and prevents prototype pollution
-  if (!(element instanceof HTMLElement)) {
+  if (!isHTMLElement(element)) {
     warn(
       `Invalid element: Expected HTMLElement, got ${typeof element}. Element type: ${
         element?.constructor?.name ?? 'unknown'
@@ -95,6 +575,28 @@ export function validateElement(element: unknown): element is HTMLElement {
   return true;
 }
 
+/**
+ * Validate the root option of applyAll() and auto()
+ * Accepts a Document, ShadowRoot (or other DocumentFragment) or Element
+ *
+ * @param root - User-provided root value
+ * @returns true if root can be searched, false otherwise
+ */
+export function validateRoot(root: unknown): root is ParentNode {
+  // Node types instead of instanceof, so roots from other realms (iframes) work too
+  const nodeType = typeof root === 'object' && root !== null ? (root as Node).nodeType : 0;
+  if (
+    nodeType !== Node.DOCUMENT_NODE &&
+    nodeType !== Node.DOCUMENT_FRAGMENT_NODE &&
+    nodeType !== Node.ELEMENT_NODE
+  ) {
+    warn(`Invalid root: Expected Document, ShadowRoot or Element, got ${typeof root}`);
+    return false;
+  }
+
+  return true;
+}
+
 /**
  * FR-039: Validate and query CSS selector
  * Safely queries the DOM for a single element matching the selector
@@ -124,7 +626,7 @@ export function validateSelector(selector: string): HTMLElement | null {
     }
 
     // Validate it's an HTMLElement (not SVGElement, etc.)
-    if (!(element instanceof HTMLElement)) {
+    if (!isHTMLElement(element)) {
       warn(`Selector "${selector}" matched non-HTML element: ${element.constructor.name}`);
       throw new TypeError(
         `Selector "${selector}" must match an HTMLElement, got ${element.constructor.name}`
@@ -165,15 +667,15 @@ export function validateConfig(config: {
   tier?: unknown;
 }): SquircleConfig {
   const validated: SquircleConfig = {
-    radius: validateRadius(config.radius),
-    smoothing: validateSmoothing(config.smoothing),
+    radius: validateCornerRadius(config.radius),
+    smoothing: validateCornerSmoothing(config.smoothing),
   };
 
   // Validate tier if provided
   if (config.tier !== undefined) {
-    const validTiers = ['native', 'houdini', 'clippath', 'fallback'];
+    const validTiers = ['native', 'houdini', 'clippath', 'mask', 'fallback'];
     if (typeof config.tier === 'string' && validTiers.includes(config.tier)) {
-      validated.tier = config.tier as 'native' | 'houdini' | 'clippath' | 'fallback';
+      validated.tier = config.tier as RendererTier;
     } else {
       warn(
         `Invalid tier: ${config.tier}. Expected one of: ${validTiers.join(', ')}. Tier will be auto-detected.`
@@ -128,6 +128,38 @@ test.describe('Focus Indicators (FR-040, FR-041)', () => {
     // The inline style should still be set
     expect(inlineOutlineOffset).toBe('4px');
   });
+
+  test('should draw a squircle focus ring outside the element on keyboard focus', async ({ page }) => {
+    await page.evaluate(() => {
+      const btn = document.getElementById('focus-button');
+      if (!btn) throw new Error('Button not found');
+      window.ck.apply(btn, { radius: 12, smoothing: 0.6, focusRing: { width: 2, outlineOffset: 3 } });
+    });
+
+    // Keyboard focus matches :focus-visible
+    await page.locator('#focus-button').focus();
+    await page.keyboard.press('Shift+Tab');
+    await page.keyboard.press('Tab');
+
+    const geometry = await page.evaluate(() => {
+      const btn = document.getElementById('focus-button')!;
+      const ring = document.querySelector('[data-squircle-focus-ring]');
+      if (!ring) return null;
+      const a = btn.getBoundingClientRect();
+      const b = ring.getBoundingClientRect();
+      return { dx: a.left - b.left, dy: a.top - b.top, dw: b.width - a.width };
+    });
+
+    // Ring extends outlineOffset + width beyond each edge
+    expect(geometry).not.toBeNull();
+    expect(geometry!.dx).toBeCloseTo(5, 0);
+    expect(geometry!.dy).toBeCloseTo(5, 0);
+    expect(geometry!.dw).toBeCloseTo(10, 0);
+
+    await page.evaluate(() => (document.activeElement as HTMLElement).blur());
+    const ringCount = await page.locator('[data-squircle-focus-ring]').count();
+    expect(ringCount).toBe(0);
+  });
 });
 
 test.describe('Accessibility: Reduced Motion (FR-042)', () => {
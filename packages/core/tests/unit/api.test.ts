@@ -5,8 +5,15 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Window as BrowserWindow } from 'happy-dom';
 import CornerKit from '../../src/index';
-import type { SquircleConfig } from '../../src/core/types';
+import type { Renderer, SquircleConfig } from '../../src/core/types';
+import { CapabilityDetector, RendererTier } from '../../src/core/detector';
+import { generateSuperellipsePath } from '../../src/math/superellipse';
+import { generateAppleSquirclePath } from '../../src/math/apple-squircle';
+import { generateResponsiveClipPath, generateSquirclePath } from '../../src/math/path-generator';
+import { optimizePath } from '../../src/math/path-optimizer';
+import { createSizedElement } from './test-helpers';
 
 describe('CornerKit API - applyAll() and auto()', () => {
   let consoleWarnSpy: ReturnType<typeof vi.spyOn>;
@@ -659,6 +666,526 @@ describe('CornerKit API - applyAll() and auto()', () => {
       const observer = (IntersectionObserver as any).mock.results[0]?.value;
       expect(observer.observe).toHaveBeenCalledWith(offscreen);
     });
+
+    describe('live mode', () => {
+      const createSquircle = (radius?: string, top = 100): HTMLElement => {
+        const element = document.createElement('div');
+        element.setAttribute('data-squircle', '');
+        if (radius !== undefined) {
+          element.setAttribute('data-squircle-radius', radius);
+        }
+        Object.defineProperty(element, 'offsetWidth', { value: 200, configurable: true });
+        Object.defineProperty(element, 'offsetHeight', { value: 100, configurable: true });
+        element.getBoundingClientRect = vi
+          .fn()
+          .mockReturnValue({ top, left: 100, bottom: top + 100, right: 300 });
+        return element;
+      };
+
+      // MutationObserver callbacks run after the current task
+      const flushMutations = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 0));
+
+      let ck: CornerKit;
+
+      beforeEach(() => {
+        ck = new CornerKit();
+      });
+
+      afterEach(() => {
+        // Live observers watch the whole document, so stop them between tests
+        ck.destroy();
+      });
+
+      it('should apply squircles to inserted elements and their descendants', async () => {
+        ck.auto({ live: true });
+
+        const section = document.createElement('section');
+        const card = createSquircle('24');
+        const nested = createSquircle('12');
+        section.appendChild(nested);
+        document.body.append(card, section);
+        await flushMutations();
+
+        expect(ck.inspect(card)?.config.radius).toBe(24);
+        expect(ck.inspect(nested)?.config.radius).toBe(12);
+        expect(card.style.clipPath).toContain('path');
+      });
+
+      it('should lazy-load inserted off-screen elements', async () => {
+        ck.auto({ live: true });
+
+        const element = createSquircle('24', 2000);
+        document.body.appendChild(element);
+        await flushMutations();
+
+        expect(element.style.clipPath).toBe('');
+        const observer = (IntersectionObserver as any).mock.results[0]?.value;
+        expect(observer.observe).toHaveBeenCalledWith(element);
+
+        triggerIntersection(element, true);
+        expect(ck.inspect(element)?.config.radius).toBe(24);
+      });
+
+      it('should re-parse changed data-squircle-* attributes', async () => {
+        ck = new CornerKit({ radius: 16 });
+        const element = createSquircle('24');
+        document.body.appendChild(element);
+        ck.auto({ live: true });
+
+        element.setAttribute('data-squircle-radius', '32');
+        element.setAttribute('data-squircle-smoothing', '0.5');
+        await flushMutations();
+        expect(ck.inspect(element)?.config).toMatchObject({ radius: 32, smoothing: 0.5 });
+
+        // Removed attributes return to the global defaults
+        element.removeAttribute('data-squircle-radius');
+        await flushMutations();
+        expect(ck.inspect(element)?.config.radius).toBe(16);
+      });
+
+      it('should clean up removed nodes but keep moved ones', async () => {
+        const removed = createSquircle('24');
+        const moved = createSquircle('24');
+        const wrapper = document.createElement('div');
+        document.body.append(removed, moved, wrapper);
+        ck.auto({ live: true });
+
+        removed.remove();
+        wrapper.appendChild(moved);
+        await flushMutations();
+
+        expect(ck.inspect(removed)).toBeNull();
+        expect(removed.style.clipPath).toBe('');
+        expect(ck.inspect(moved)).not.toBeNull();
+      });
+
+      it('should follow the data-squircle attribute', async () => {
+        const element = createSquircle('24');
+        document.body.appendChild(element);
+        ck.auto({ live: true });
+
+        element.removeAttribute('data-squircle');
+        await flushMutations();
+        expect(ck.inspect(element)).toBeNull();
+
+        element.setAttribute('data-squircle', '');
+        await flushMutations();
+        expect(ck.inspect(element)?.config.radius).toBe(24);
+      });
+
+      it('should leave elements applied with apply() alone', async () => {
+        const element = createSquircle('24');
+        document.body.appendChild(element);
+        ck.apply(element, { radius: 8 });
+        ck.auto({ live: true });
+
+        element.setAttribute('data-squircle-radius', '32');
+        element.remove();
+        await flushMutations();
+
+        expect(ck.inspect(element)?.config.radius).toBe(8);
+      });
+
+      it('should stop watching on the next auto() call and on destroy()', async () => {
+        ck.auto({ live: true });
+        ck.auto();
+
+        const first = createSquircle('24');
+        document.body.appendChild(first);
+        await flushMutations();
+        expect(ck.inspect(first)).toBeNull();
+
+        ck.auto({ live: true });
+        ck.destroy();
+
+        const second = createSquircle('24');
+        document.body.appendChild(second);
+        await flushMutations();
+        expect(ck.inspect(second)).toBeNull();
+      });
+    });
+  });
+
+  describe('scoped roots', () => {
+    const createSized = (className: string, top = 100): HTMLElement => {
+      const element = document.createElement('div');
+      element.className = className;
+      element.setAttribute('data-squircle', '');
+      Object.defineProperty(element, 'offsetWidth', { value: 200, configurable: true });
+      Object.defineProperty(element, 'offsetHeight', { value: 100, configurable: true });
+      element.getBoundingClientRect = vi
+        .fn()
+        .mockReturnValue({ top, left: 100, bottom: top + 100, right: 300 });
+      return element;
+    };
+
+    const createHost = (...children: HTMLElement[]): ShadowRoot => {
+      const host = document.createElement('div');
+      const shadowRoot = host.attachShadow({ mode: 'open' });
+      shadowRoot.append(...children);
+      document.body.appendChild(host);
+      return shadowRoot;
+    };
+
+    // MutationObserver callbacks run after the current task
+    const flushMutations = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 0));
+
+    it('should resolve applyAll() selectors inside a shadow root', () => {
+      const ck = new CornerKit();
+      const inside = createSized('btn');
+      const outside = createSized('btn');
+      const shadowRoot = createHost(inside);
+      document.body.appendChild(outside);
+
+      ck.applyAll('.btn', { radius: 12 }, { root: shadowRoot });
+
+      expect(ck.inspect(inside)?.config.radius).toBe(12);
+      expect(ck.inspect(outside)).toBeNull();
+    });
+
+    it('should search open shadow roots with deep', () => {
+      const ck = new CornerKit();
+      const nested = createSized('btn');
+      const inner = document.createElement('div');
+      inner.attachShadow({ mode: 'open' }).appendChild(nested);
+      createHost(inner);
+
+      ck.applyAll('.btn', undefined, { deep: true });
+
+      expect(ck.inspect(nested)).not.toBeNull();
+    });
+
+    it('should throw for invalid roots', () => {
+      const ck = new CornerKit();
+
+      expect(() => ck.applyAll('.btn', undefined, { root: '#app' as any })).toThrow(TypeError);
+      expect(() => ck.auto({ root: null as any })).toThrow(
+        'cornerKit: root must be a Document, ShadowRoot or Element'
+      );
+    });
+
+    it('should discover data-squircle elements in the given root only', () => {
+      const ck = new CornerKit();
+      const inside = createSized('card');
+      const outside = createSized('card');
+      const shadowRoot = createHost(inside);
+      document.body.appendChild(outside);
+
+      ck.auto({ root: shadowRoot });
+
+      expect(ck.inspect(inside)).not.toBeNull();
+      expect(ck.inspect(outside)).toBeNull();
+    });
+
+    it('should keep lazy-loading other roots when auto() runs for another root', () => {
+      const ck = new CornerKit();
+      const first = createSized('card', 2000);
+      const second = createSized('card', 2000);
+
+      ck.auto({ root: createHost(first) });
+      ck.auto({ root: createHost(second) });
+
+      const [firstObserver, secondObserver] = vi
+        .mocked(IntersectionObserver)
+        .mock.results.map((result) => result.value);
+      expect(firstObserver.disconnect).not.toHaveBeenCalled();
+      expect(firstObserver.observe).toHaveBeenCalledWith(first);
+      expect(secondObserver.observe).toHaveBeenCalledWith(second);
+    });
+
+    it('should watch shadow roots in live deep mode', async () => {
+      const ck = new CornerKit();
+      const shadowRoot = createHost();
+      ck.auto({ live: true, deep: true });
+
+      // Inserted into an existing shadow root
+      const card = createSized('card');
+      shadowRoot.appendChild(card);
+
+      // Inside a newly inserted component
+      const nested = createSized('card');
+      createHost(nested);
+      await flushMutations();
+
+      expect(ck.inspect(card)).not.toBeNull();
+      expect(ck.inspect(nested)).not.toBeNull();
+
+      ck.destroy();
+    });
+  });
+
+  describe('cross-realm elements', () => {
+    let frame: BrowserWindow;
+
+    const createFrameElement = (top = 100): HTMLElement => {
+      const element = frame.document.createElement('div') as unknown as HTMLElement;
+      element.setAttribute('data-squircle', '');
+      Object.defineProperty(element, 'offsetWidth', { value: 200, configurable: true });
+      Object.defineProperty(element, 'offsetHeight', { value: 100, configurable: true });
+      element.getBoundingClientRect = vi
+        .fn()
+        .mockReturnValue({ top, left: 100, bottom: top + 100, right: 300 });
+      frame.document.body.appendChild(element as unknown as Node);
+      return element;
+    };
+
+    beforeEach(() => {
+      // An iframe or popup window: its elements are not instances of this window's HTMLElement
+      frame = new BrowserWindow();
+      Object.assign(frame, {
+        ResizeObserver: vi.fn().mockImplementation(() => ({
+          observe: vi.fn(),
+          unobserve: vi.fn(),
+          disconnect: vi.fn(),
+        })),
+        IntersectionObserver: vi.fn().mockImplementation(() => ({
+          observe: vi.fn(),
+          unobserve: vi.fn(),
+          disconnect: vi.fn(),
+        })),
+      });
+      vi.stubGlobal('HTMLElement', class ForeignHTMLElement {});
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      frame.close();
+    });
+
+    it("should apply squircles and observe resizes from the element's window", () => {
+      const ck = new CornerKit();
+      const element = createFrameElement();
+
+      ck.apply(element, { radius: 20, tier: RendererTier.CLIPPATH });
+
+      expect(element.style.clipPath).toContain('path');
+      expect(frame.ResizeObserver).toHaveBeenCalled();
+      expect(global.ResizeObserver).not.toHaveBeenCalled();
+      expect(ck.inspect(element)).not.toBeNull();
+    });
+
+    it("should discover elements in the frame's document", () => {
+      const ck = new CornerKit();
+      const visible = createFrameElement();
+      const offscreen = createFrameElement(2000);
+
+      ck.auto({ root: frame.document as unknown as Document });
+
+      expect(ck.inspect(visible)).not.toBeNull();
+      expect(frame.IntersectionObserver).toHaveBeenCalled();
+      expect(IntersectionObserver).not.toHaveBeenCalled();
+      const observer = vi.mocked(frame.IntersectionObserver).mock.results[0]?.value;
+      expect(observer.observe).toHaveBeenCalledWith(offscreen);
+    });
+  });
+
+  describe('SquircleHandle', () => {
+    it('should update, inspect and remove the element it was applied to', () => {
+      const ck = new CornerKit();
+      const element = createSizedElement(200, 100);
+
+      const handle = ck.apply(element, { radius: 20, tier: RendererTier.CLIPPATH });
+      expect(handle.element).toBe(element);
+
+      handle.update({ radius: 32 });
+      expect(handle.inspect()).toMatchObject({ config: { radius: 32 }, paused: false });
+
+      handle.remove();
+      expect(handle.inspect()).toBeNull();
+      expect(element.style.clipPath).toBe('');
+
+      // Cleanups may run after the element was removed
+      expect(() => handle.remove()).not.toThrow();
+    });
+
+    it('should remove the squircle on Symbol.dispose', () => {
+      const ck = new CornerKit();
+      const element = createSizedElement(200, 100);
+
+      const handle = ck.apply(element, { tier: RendererTier.CLIPPATH });
+      handle[Symbol.dispose]();
+
+      expect(ck.inspect(element)).toBeNull();
+
+      // Disposing after destroy() is a no-op
+      const second = ck.apply(element, { tier: RendererTier.CLIPPATH });
+      ck.destroy();
+      expect(() => second[Symbol.dispose]()).not.toThrow();
+    });
+
+    it('should key dispose on the registered symbol without Symbol.dispose', async () => {
+      // Symbol.dispose cannot be deleted, so the module is loaded with a Symbol without it
+      const NativeSymbol = Symbol;
+      vi.stubGlobal(
+        'Symbol',
+        new Proxy(Object.create(null) as SymbolConstructor, {
+          get: (_target, key) => (key === 'dispose' ? undefined : Reflect.get(NativeSymbol, key)),
+        })
+      );
+      vi.resetModules();
+      const { default: LegacyCornerKit } = await import('../../src/index').finally(() =>
+        vi.unstubAllGlobals()
+      );
+
+      const ck = new LegacyCornerKit();
+      const handle = ck.apply(createSizedElement(200, 100), { tier: RendererTier.CLIPPATH });
+
+      expect(Object.keys(handle)).not.toContain('undefined');
+      const dispose = (handle as unknown as Record<symbol, () => void>)[
+        Symbol.for('Symbol.dispose')
+      ];
+      dispose?.();
+      expect(handle.inspect()).toBeNull();
+    });
+
+    it('should stop re-rendering on resize while paused', () => {
+      const ck = new CornerKit();
+      const element = createSizedElement(200, 100);
+
+      const handle = ck.apply(element, { radius: 20, smoothing: 0.6, tier: RendererTier.CLIPPATH });
+      const observer = vi.mocked(global.ResizeObserver).mock.results[0]?.value;
+
+      handle.pause();
+      expect(observer.disconnect).toHaveBeenCalled();
+      expect(handle.inspect()?.paused).toBe(true);
+
+      // Resumed elements catch up with the current size
+      Object.defineProperty(element, 'offsetWidth', { value: 300, configurable: true });
+      handle.resume();
+      expect(observer.observe).toHaveBeenLastCalledWith(element);
+      expect(element.style.clipPath).toBe(`path('${generateSquirclePath(300, 100, 20, 0.6)}')`);
+      expect(handle.inspect()).toMatchObject({
+        dimensions: { width: 300, height: 100 },
+        paused: false,
+      });
+    });
+
+    it('should throw when pausing unmanaged elements', () => {
+      const ck = new CornerKit();
+      const element = createSizedElement(200, 100);
+
+      expect(() => ck.pause(element)).toThrow('not managed');
+      expect(() => ck.resume(element)).toThrow('not managed');
+    });
+  });
+
+  describe('signal', () => {
+    const createElement = (top = 100): HTMLElement => {
+      const element = createSizedElement(200, 100);
+      element.getBoundingClientRect = vi
+        .fn()
+        .mockReturnValue({ top, left: 100, bottom: top + 100, right: 300 });
+      return element;
+    };
+
+    it('should remove the squircle and disconnect its observer when the signal aborts', () => {
+      const ck = new CornerKit();
+      const element = createElement();
+      const controller = new AbortController();
+      const { signal } = controller;
+
+      const handle = ck.apply(element, { tier: RendererTier.CLIPPATH }, { signal });
+      const observer = vi.mocked(global.ResizeObserver).mock.results[0]?.value;
+      expect(element.style.clipPath).toContain('path(');
+
+      controller.abort();
+
+      expect(handle.inspect()).toBeNull();
+      expect(element.style.clipPath).toBe('');
+      expect(observer.disconnect).toHaveBeenCalled();
+    });
+
+    it('should apply nothing for an aborted signal', () => {
+      const ck = new CornerKit();
+      const element = createElement();
+
+      const handle = ck.apply(element, undefined, { signal: AbortSignal.abort() });
+      ck.applyAll('div', undefined, { signal: AbortSignal.abort() });
+      element.setAttribute('data-squircle', '');
+      ck.auto({ signal: AbortSignal.abort() });
+
+      expect(handle.element).toBe(element);
+      expect(handle.inspect()).toBeNull();
+      expect(global.ResizeObserver).not.toHaveBeenCalled();
+    });
+
+    it('should stop listening once the element is removed or applied again', () => {
+      const ck = new CornerKit();
+      const element = createElement();
+      const first = new AbortController();
+      const second = new AbortController();
+      const removeListener = vi.spyOn(first.signal, 'removeEventListener');
+
+      ck.apply(element, undefined, { signal: first.signal });
+      ck.apply(element, { radius: 32 }, { signal: second.signal });
+      expect(removeListener).toHaveBeenCalledWith('abort', expect.any(Function));
+
+      // Only the latest apply() decides when the squircle is removed
+      first.abort();
+      expect(ck.inspect(element)?.config.radius).toBe(32);
+
+      ck.remove(element);
+      ck.apply(element);
+      second.abort();
+      expect(ck.inspect(element)).not.toBeNull();
+    });
+
+    it('should remove every squircle of applyAll()', () => {
+      const ck = new CornerKit();
+      const elements = [createElement(), createElement()];
+      elements.forEach((element) => element.classList.add('card'));
+      const controller = new AbortController();
+
+      ck.applyAll('.card', undefined, { signal: controller.signal });
+      expect(elements.map((element) => ck.inspect(element))).not.toContain(null);
+
+      controller.abort();
+      expect(elements.map((element) => ck.inspect(element))).toEqual([null, null]);
+    });
+
+    it('should stop auto() and remove its squircles', async () => {
+      const ck = new CornerKit();
+      const visible = createElement();
+      const offscreen = createElement(5000);
+      visible.setAttribute('data-squircle', '');
+      offscreen.setAttribute('data-squircle', '');
+      const controller = new AbortController();
+
+      ck.auto({ live: true, signal: controller.signal });
+      const lazyObserver = vi.mocked(global.IntersectionObserver).mock.results[0]?.value;
+      expect(ck.inspect(visible)).not.toBeNull();
+
+      // Lazily applied elements are removed as well
+      lazyObserver._callback([{ isIntersecting: true, target: offscreen }]);
+      expect(ck.inspect(offscreen)).not.toBeNull();
+
+      controller.abort();
+      expect(ck.inspect(visible)).toBeNull();
+      expect(ck.inspect(offscreen)).toBeNull();
+      expect(lazyObserver.disconnect).toHaveBeenCalled();
+
+      // The live observer is disconnected too
+      const inserted = createElement();
+      inserted.setAttribute('data-squircle', '');
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(ck.inspect(inserted)).toBeNull();
+    });
+
+    it('should not stop a later auto() of the same root', async () => {
+      const ck = new CornerKit();
+      const controller = new AbortController();
+
+      ck.auto({ live: true, signal: controller.signal });
+      ck.auto({ live: true });
+      controller.abort();
+
+      const inserted = createElement();
+      inserted.setAttribute('data-squircle', '');
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(ck.inspect(inserted)).not.toBeNull();
+
+      ck.destroy();
+    });
   });
 
   // T205-T212: update() method tests
@@ -791,6 +1318,50 @@ describe('CornerKit API - applyAll() and auto()', () => {
       expect(updatedClipPath).not.toBe(initialClipPath);
     });
 
+    it('should merge per-corner radius with the current values', () => {
+      const ck = new CornerKit({ radius: 20 });
+      const element = document.createElement('div');
+
+      Object.defineProperty(element, 'offsetWidth', { value: 200, configurable: true });
+      Object.defineProperty(element, 'offsetHeight', { value: 100, configurable: true });
+
+      // Omitted corners inherit the global radius
+      ck.apply(element, { radius: { topLeft: 32, topRight: 32 } });
+      expect(ck.inspect(element)?.config.radius).toEqual({
+        topLeft: 32,
+        topRight: 32,
+        bottomRight: 20,
+        bottomLeft: 20,
+      });
+
+      // Omitted corners keep their current values
+      ck.update(element, { radius: { bottomLeft: 0, bottomRight: 0 } });
+      expect(ck.inspect(element)?.config.radius).toEqual({
+        topLeft: 32,
+        topRight: 32,
+        bottomRight: 0,
+        bottomLeft: 0,
+      });
+    });
+
+    it('should add and remove a stroke through update()', () => {
+      const ck = new CornerKit();
+      const element = document.createElement('div');
+
+      Object.defineProperty(element, 'offsetWidth', { value: 200, configurable: true });
+      Object.defineProperty(element, 'offsetHeight', { value: 100, configurable: true });
+
+      ck.apply(element);
+      expect(element.style.getPropertyValue('background-image')).toBe('');
+
+      ck.update(element, { stroke: { width: 2, color: 'red' } });
+      expect(element.style.getPropertyValue('background-image')).toContain('data:image/svg+xml');
+      expect(ck.inspect(element)?.config.stroke).toEqual({ width: 2, color: 'red' });
+
+      ck.update(element, { stroke: null });
+      expect(element.style.getPropertyValue('background-image')).toBe('');
+    });
+
     it('should update both radius and smoothing together', () => {
       const ck = new CornerKit();
       const element = document.createElement('div');
@@ -939,6 +1510,21 @@ describe('CornerKit API - applyAll() and auto()', () => {
       expect(element.style.clipPath).toBe('');
     });
 
+    it('should remove the stroke layer and restore backgrounds', () => {
+      const ck = new CornerKit({ stroke: { width: 1, color: 'black' } });
+      const element = document.createElement('div');
+      element.style.backgroundImage = 'linear-gradient(red, blue)';
+
+      Object.defineProperty(element, 'offsetWidth', { value: 200, configurable: true });
+      Object.defineProperty(element, 'offsetHeight', { value: 100, configurable: true });
+
+      ck.apply(element);
+      expect(element.style.getPropertyValue('background-image')).toContain('data:image/svg+xml');
+
+      ck.remove(element);
+      expect(element.style.getPropertyValue('background-image')).toBe('linear-gradient(red, blue)');
+    });
+
     it('should restore element to original state (T256 integration test)', () => {
       const ck = new CornerKit();
       const element = document.createElement('div');
@@ -1299,6 +1885,21 @@ describe('CornerKit API - applyAll() and auto()', () => {
       expect(info2.config.radius).toBe(20);
     });
 
+    it('should return copy of per-corner config objects', () => {
+      const ck = new CornerKit();
+      const element = document.createElement('div');
+
+      Object.defineProperty(element, 'offsetWidth', { value: 200, configurable: true });
+      Object.defineProperty(element, 'offsetHeight', { value: 100, configurable: true });
+
+      ck.apply(element, { radius: { topLeft: 10, topRight: 10, bottomRight: 0, bottomLeft: 0 } });
+
+      const info = ck.inspect(element);
+      (info.config.radius as { topLeft: number }).topLeft = 999;
+
+      expect((ck.inspect(element).config.radius as { topLeft: number }).topLeft).toBe(10);
+    });
+
     it('should work correctly in User Story 3 acceptance scenario 1 (T267)', () => {
       // US3 Scenario 1: Developer inspects button to verify configuration
       const ck = new CornerKit({ radius: 20, smoothing: 0.85 });
@@ -1322,4 +1923,958 @@ describe('CornerKit API - applyAll() and auto()', () => {
       expect(info.dimensions.height).toBe(50);
     });
   });
+
+  describe('tier dispatch', () => {
+    it('should render NATIVE tier with corner-shape instead of clip-path', () => {
+      const ck = new CornerKit();
+      const element = document.createElement('div');
+
+      Object.defineProperty(element, 'offsetWidth', { value: 200, configurable: true });
+      Object.defineProperty(element, 'offsetHeight', { value: 100, configurable: true });
+
+      ck.apply(element, { radius: 20, smoothing: 0.5, tier: RendererTier.NATIVE });
+
+      expect(element.style.clipPath).toBe('');
+      expect(element.style.borderRadius).toBe('30px');
+      expect(element.style.getPropertyValue('corner-shape')).not.toBe('');
+      expect(ck.inspect(element)?.tier).toBe('native');
+      expect(global.ResizeObserver).not.toHaveBeenCalled();
+
+      ck.remove(element);
+      expect(element.style.getPropertyValue('corner-shape')).toBe('');
+      expect(element.style.borderRadius).toBe('');
+    });
+
+    it('should restore the original inline border-radius on remove()', () => {
+      const ck = new CornerKit();
+      const element = document.createElement('div');
+      element.style.borderRadius = '8px';
+
+      ck.apply(element, { radius: 20, smoothing: 0, tier: RendererTier.FALLBACK });
+      expect(element.style.borderRadius).toBe('20px');
+
+      ck.remove(element);
+      expect(element.style.borderRadius).toBe('8px');
+    });
+
+    it('should render MASK tier with an SVG mask-image instead of clip-path', () => {
+      const ck = new CornerKit();
+      const element = document.createElement('div');
+
+      Object.defineProperty(element, 'offsetWidth', { value: 200, configurable: true });
+      Object.defineProperty(element, 'offsetHeight', { value: 100, configurable: true });
+
+      ck.apply(element, { radius: 20, tier: RendererTier.MASK });
+
+      expect(element.style.clipPath).toBe('');
+      expect(element.style.getPropertyValue('mask-image')).toContain('data:image/svg+xml');
+      expect(ck.inspect(element)?.tier).toBe('mask');
+      expect(global.ResizeObserver).toHaveBeenCalled();
+
+      const before = element.style.getPropertyValue('mask-image');
+      ck.update(element, { radius: 40 });
+      expect(element.style.getPropertyValue('mask-image')).not.toBe(before);
+
+      ck.remove(element);
+      expect(element.style.getPropertyValue('mask-image')).toBe('');
+    });
+
+    it('should paint a background squircle in background mode regardless of tier', () => {
+      const ck = new CornerKit();
+      const element = document.createElement('div');
+      element.style.backgroundColor = 'rgb(0, 0, 255)';
+
+      Object.defineProperty(element, 'offsetWidth', { value: 200, configurable: true });
+      Object.defineProperty(element, 'offsetHeight', { value: 100, configurable: true });
+
+      ck.apply(element, { mode: 'background', tier: RendererTier.NATIVE });
+
+      expect(element.style.clipPath).toBe('');
+      expect(element.style.getPropertyValue('corner-shape')).toBe('');
+      expect(element.style.getPropertyValue('background-image')).toContain('data:image/svg+xml');
+      expect(ck.inspect(element)?.config.mode).toBe('background');
+
+      ck.update(element, { fill: { stops: ['red', 'blue'] } });
+      expect(decodeURIComponent(element.style.getPropertyValue('background-image'))).toContain(
+        '<linearGradient'
+      );
+
+      ck.remove(element);
+      expect(element.style.getPropertyValue('background-image')).toBe('');
+      expect(element.style.backgroundColor).toBe('rgb(0, 0, 255)');
+    });
+
+    it('should warn and keep the renderer when update() changes mode', () => {
+      const ck = new CornerKit();
+      const element = document.createElement('div');
+
+      Object.defineProperty(element, 'offsetWidth', { value: 200, configurable: true });
+      Object.defineProperty(element, 'offsetHeight', { value: 100, configurable: true });
+
+      ck.apply(element);
+      ck.update(element, { mode: 'background' });
+
+      expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('mode cannot be changed'));
+      expect(element.style.clipPath).toContain('path');
+    });
+
+    it('should restore the background when apply() switches back to clip mode', () => {
+      const ck = new CornerKit();
+      const element = createSizedElement(200, 100);
+      element.style.backgroundColor = 'rgb(0, 0, 255)';
+
+      ck.apply(element, { mode: 'background', tier: RendererTier.CLIPPATH });
+      expect(element.style.getPropertyValue('background-image')).toContain('data:image/svg+xml');
+
+      ck.apply(element, { tier: RendererTier.CLIPPATH });
+      expect(ck.inspect(element)?.config.mode).toBeUndefined();
+      expect(element.style.clipPath).toContain('path');
+      expect(element.style.getPropertyValue('background-image')).toBe('');
+      expect(element.style.backgroundColor).toBe('rgb(0, 0, 255)');
+
+      ck.remove(element);
+      expect(element.style.getPropertyValue('background-image')).toBe('');
+      expect(element.style.backgroundColor).toBe('rgb(0, 0, 255)');
+    });
+
+    it('should prefer a path tier for strokes when auto-detecting', () => {
+      // @ts-expect-error - Accessing private static property for testing
+      CapabilityDetector.instance = null;
+      vi.mocked(CSS.supports).mockImplementation(
+        (property: string) => property === 'corner-shape' || property === 'clip-path'
+      );
+
+      const ck = new CornerKit();
+      const element = createSizedElement(200, 100);
+      ck.apply(element, { stroke: { width: 2, color: 'red' } });
+
+      expect(ck.inspect(element)?.tier).toBe('clippath');
+      expect(element.style.getPropertyValue('background-image')).toContain('data:image/svg+xml');
+
+      // @ts-expect-error - Accessing private static property for testing
+      CapabilityDetector.instance = null;
+    });
+
+    it('should warn when a forced tier cannot draw strokes', () => {
+      const ck = new CornerKit();
+      const element = document.createElement('div');
+
+      ck.apply(element, { stroke: { width: 2 }, tier: RendererTier.NATIVE });
+      expect(consoleWarnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('native tier cannot draw strokes')
+      );
+
+      consoleWarnSpy.mockClear();
+      ck.update(element, { stroke: { width: 4 } });
+      expect(consoleWarnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('native tier cannot draw strokes')
+      );
+    });
+
+    it('should render HOUDINI tier with paint worklet mask instead of clip-path', () => {
+      (global.CSS as any).paintWorklet = { addModule: vi.fn(() => Promise.resolve()) };
+      const ck = new CornerKit();
+      const element = document.createElement('div');
+
+      Object.defineProperty(element, 'offsetWidth', { value: 200, configurable: true });
+      Object.defineProperty(element, 'offsetHeight', { value: 100, configurable: true });
+
+      ck.apply(element, { radius: 24, tier: RendererTier.HOUDINI });
+
+      expect(element.style.clipPath).toBe('');
+      expect(element.style.getPropertyValue('--squircle-radius')).toBe('24px');
+      expect(ck.inspect(element)?.tier).toBe('houdini');
+      expect(global.ResizeObserver).not.toHaveBeenCalled();
+
+      ck.update(element, { radius: 32 });
+      expect(element.style.getPropertyValue('--squircle-radius')).toBe('32px');
+
+      ck.remove(element);
+      expect(element.style.getPropertyValue('--squircle-radius')).toBe('');
+      expect(ck.inspect(element)).toBeNull();
+    });
+
+    it('should remove the previous tier when apply() switches tiers', () => {
+      const ck = new CornerKit();
+      const element = createSizedElement(200, 100);
+      element.style.borderRadius = '8px';
+
+      ck.apply(element, { radius: 20, tier: RendererTier.FALLBACK });
+      expect(element.style.borderRadius).not.toBe('8px');
+
+      ck.apply(element, { radius: 20, tier: RendererTier.CLIPPATH });
+      expect(ck.inspect(element)?.tier).toBe('clippath');
+      expect(element.style.clipPath).toContain('path');
+      expect(element.style.borderRadius).toBe('8px');
+
+      ck.remove(element);
+      expect(element.style.clipPath).toBe('');
+      expect(element.style.borderRadius).toBe('8px');
+    });
+  });
+
+  describe('registerRenderer()', () => {
+    const createRenderer = (): Renderer => ({
+      supports: vi.fn(() => true),
+      apply: vi.fn((element: HTMLElement) => {
+        element.dataset.canvas = 'on';
+      }),
+      update: vi.fn(),
+      remove: vi.fn((element: HTMLElement) => {
+        delete element.dataset.canvas;
+      }),
+    });
+
+    afterEach(() => {
+      // Drop registered tiers from detection
+      // @ts-expect-error - Accessing private static property for testing
+      CapabilityDetector.instance = null;
+    });
+
+    it('should dispatch apply, update and remove to a forced custom renderer', () => {
+      const renderer = createRenderer();
+      CornerKit.registerRenderer('canvas-forced', renderer, { priority: -1 });
+
+      const ck = new CornerKit();
+      const element = document.createElement('div');
+      element.style.transition = 'opacity 1s';
+
+      ck.apply(element, { radius: 24, tier: 'canvas-forced' });
+
+      expect(renderer.apply).toHaveBeenCalledWith(
+        element,
+        expect.objectContaining({ radius: 24 }),
+        expect.objectContaining({ options: { reducedMotion: false } })
+      );
+      expect(element.dataset.canvas).toBe('on');
+      expect(element.style.clipPath).toBe('');
+      expect(ck.inspect(element)?.tier).toBe('canvas-forced');
+
+      ck.update(element, { radius: 32 });
+      expect(renderer.update).toHaveBeenCalledWith(
+        element,
+        expect.objectContaining({ radius: 32 })
+      );
+
+      ck.remove(element);
+      expect(renderer.remove).toHaveBeenCalledWith(
+        element,
+        expect.objectContaining({ transition: 'opacity 1s' })
+      );
+      expect(element.dataset.canvas).toBeUndefined();
+    });
+
+    it('should pass a context with current config and dimension reporting', () => {
+      const renderer = createRenderer();
+      CornerKit.registerRenderer('canvas-context', renderer, { priority: -1 });
+
+      const ck = new CornerKit();
+      const element = document.createElement('div');
+      ck.apply(element, { radius: 24, tier: 'canvas-context' });
+
+      const context = vi.mocked(renderer.apply).mock.calls[0][2];
+      ck.update(element, { radius: 40 });
+      context.onDimensionUpdate(320, 180);
+
+      expect(context.getConfig().radius).toBe(40);
+      expect(ck.inspect(element)?.dimensions).toEqual({ width: 320, height: 180 });
+    });
+
+    it('should disconnect a ResizeObserver returned by the renderer on remove()', () => {
+      const observer = { observe: vi.fn(), unobserve: vi.fn(), disconnect: vi.fn() };
+      const renderer = createRenderer();
+      vi.mocked(renderer.apply).mockReturnValue(observer);
+      CornerKit.registerRenderer('canvas-observer', renderer, { priority: -1 });
+
+      const ck = new CornerKit();
+      const element = document.createElement('div');
+      ck.apply(element, { tier: 'canvas-observer' });
+      ck.remove(element);
+
+      expect(observer.disconnect).toHaveBeenCalled();
+    });
+
+    it('should use a supported custom renderer in auto-detection by priority', () => {
+      // @ts-expect-error - Accessing private static property for testing
+      CapabilityDetector.instance = null;
+      const renderer = createRenderer();
+      CornerKit.registerRenderer('canvas-auto', renderer);
+
+      const ck = new CornerKit();
+      const element = document.createElement('div');
+      ck.apply(element);
+
+      expect(renderer.supports).toHaveBeenCalled();
+      expect(ck.inspect(element)?.tier).toBe('canvas-auto');
+    });
+
+    it('should warn and auto-detect for an unregistered tier name', () => {
+      const ck = new CornerKit();
+      const element = document.createElement('div');
+
+      ck.apply(element, { tier: 'not-registered' });
+
+      expect(ck.inspect(element)?.tier).toBe('clippath');
+      expect(consoleWarnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Unknown renderer tier "not-registered"')
+      );
+    });
+
+    it('should reject invalid names and incomplete renderers', () => {
+      const renderer = createRenderer();
+
+      expect(() => CornerKit.registerRenderer('', renderer)).toThrow(TypeError);
+      expect(() => CornerKit.registerRenderer('clippath', renderer)).toThrow(/reserved/);
+      expect(() =>
+        CornerKit.registerRenderer('partial', { supports: () => true } as unknown as Renderer)
+      ).toThrow(/must implement apply, update, remove/);
+      expect(() =>
+        CornerKit.registerRenderer('canvas-nan', renderer, { priority: NaN })
+      ).toThrow(/priority/);
+    });
+  });
+
+  describe('shape', () => {
+    const triangle = (width: number, height: number): string =>
+      `M 0,0 L ${width},0 L 0,${height} Z`;
+
+    it('should render a shape function on the clip-path tier', () => {
+      const ck = new CornerKit();
+      const element = createSizedElement(100, 50);
+
+      ck.apply(element, { shape: triangle });
+
+      expect(element.style.clipPath).toBe("path('M 0,0 L 100,0 L 0,50 Z')");
+    });
+
+    it('should render registered shapes by name, inherited from the global config', () => {
+      CornerKit.registerShape('triangle', triangle);
+      const ck = new CornerKit({ shape: 'triangle' });
+      const element = createSizedElement(100, 50);
+
+      ck.apply(element);
+      expect(element.style.clipPath).toBe("path('M 0,0 L 100,0 L 0,50 Z')");
+
+      // null returns to the squircle
+      ck.update(element, { shape: null });
+      expect(element.style.clipPath).toContain(' c ');
+    });
+
+    it('should prefer a path tier over native corner-shape when auto-detecting', () => {
+      // @ts-expect-error - Accessing private static property for testing
+      CapabilityDetector.instance = null;
+      vi.mocked(CSS.supports).mockImplementation(
+        (property: string) => property === 'corner-shape' || property === 'clip-path'
+      );
+
+      const ck = new CornerKit();
+      const plain = createSizedElement(100, 50);
+      const shaped = createSizedElement(100, 50);
+      ck.apply(plain);
+      ck.apply(shaped, { shape: triangle });
+
+      expect(ck.inspect(plain)?.tier).toBe('native');
+      expect(ck.inspect(shaped)?.tier).toBe('clippath');
+
+      // @ts-expect-error - Accessing private static property for testing
+      CapabilityDetector.instance = null;
+    });
+
+    it('should warn when a forced tier cannot draw shapes', () => {
+      const ck = new CornerKit();
+      const element = createSizedElement(100, 50);
+
+      ck.apply(element, { shape: triangle, tier: RendererTier.FALLBACK });
+
+      expect(ck.inspect(element)?.tier).toBe('fallback');
+      expect(consoleWarnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('fallback tier cannot draw custom shapes')
+      );
+    });
+
+    it('should reject invalid shape registrations', () => {
+      expect(() => CornerKit.registerShape('', triangle)).toThrow(TypeError);
+      expect(() => CornerKit.registerShape('squircle', triangle)).toThrow(/reserved/);
+      expect(() =>
+        CornerKit.registerShape('bad', 'M 0,0 Z' as unknown as typeof triangle)
+      ).toThrow(/must be a function/);
+    });
+  });
+
+  describe('algorithm', () => {
+    it('should inherit preserveSmoothing and switch it with update()', () => {
+      const ck = new CornerKit({ preserveSmoothing: true });
+      const element = createSizedElement(100, 50);
+
+      ck.apply(element, { radius: 25, smoothing: 0.8 });
+      expect(element.style.clipPath).toBe(
+        `path('${generateSquirclePath(100, 50, 25, 0.8, { preserveSmoothing: true })}')`
+      );
+
+      ck.update(element, { preserveSmoothing: false });
+      expect(element.style.clipPath).toBe(`path('${generateSquirclePath(100, 50, 25, 0.8)}')`);
+    });
+
+    it('should draw superellipse corners with the exponent override', () => {
+      const ck = new CornerKit();
+      const element = createSizedElement(100, 50);
+
+      ck.apply(element, { radius: 20, algorithm: 'superellipse', exponent: 5 });
+
+      expect(element.style.clipPath).toBe(`path('${generateSuperellipsePath(100, 50, 20, 5)}')`);
+      expect(ck.inspect(element)?.config).toMatchObject({ algorithm: 'superellipse', exponent: 5 });
+    });
+
+    it('should inherit the algorithm and return to smoothing when exponent is null', () => {
+      const ck = new CornerKit({ algorithm: 'superellipse', exponent: 5 });
+      const element = createSizedElement(100, 50);
+
+      ck.apply(element, { radius: 20, smoothing: 0 });
+      expect(element.style.clipPath).toBe(`path('${generateSuperellipsePath(100, 50, 20, 5)}')`);
+
+      ck.update(element, { exponent: null });
+      expect(element.style.clipPath).toBe(`path('${generateSuperellipsePath(100, 50, 20, 2)}')`);
+
+      ck.update(element, { algorithm: 'figma' });
+      expect(element.style.clipPath).not.toContain(' C ');
+    });
+
+    it('should prefer a path tier over houdini but keep native corner-shape', () => {
+      (global.CSS as any).paintWorklet = { addModule: vi.fn(() => Promise.resolve()) };
+      // @ts-expect-error - Accessing private static property for testing
+      CapabilityDetector.instance = null;
+
+      const ck = new CornerKit();
+      const houdini = createSizedElement(100, 50);
+      ck.apply(houdini, { algorithm: 'superellipse' });
+      expect(ck.inspect(houdini)?.tier).toBe('clippath');
+
+      // @ts-expect-error - Accessing private static property for testing
+      CapabilityDetector.instance = null;
+      vi.mocked(CSS.supports).mockImplementation(
+        (property: string) => property === 'corner-shape' || property === 'clip-path'
+      );
+
+      const native = createSizedElement(100, 50);
+      new CornerKit().apply(native, { algorithm: 'superellipse' });
+      expect(native.style.getPropertyValue('corner-shape')).toMatch(/^superellipse\(/);
+
+      // @ts-expect-error - Accessing private static property for testing
+      CapabilityDetector.instance = null;
+    });
+
+    it('should prefer a path tier over native corner-shape for Apple corners', () => {
+      // @ts-expect-error - Accessing private static property for testing
+      CapabilityDetector.instance = null;
+      vi.mocked(CSS.supports).mockImplementation(
+        (property: string) => property === 'corner-shape' || property === 'clip-path'
+      );
+
+      const ck = new CornerKit();
+      const element = createSizedElement(100, 50);
+      ck.apply(element, { radius: 20, algorithm: 'apple' });
+
+      expect(ck.inspect(element)?.tier).toBe('clippath');
+      expect(element.style.clipPath).toBe(`path('${generateAppleSquirclePath(100, 50, 20)}')`);
+
+      // @ts-expect-error - Accessing private static property for testing
+      CapabilityDetector.instance = null;
+    });
+
+    it('should warn when a forced native tier cannot draw Apple corners', () => {
+      const ck = new CornerKit();
+      const element = createSizedElement(100, 50);
+
+      ck.apply(element, { algorithm: 'apple', tier: RendererTier.NATIVE });
+
+      expect(consoleWarnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('native tier cannot draw Apple continuous corners')
+      );
+    });
+
+    it('should warn when a forced tier cannot draw superellipse corners', () => {
+      const ck = new CornerKit();
+      const element = createSizedElement(100, 50);
+
+      ck.apply(element, { tier: RendererTier.FALLBACK });
+      ck.update(element, { algorithm: 'superellipse' });
+
+      expect(ck.inspect(element)?.tier).toBe('fallback');
+      expect(consoleWarnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('fallback tier cannot draw superellipse corners')
+      );
+    });
+  });
+
+  describe('radiusY', () => {
+    it('should inherit radiusY and return to circular corners when set to null', () => {
+      const ck = new CornerKit({ radiusY: 20 });
+      const element = createSizedElement(200, 100);
+
+      ck.apply(element, { radius: 40, smoothing: 0.6 });
+      expect(element.style.clipPath).toBe(
+        `path('${generateSquirclePath(200, 100, 40, 0.6, { radiusY: 20 })}')`
+      );
+      expect(ck.inspect(element)?.config.radiusY).toBe(20);
+
+      ck.update(element, { radiusY: null });
+      expect(element.style.clipPath).toBe(`path('${generateSquirclePath(200, 100, 40, 0.6)}')`);
+    });
+
+    it('should merge per-corner radiusY on update()', () => {
+      const ck = new CornerKit();
+      const element = createSizedElement(200, 100);
+
+      ck.apply(element, { radius: 40, radiusY: 20 });
+      ck.update(element, { radiusY: { topLeft: 10 } });
+
+      expect(ck.inspect(element)?.config.radiusY).toEqual({
+        topLeft: 10,
+        topRight: 20,
+        bottomRight: 20,
+        bottomLeft: 20,
+      });
+    });
+
+    it('should prefer a path tier over houdini', () => {
+      (global.CSS as any).paintWorklet = { addModule: vi.fn(() => Promise.resolve()) };
+      // @ts-expect-error - Accessing private static property for testing
+      CapabilityDetector.instance = null;
+
+      const ck = new CornerKit();
+      const element = createSizedElement(200, 100);
+      ck.apply(element, { radius: 40, radiusY: 20 });
+
+      expect(ck.inspect(element)?.tier).toBe('clippath');
+
+      // @ts-expect-error - Accessing private static property for testing
+      CapabilityDetector.instance = null;
+    });
+
+    it('should warn when a forced houdini tier cannot draw elliptical corners', () => {
+      const ck = new CornerKit();
+      const element = createSizedElement(200, 100);
+
+      ck.apply(element, { radius: 40, radiusY: 20, tier: RendererTier.HOUDINI });
+
+      expect(consoleWarnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('houdini tier cannot draw elliptical corners')
+      );
+    });
+  });
+
+  describe('CSS length radius', () => {
+    afterEach(() => {
+      document.documentElement.style.fontSize = '';
+    });
+
+    it('should resolve rem against the root font size and keep it in the config', () => {
+      document.documentElement.style.fontSize = '20px';
+      const ck = new CornerKit();
+      const element = createSizedElement(100, 100);
+
+      ck.apply(element, { radius: '1.5rem', smoothing: 0.6 });
+
+      expect(element.style.clipPath).toBe(`path('${generateSquirclePath(100, 100, 30, 0.6)}')`);
+      expect(ck.inspect(element)?.config.radius).toBe('1.5rem');
+    });
+
+    it('should re-render rem radii when the root font size changes after apply()', () => {
+      const observers = new Map<Element, ResizeObserverCallback>();
+      global.ResizeObserver = vi.fn().mockImplementation((callback: ResizeObserverCallback) => ({
+        observe: (target: Element) => observers.set(target, callback),
+        unobserve: vi.fn(),
+        disconnect: vi.fn(),
+      }));
+      document.documentElement.style.fontSize = '16px';
+      const ck = new CornerKit();
+      const element = createSizedElement(100, 100);
+
+      ck.apply(element, { radius: '1.5rem', smoothing: 0.6 });
+      expect(element.style.clipPath).toBe(`path('${generateSquirclePath(100, 100, 24, 0.6)}')`);
+
+      // The browser resizes the 1rem probe when the root font size changes
+      document.documentElement.style.fontSize = '20px';
+      const probe = document.querySelector('[data-squircle-length-probe]')!;
+      observers.get(probe)!(
+        [{ target: probe, contentRect: { width: 20 } } as unknown as ResizeObserverEntry],
+        {} as ResizeObserver
+      );
+
+      expect(element.style.clipPath).toBe(`path('${generateSquirclePath(100, 100, 30, 0.6)}')`);
+
+      ck.remove(element);
+      expect(document.querySelector('[data-squircle-length-probe]')).toBeNull();
+    });
+
+    it('should re-render vw radii when the viewport resizes', () => {
+      const innerWidth = vi.spyOn(window, 'innerWidth', 'get').mockReturnValue(1000);
+      const ck = new CornerKit();
+      const element = createSizedElement(400, 400);
+
+      ck.apply(element, { radius: '10vw', smoothing: 0.6 });
+      expect(element.style.clipPath).toBe(`path('${generateSquirclePath(400, 400, 100, 0.6)}')`);
+
+      innerWidth.mockReturnValue(1500);
+      window.dispatchEvent(new Event('resize'));
+
+      expect(element.style.clipPath).toBe(`path('${generateSquirclePath(400, 400, 150, 0.6)}')`);
+    });
+
+    it('should leave rem radii to the browser on the CSS tiers', () => {
+      const ck = new CornerKit();
+      const element = createSizedElement(100, 100);
+
+      ck.apply(element, { radius: '1rem', smoothing: 0, tier: RendererTier.FALLBACK });
+
+      expect(element.style.borderRadius).toBe('1rem');
+      expect(document.querySelector('[data-squircle-length-probe]')).toBeNull();
+    });
+
+    it('should resolve % again when the element resizes', () => {
+      let onResize: ResizeObserverCallback = () => {};
+      global.ResizeObserver = vi.fn().mockImplementation((callback: ResizeObserverCallback) => {
+        onResize = callback;
+        return { observe: vi.fn(), unobserve: vi.fn(), disconnect: vi.fn() };
+      });
+      vi.spyOn(global, 'requestAnimationFrame').mockImplementation((callback) => {
+        callback(0);
+        return 1;
+      });
+
+      const ck = new CornerKit();
+      const element = createSizedElement(100, 50);
+      ck.apply(element, { radius: '50%', smoothing: 0 });
+      expect(element.style.clipPath).toBe(`path('${generateSquirclePath(100, 50, 25, 0)}')`);
+
+      Object.defineProperty(element, 'offsetWidth', { value: 300, configurable: true });
+      Object.defineProperty(element, 'offsetHeight', { value: 80, configurable: true });
+      onResize([{ target: element } as unknown as ResizeObserverEntry], {} as ResizeObserver);
+
+      expect(element.style.clipPath).toBe(`path('${generateSquirclePath(300, 80, 40, 0)}')`);
+    });
+
+    it('should prefer a path tier over native corner-shape for % radii', () => {
+      // @ts-expect-error - Accessing private static property for testing
+      CapabilityDetector.instance = null;
+      vi.mocked(CSS.supports).mockImplementation(
+        (property: string) => property === 'corner-shape' || property === 'clip-path'
+      );
+
+      const ck = new CornerKit();
+      const percent = createSizedElement(100, 100);
+      const rem = createSizedElement(100, 100);
+      ck.apply(percent, { radius: '10%' });
+      ck.apply(rem, { radius: '1rem' });
+
+      expect(ck.inspect(percent)?.tier).toBe('clippath');
+      expect(ck.inspect(rem)?.tier).toBe('native');
+
+      // @ts-expect-error - Accessing private static property for testing
+      CapabilityDetector.instance = null;
+    });
+
+    it('should warn when a forced tier cannot follow % radii', () => {
+      const ck = new CornerKit();
+      const element = createSizedElement(100, 100);
+
+      ck.apply(element, { tier: RendererTier.FALLBACK });
+      ck.update(element, { radius: '50%' });
+
+      expect(consoleWarnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('fallback tier does not re-render on resize')
+      );
+    });
+
+    it('should recompute relative radii on resize', () => {
+      let onResize: ResizeObserverCallback = () => {};
+      global.ResizeObserver = vi.fn().mockImplementation((callback: ResizeObserverCallback) => {
+        onResize = callback;
+        return { observe: vi.fn(), unobserve: vi.fn(), disconnect: vi.fn() };
+      });
+      vi.spyOn(global, 'requestAnimationFrame').mockImplementation((callback) => {
+        callback(0);
+        return 1;
+      });
+
+      const ck = new CornerKit({ radiusMode: 'relative' });
+      const element = createSizedElement(100, 100);
+      ck.apply(element, { radius: 0.2237, smoothing: 0.6 });
+      expect(element.style.clipPath).toBe(
+        `path('${generateSquirclePath(100, 100, 22.37, 0.6)}')`
+      );
+
+      Object.defineProperty(element, 'offsetWidth', { value: 200, configurable: true });
+      Object.defineProperty(element, 'offsetHeight', { value: 200, configurable: true });
+      onResize([{ target: element } as unknown as ResizeObserverEntry], {} as ResizeObserver);
+
+      expect(element.style.clipPath).toBe(
+        `path('${generateSquirclePath(200, 200, 44.74, 0.6)}')`
+      );
+      expect(ck.inspect(element)?.config).toMatchObject({ radius: 0.2237, radiusMode: 'relative' });
+    });
+
+    it('should draw capsules and return to the radius when capsule is turned off', () => {
+      const ck = new CornerKit();
+      const element = createSizedElement(200, 60);
+
+      ck.apply(element, { radius: 12, capsule: true, algorithm: 'apple' });
+      expect(element.style.clipPath).toBe(`path('${generateAppleSquirclePath(200, 60, 30)}')`);
+
+      ck.update(element, { capsule: false });
+      expect(element.style.clipPath).toBe(`path('${generateAppleSquirclePath(200, 60, 12)}')`);
+    });
+  });
+
+  describe('responsive', () => {
+    beforeEach(() => {
+      vi.spyOn(CapabilityDetector.getInstance(), 'clipPathFormat').mockReturnValue('polygon');
+    });
+
+    it('should render an edge-relative polygon() without a ResizeObserver', () => {
+      const ck = new CornerKit({ responsive: true });
+      const element = createSizedElement(200, 100);
+      vi.mocked(global.ResizeObserver).mockClear();
+
+      ck.apply(element, { radius: 20, smoothing: 0.6, tier: RendererTier.CLIPPATH });
+
+      expect(element.style.clipPath).toBe(
+        generateResponsiveClipPath(200, 100, generateSquirclePath(200, 100, 20, 0.6))
+      );
+      expect(global.ResizeObserver).not.toHaveBeenCalled();
+      expect(ck.inspect(element)?.config.responsive).toBe(true);
+    });
+
+    it('should keep path() and the observer for size-relative radii', () => {
+      const ck = new CornerKit();
+      const element = createSizedElement(100, 100);
+
+      ck.apply(element, { radius: '50%', responsive: true, tier: RendererTier.CLIPPATH });
+
+      expect(element.style.clipPath).toMatch(/^path\(/);
+      expect(ck.inspect(element)?.config.responsive).toBeUndefined();
+    });
+
+    it('should warn when update() changes responsive or adds relative radii', () => {
+      const ck = new CornerKit();
+      const element = createSizedElement(100, 100);
+
+      ck.apply(element, { responsive: true, tier: RendererTier.CLIPPATH });
+      ck.update(element, { responsive: false });
+      expect(consoleWarnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('responsive cannot be changed by update()')
+      );
+      expect(ck.inspect(element)?.config.responsive).toBe(true);
+
+      ck.update(element, { radius: '10%' });
+      expect(consoleWarnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Responsive clip-paths do not re-render on resize')
+      );
+    });
+  });
+
+  describe('precision', () => {
+    it('should write compact paths and return to the default with null', () => {
+      const ck = new CornerKit({ precision: 1 });
+      const element = createSizedElement(200, 100);
+
+      ck.apply(element, { radius: 30, smoothing: 0.6, tier: RendererTier.CLIPPATH });
+      expect(element.style.clipPath).toBe(
+        `path('${optimizePath(generateSquirclePath(200, 100, 30, 0.6, { precision: 1 }), 1)}')`
+      );
+
+      ck.update(element, { precision: null });
+      expect(element.style.clipPath).toBe(`path('${generateSquirclePath(200, 100, 30, 0.6)}')`);
+    });
+
+    it('should clamp out-of-range precision with a warning', () => {
+      const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const ck = new CornerKit();
+      const element = createSizedElement(200, 100);
+
+      ck.apply(element, { radius: 30, precision: 12, tier: RendererTier.CLIPPATH });
+
+      expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('Precision 12'));
+      expect(ck.inspect(element)?.config.precision).toBe(4);
+
+      consoleWarnSpy.mockRestore();
+    });
+  });
+
+  describe('path cache', () => {
+    beforeEach(() => {
+      CornerKit.clearPathCache();
+    });
+
+    it('should generate one path for same-sized elements', () => {
+      const ck = new CornerKit();
+      const chips = Array.from({ length: 50 }, () => {
+        const chip = document.createElement('span');
+        Object.defineProperty(chip, 'offsetWidth', { value: 80, configurable: true });
+        Object.defineProperty(chip, 'offsetHeight', { value: 28, configurable: true });
+        return chip;
+      });
+
+      chips.forEach((chip) => ck.apply(chip, { radius: 14, tier: RendererTier.CLIPPATH }));
+
+      expect(CornerKit.getPathCacheStats()).toMatchObject({ hits: 49, misses: 1, size: 1 });
+      expect(chips[49]?.style.clipPath).toBe(chips[0]?.style.clipPath);
+    });
+
+    it('should reject invalid cache settings', () => {
+      expect(() => CornerKit.configurePathCache({ maxSize: -1 })).toThrow(TypeError);
+      expect(() => CornerKit.configurePathCache({ maxSize: 1.5 })).toThrow(/non-negative integer/);
+      expect(() => CornerKit.configurePathCache({ quantize: 0 })).toThrow(/positive number/);
+      expect(CornerKit.getPathCacheStats().maxSize).toBe(256);
+    });
+  });
+
+  describe('focusRing', () => {
+    let button: HTMLButtonElement;
+
+    beforeEach(() => {
+      button = document.createElement('button');
+      document.body.appendChild(button);
+
+      Object.defineProperty(button, 'offsetWidth', { value: 100, configurable: true });
+      Object.defineProperty(button, 'offsetHeight', { value: 40, configurable: true });
+      vi.spyOn(button, 'matches').mockImplementation((selector) => selector === ':focus-visible');
+    });
+
+    afterEach(() => {
+      button.remove();
+    });
+
+    const getOverlay = () => document.querySelector('[data-squircle-focus-ring]');
+
+    it('should not draw a focus ring unless opted in', () => {
+      const ck = new CornerKit();
+
+      ck.apply(button);
+      button.focus();
+
+      expect(getOverlay()).toBeNull();
+    });
+
+    it('should draw the ring on focus when enabled', () => {
+      const ck = new CornerKit();
+
+      ck.apply(button, { focusRing: true });
+      button.focus();
+
+      expect(getOverlay()).not.toBeNull();
+      expect(ck.inspect(button)?.config.focusRing).toEqual({});
+    });
+
+    it('should toggle the ring through update()', () => {
+      const ck = new CornerKit();
+
+      ck.apply(button);
+      ck.update(button, { focusRing: { width: 3 } });
+      button.focus();
+      expect(getOverlay()).not.toBeNull();
+
+      ck.update(button, { focusRing: false });
+      expect(getOverlay()).toBeNull();
+    });
+
+    it('should detach the ring on remove()', () => {
+      const ck = new CornerKit({ focusRing: true });
+
+      ck.apply(button);
+      button.focus();
+      ck.remove(button);
+
+      expect(getOverlay()).toBeNull();
+      button.blur();
+      button.focus();
+      expect(getOverlay()).toBeNull();
+    });
+  });
+
+  describe('shadow', () => {
+    let parent: HTMLElement;
+    let element: HTMLElement;
+
+    beforeEach(() => {
+      parent = document.createElement('div');
+      element = document.createElement('div');
+      parent.appendChild(element);
+      document.body.appendChild(parent);
+
+      Object.defineProperty(element, 'offsetWidth', { value: 200, configurable: true });
+      Object.defineProperty(element, 'offsetHeight', { value: 100, configurable: true });
+    });
+
+    afterEach(() => {
+      parent.remove();
+    });
+
+    it('should wrap the element and draw the shadow on the wrapper', () => {
+      const ck = new CornerKit();
+
+      ck.apply(element, { shadow: { offsetY: 4, blur: 12, color: 'rgba(0, 0, 0, 0.2)' } });
+
+      const wrapper = element.parentElement!;
+      expect(wrapper).not.toBe(parent);
+      expect(wrapper.parentElement).toBe(parent);
+      expect(wrapper.style.filter).toBe('drop-shadow(0px 4px 12px rgba(0, 0, 0, 0.2))');
+      expect(element.style.clipPath).toContain('path');
+    });
+
+    it('should not wrap elements without a shadow', () => {
+      const ck = new CornerKit();
+
+      ck.apply(element);
+
+      expect(element.parentElement).toBe(parent);
+    });
+
+    it('should inherit a global shadow unless the element passes null', () => {
+      const ck = new CornerKit({ shadow: { blur: 8 } });
+      const other = document.createElement('div');
+      parent.appendChild(other);
+
+      ck.apply(element);
+      ck.apply(other, { shadow: null });
+
+      expect(element.parentElement).not.toBe(parent);
+      expect(other.parentElement).toBe(parent);
+    });
+
+    it('should update and remove the shadow through update()', () => {
+      const ck = new CornerKit();
+
+      ck.apply(element, { shadow: { blur: 8 } });
+      const wrapper = element.parentElement!;
+
+      ck.update(element, { shadow: [{ offsetY: 1, blur: 2 }, { offsetY: 8, blur: 24 }] });
+      expect(element.parentElement).toBe(wrapper);
+      expect(wrapper.style.filter).toBe('drop-shadow(0px 1px 2px) drop-shadow(0px 8px 24px)');
+      expect(ck.inspect(element)?.config.shadow).toEqual([
+        { offsetY: 1, blur: 2 },
+        { offsetY: 8, blur: 24 },
+      ]);
+
+      ck.update(element, { shadow: null });
+      expect(element.parentElement).toBe(parent);
+      expect(wrapper.isConnected).toBe(false);
+    });
+
+    it('should restore the original DOM on remove() and destroy()', () => {
+      const ck = new CornerKit({ shadow: { blur: 8 } });
+      const other = document.createElement('div');
+      parent.appendChild(other);
+
+      ck.apply(element);
+      ck.apply(other);
+
+      ck.remove(element);
+      expect(element.parentElement).toBe(parent);
+
+      ck.destroy();
+      expect(other.parentElement).toBe(parent);
+      expect(Array.from(parent.children)).toEqual([element, other]);
+    });
+  });
 });
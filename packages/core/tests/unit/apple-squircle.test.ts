@@ -0,0 +1,207 @@
+/**
+ * Unit Tests: Apple Continuous Corners
+ * Tests for math/apple-squircle.ts
+ * Coverage target: >90% (core functionality)
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CONTINUOUS_EXTENT,
+  generateAppleSquirclePath,
+  getContinuousCorner,
+} from '../../src/math/apple-squircle';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Parse an absolute M/L/C/Z path into the points of each command
+ */
+function parsePath(path: string): Array<{ type: string; points: Point[] }> {
+  return (path.match(/[MLCZ][^MLCZ]*/g) ?? []).map((command) => {
+    const numbers = command.slice(1).trim().split(/\s+/).filter(Boolean).map(Number);
+    const points: Point[] = [];
+    for (let i = 0; i < numbers.length; i += 2) {
+      points.push({ x: numbers[i]!, y: numbers[i + 1]! });
+    }
+    return { type: command[0]!, points };
+  });
+}
+
+/**
+ * Sample every cubic Bézier of a path
+ */
+function sampleCurves(path: string): Point[] {
+  const samples: Point[] = [];
+  let current: Point = { x: 0, y: 0 };
+
+  parsePath(path).forEach(({ type, points }) => {
+    if (type === 'C') {
+      const [p1, p2, p3] = points as [Point, Point, Point];
+      for (let t = 0; t <= 1; t += 0.1) {
+        const u = 1 - t;
+        samples.push({
+          x: u * u * u * current.x + 3 * u * u * t * p1.x + 3 * u * t * t * p2.x + t * t * t * p3.x,
+          y: u * u * u * current.y + 3 * u * u * t * p1.y + 3 * u * t * t * p2.y + t * t * t * p3.y,
+        });
+      }
+    }
+    if (points.length > 0) {
+      current = points[points.length - 1]!;
+    }
+  });
+
+  return samples;
+}
+
+describe('generateAppleSquirclePath', () => {
+  describe('corner geometry', () => {
+    it('should leave the straight edges without a jump in curvature', () => {
+      const commands = parsePath(generateAppleSquirclePath(200, 100, 20));
+
+      // Top-right corner: the first Bézier starts on the top edge, the last ends on the right edge
+      const [start] = commands[1]!.points.slice(-1);
+      const [control1, control2] = commands[2]!.points;
+      const [last1, last2, end] = commands[6]!.points;
+
+      [start, control1, control2].forEach((point) => expect(point!.y).toBe(0));
+      [last1, last2, end].forEach((point) => expect(point!.x).toBe(200));
+    });
+
+    it('should extend 1.52866483 × radius along each edge', () => {
+      const path = generateAppleSquirclePath(200, 100, 20);
+
+      expect(path).toMatch(/^M 30\.57 0 L 169\.43 0 C /);
+      expect(path).toContain('L 200 69.43 C ');
+      expect(path).toContain('L 30.57 100 C ');
+      expect(path).toContain('L 0 30.57 C ');
+      expect(path).toMatch(/ 30\.57 0 Z$/);
+    });
+
+    it('should draw the same corner rotated at every position', () => {
+      const commands = parsePath(generateAppleSquirclePath(100, 100, 20));
+      const corner = (from: number): Point[] =>
+        commands.slice(from, from + 5).flatMap((command) => command.points);
+
+      // 1 (M) + 1 (L) + 5 corner commands + 1 (L) + 5 ...
+      const topRight = corner(2);
+      const bottomRight = corner(8);
+      const bottomLeft = corner(14);
+      const topLeft = corner(20);
+
+      const expectPoint = (actual: Point | undefined, expected: Point): void => {
+        expect(actual!.x).toBeCloseTo(expected.x, 5);
+        expect(actual!.y).toBeCloseTo(expected.y, 5);
+      };
+
+      topRight.forEach((point, index) => {
+        expectPoint(bottomRight[index], { x: 100 - point.y, y: point.x });
+        expectPoint(bottomLeft[index], { x: 100 - point.x, y: 100 - point.y });
+        expectPoint(topLeft[index], { x: point.y, y: 100 - point.x });
+      });
+    });
+
+    it('should become a capsule at radius = half the shorter side', () => {
+      const path = generateAppleSquirclePath(200, 50, 25);
+
+      expect(path).toMatch(/^M 25 0 L 175 0 C /);
+      // Straight segments inside the corners vanish
+      expect(path.match(/L /g)).toHaveLength(4);
+
+      sampleCurves(path).forEach((point) => {
+        const center = { x: point.x < 100 ? 25 : 175, y: 25 };
+        expect(Math.hypot(point.x - center.x, point.y - center.y)).toBeCloseTo(25, 1);
+      });
+    });
+
+    it('should limit radii above half the shorter side to a capsule', () => {
+      expect(generateAppleSquirclePath(200, 50, 100)).toBe(generateAppleSquirclePath(200, 50, 25));
+    });
+  });
+
+  describe('radius near half the side', () => {
+    it('should stay fully continuous while the corner fits', () => {
+      const limit = 50 / CONTINUOUS_EXTENT;
+
+      expect(getContinuousCorner(limit, 50)).toEqual({
+        scale: limit,
+        circleRadius: limit,
+        blend: 0,
+      });
+    });
+
+    it('should blend towards a circle as the radius grows', () => {
+      const blends = [35, 40, 45, 50].map((radius) => getContinuousCorner(radius, 50).blend);
+
+      blends.reduce((previous, blend) => {
+        expect(blend).toBeGreaterThan(previous);
+        return blend;
+      }, 0);
+      expect(blends[blends.length - 1]).toBe(1);
+    });
+
+    it('should never let corners run past the middle of a side', () => {
+      [20, 30, 33, 40, 49, 50].forEach((radius) => {
+        const path = generateAppleSquirclePath(100, 100, radius);
+        const [, firstEdge] = parsePath(path);
+
+        expect(firstEdge!.points[0]!.x).toBeGreaterThanOrEqual(50);
+      });
+    });
+  });
+
+  describe('per-corner radius', () => {
+    it('should leave corners with radius 0 square', () => {
+      const path = generateAppleSquirclePath(100, 100, {
+        topLeft: 20,
+        topRight: 0,
+        bottomRight: 20,
+        bottomLeft: 20,
+      });
+
+      expect(path).toMatch(/^M 30\.57 0 L 100 0 L 100 69\.43 C /);
+      expect(path.match(/C /g)).toHaveLength(9);
+    });
+
+    it('should draw a plain rectangle for radius 0', () => {
+      expect(generateAppleSquirclePath(100, 50, 0)).toBe('M 0 0 L 100 0 L 100 50 L 0 50 L 0 0 Z');
+    });
+  });
+
+  describe('elliptical corners (radiusY)', () => {
+    it('should stretch corners vertically by radiusY / radius', () => {
+      const path = generateAppleSquirclePath(200, 100, 20, 10);
+
+      expect(path).toMatch(/^M 30\.57 0 L 169\.43 0 C /);
+      expect(path).toContain('L 200 84.71 C ');
+      expect(path).toContain('L 0 15.29 C ');
+
+      const circular = parsePath(generateAppleSquirclePath(200, 100, 20));
+      parsePath(path)
+        .slice(2, 7)
+        .forEach((command, index) => {
+          command.points.forEach((point, pointIndex) => {
+            const reference = circular[index + 2]!.points[pointIndex]!;
+            expect(point.x).toBe(reference.x);
+            expect(point.y).toBeCloseTo(reference.y / 2, 1);
+          });
+        });
+    });
+
+    it('should limit the stretched corner to half the height', () => {
+      // radiusY 50 on a 100px tall box is a capsule end, whatever the radius
+      const path = generateAppleSquirclePath(400, 100, 100, 50);
+
+      expect(path).toMatch(/^M 100 0 L 300 0 C /);
+      expect(path).toContain('L 400 50 C ');
+    });
+
+    it('should leave corners with radiusY 0 square', () => {
+      expect(generateAppleSquirclePath(100, 50, 20, 0)).toBe(
+        'M 0 0 L 100 0 L 100 50 L 0 50 L 0 0 Z'
+      );
+    });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Unit Tests: Background Layer Manager
+ * Tests for utils/background-layer.ts
+ * Coverage target: >85%
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { BackgroundLayer, splitCssList } from '../../src/utils/background-layer';
+
+describe('splitCssList()', () => {
+  it('should split top-level commas only', () => {
+    expect(
+      splitCssList('linear-gradient(red, blue), url("a,b.png"), none')
+    ).toEqual(['linear-gradient(red, blue)', 'url("a,b.png")', 'none']);
+  });
+
+  it('should return an empty list for an empty string', () => {
+    expect(splitCssList('')).toEqual([]);
+  });
+});
+
+describe('BackgroundLayer', () => {
+  let layer: BackgroundLayer;
+  let element: HTMLElement;
+
+  beforeEach(() => {
+    layer = new BackgroundLayer();
+    element = document.createElement('div');
+    document.body.appendChild(element);
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should set the managed image as the only layer when element has no images', () => {
+    layer.set(element, 'url("x.svg")');
+
+    expect(element.style.getPropertyValue('background-image')).toBe('url("x.svg")');
+    expect(element.style.getPropertyValue('background-size')).toBe('100% 100%');
+    expect(element.style.getPropertyValue('background-repeat')).toBe('no-repeat');
+    expect(layer.has(element)).toBe(true);
+  });
+
+  it('should keep the element own images underneath the managed layer', () => {
+    element.style.backgroundImage = 'linear-gradient(red, blue)';
+    element.style.backgroundSize = 'cover';
+
+    layer.set(element, 'url("x.svg")');
+
+    expect(element.style.getPropertyValue('background-image')).toBe(
+      'url("x.svg"), linear-gradient(red, blue)'
+    );
+    expect(element.style.getPropertyValue('background-size')).toBe('100% 100%, cover');
+  });
+
+  it('should add the managed layer below the element own images with bottom placement', () => {
+    const bottomLayer = new BackgroundLayer('bottom');
+    element.style.backgroundImage = 'linear-gradient(red, blue)';
+    element.style.backgroundSize = 'cover';
+
+    bottomLayer.set(element, 'url("x.svg")');
+
+    expect(element.style.getPropertyValue('background-image')).toBe(
+      'linear-gradient(red, blue), url("x.svg")'
+    );
+    expect(element.style.getPropertyValue('background-size')).toBe('cover, 100% 100%');
+  });
+
+  it('should replace the managed image without stacking layers', () => {
+    element.style.backgroundImage = 'linear-gradient(red, blue)';
+
+    layer.set(element, 'url("a.svg")');
+    layer.set(element, 'url("b.svg")');
+
+    expect(element.style.getPropertyValue('background-image')).toBe(
+      'url("b.svg"), linear-gradient(red, blue)'
+    );
+  });
+
+  it('should restore original inline values on remove()', () => {
+    element.style.backgroundImage = 'linear-gradient(red, blue)';
+
+    layer.set(element, 'url("x.svg")');
+    layer.remove(element);
+
+    expect(element.style.getPropertyValue('background-image')).toBe('linear-gradient(red, blue)');
+    expect(element.style.getPropertyValue('background-size')).toBe('');
+    expect(layer.has(element)).toBe(false);
+  });
+
+  it('should be a no-op to remove an element without a layer', () => {
+    element.style.backgroundImage = 'linear-gradient(red, blue)';
+
+    expect(() => layer.remove(element)).not.toThrow();
+    expect(element.style.getPropertyValue('background-image')).toBe('linear-gradient(red, blue)');
+  });
+});
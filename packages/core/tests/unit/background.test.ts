@@ -0,0 +1,123 @@
+/**
+ * Unit Tests: Background Renderer
+ * Tests for renderers/background.ts
+ * Coverage target: >90%
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BackgroundRenderer } from '../../src/renderers/background';
+import type { SquircleConfig } from '../../src/core/types';
+import { createSizedElement } from './test-helpers';
+
+function getImage(element: HTMLElement): string {
+  return decodeURIComponent(element.style.getPropertyValue('background-image'));
+}
+
+describe('BackgroundRenderer', () => {
+  let renderer: BackgroundRenderer;
+  let consoleWarnSpy: ReturnType<typeof vi.spyOn>;
+  const config: SquircleConfig = { radius: 20, smoothing: 0.8 };
+
+  beforeEach(() => {
+    renderer = new BackgroundRenderer();
+    consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    global.ResizeObserver = vi.fn().mockImplementation((callback) => ({
+      observe: vi.fn(),
+      unobserve: vi.fn(),
+      disconnect: vi.fn(),
+      _callback: callback,
+    }));
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+    consoleWarnSpy.mockRestore();
+    vi.restoreAllMocks();
+  });
+
+  describe('apply()', () => {
+    it('should paint the squircle as a background-image without clipping', () => {
+      const element = createSizedElement(200, 100);
+
+      renderer.apply(element, { ...config, fill: '#0af' });
+
+      expect(getImage(element)).toContain("fill='#0af'");
+      expect(element.style.clipPath).toBe('');
+      expect(element.style.getPropertyValue('mask-image')).toBe('');
+    });
+
+    it('should default the fill to the element background-color and hide the rectangle', () => {
+      const element = createSizedElement(200, 100);
+      element.style.backgroundColor = 'rgb(255, 0, 0)';
+
+      renderer.apply(element, config);
+
+      expect(getImage(element)).toContain("fill='rgb(255, 0, 0)'");
+      expect(element.style.backgroundColor).toBe('transparent');
+    });
+
+    it('should keep the original fill color across re-renders', () => {
+      const element = createSizedElement(200, 100);
+      element.style.backgroundColor = 'rgb(255, 0, 0)';
+
+      renderer.apply(element, config);
+      renderer.update(element, { radius: 40, smoothing: 0.8 });
+
+      expect(getImage(element)).toContain("fill='rgb(255, 0, 0)'");
+    });
+
+    it('should paint gradient fills', () => {
+      const element = createSizedElement(200, 100);
+
+      renderer.apply(element, { ...config, fill: { angle: 90, stops: ['red', 'blue'] } });
+
+      expect(getImage(element)).toContain("fill='url(#f)'");
+    });
+
+    it('should paint below the element own background images', () => {
+      const element = createSizedElement(200, 100);
+      element.style.backgroundImage = 'linear-gradient(red, blue)';
+
+      renderer.apply(element, config);
+
+      expect(element.style.getPropertyValue('background-image')).toMatch(
+        /^linear-gradient\(red, blue\), url\("data:image\/svg\+xml/
+      );
+    });
+
+    it('should draw the stroke into the same image', () => {
+      const element = createSizedElement(200, 100);
+
+      renderer.apply(element, { ...config, fill: 'white', stroke: { width: 2, color: 'red' } });
+
+      expect(getImage(element)).toContain("stroke='red'");
+      expect(element.style.getPropertyValue('background-image').match(/url\(/g)).toHaveLength(1);
+    });
+
+    it('should observe resizes', () => {
+      const element = createSizedElement(200, 100);
+
+      const observer = renderer.apply(element, config);
+
+      expect(observer.observe).toHaveBeenCalledWith(element);
+    });
+  });
+
+  describe('remove()', () => {
+    it('should restore the original background', () => {
+      const element = createSizedElement(200, 100);
+      element.style.backgroundColor = 'rgb(255, 0, 0)';
+      element.style.backgroundImage = 'linear-gradient(red, blue)';
+      const originalColor = element.style.backgroundColor;
+
+      renderer.apply(element, { ...config, stroke: { width: 1 } });
+      renderer.remove(element, 'opacity 0.2s');
+
+      expect(element.style.backgroundColor).toBe(originalColor);
+      expect(element.style.getPropertyValue('background-image')).toBe('linear-gradient(red, blue)');
+      expect(element.style.getPropertyValue('background-size')).toBe('');
+      expect(element.style.transition).toBe('opacity 0.2s');
+    });
+  });
+});
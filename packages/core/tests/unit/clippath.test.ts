@@ -6,6 +6,7 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { ClipPathRenderer } from '../../src/renderers/clippath';
+import { CapabilityDetector } from '../../src/core/detector';
 import type { SquircleConfig } from '../../src/core/types';
 
 describe('ClipPathRenderer', () => {
@@ -119,6 +120,155 @@ describe('ClipPathRenderer', () => {
     });
   });
 
+  describe('shape', () => {
+    it('should clip and stroke with the path from a custom shape', () => {
+      const element = document.createElement('div');
+      Object.defineProperty(element, 'offsetWidth', { value: 100, configurable: true });
+      Object.defineProperty(element, 'offsetHeight', { value: 50, configurable: true });
+      const shape = vi.fn((width: number, height: number) => `M 0,0 L ${width},0 L 0,${height} Z`);
+
+      renderer.apply(element, {
+        radius: 20,
+        smoothing: 0.8,
+        shape,
+        stroke: { width: 2, color: 'red' },
+      });
+
+      expect(shape).toHaveBeenCalledWith(100, 50, expect.objectContaining({ radius: 20 }));
+      expect(element.style.clipPath).toBe("path('M 0,0 L 100,0 L 0,50 Z')");
+      expect(element.style.backgroundImage).toContain(encodeURIComponent('M 0,0 L 100,0 L 0,50 Z'));
+    });
+  });
+
+  describe('stroke', () => {
+    function createElement(): HTMLElement {
+      const element = document.createElement('div');
+      Object.defineProperty(element, 'offsetWidth', { value: 100, configurable: true });
+      Object.defineProperty(element, 'offsetHeight', { value: 50, configurable: true });
+      return element;
+    }
+
+    it('should draw the stroke as an SVG background layer', () => {
+      const element = createElement();
+
+      renderer.apply(element, { radius: 20, smoothing: 0.8, stroke: { width: 2, color: 'red' } });
+
+      const image = element.style.getPropertyValue('background-image');
+      expect(image).toContain('data:image/svg+xml');
+      expect(decodeURIComponent(image)).toContain("stroke='red'");
+      expect(element.style.clipPath).toContain('path');
+    });
+
+    it('should use the same path as the clip-path', () => {
+      const element = createElement();
+
+      renderer.apply(element, { radius: 20, smoothing: 0.8, stroke: { width: 1 } });
+
+      const clipPath = element.style.clipPath.slice("path('".length, -"')".length);
+      expect(decodeURIComponent(element.style.getPropertyValue('background-image'))).toContain(
+        `d='${clipPath}'`
+      );
+    });
+
+    it('should redraw the stroke on update()', () => {
+      const element = createElement();
+
+      renderer.apply(element, { radius: 20, smoothing: 0.8, stroke: { width: 1, color: 'red' } });
+      renderer.update(element, { radius: 20, smoothing: 0.8, stroke: { width: 1, color: 'blue' } });
+
+      expect(decodeURIComponent(element.style.getPropertyValue('background-image'))).toContain(
+        "stroke='blue'"
+      );
+    });
+
+    it('should clear the stroke when update() removes it', () => {
+      const element = createElement();
+      element.style.backgroundImage = 'linear-gradient(red, blue)';
+
+      renderer.apply(element, { radius: 20, smoothing: 0.8, stroke: { width: 1 } });
+      renderer.update(element, { radius: 20, smoothing: 0.8, stroke: null });
+
+      expect(element.style.getPropertyValue('background-image')).toBe('linear-gradient(red, blue)');
+    });
+
+    it('should restore original backgrounds on remove()', () => {
+      const element = createElement();
+      element.style.backgroundImage = 'linear-gradient(red, blue)';
+
+      renderer.apply(element, { radius: 20, smoothing: 0.8, stroke: { width: 1 } });
+      renderer.remove(element);
+
+      expect(element.style.getPropertyValue('background-image')).toBe('linear-gradient(red, blue)');
+      expect(element.style.getPropertyValue('background-size')).toBe('');
+    });
+
+    it('should not touch backgrounds when no stroke is configured', () => {
+      const element = createElement();
+
+      renderer.apply(element, { radius: 20, smoothing: 0.8 });
+
+      expect(element.style.getPropertyValue('background-image')).toBe('');
+    });
+  });
+
+  describe('responsive', () => {
+    function createElement(width = 200, height = 100): HTMLElement {
+      const element = document.createElement('div');
+      Object.defineProperty(element, 'offsetWidth', { value: width, configurable: true });
+      Object.defineProperty(element, 'offsetHeight', { value: height, configurable: true });
+      return element;
+    }
+
+    it('should set a polygon() in edge-relative coordinates without an observer', () => {
+      vi.spyOn(CapabilityDetector.getInstance(), 'clipPathFormat').mockReturnValue('polygon');
+      const element = createElement();
+
+      const observer = renderer.apply(element, { radius: 20, smoothing: 0.8, responsive: true });
+
+      expect(observer).toBeUndefined();
+      expect(ResizeObserver).not.toHaveBeenCalled();
+      expect(element.style.clipPath).toMatch(/^polygon\(/);
+      expect(element.style.clipPath).toContain('calc(100% - 36px) 0px');
+    });
+
+    it('should use shape() when the detector picks it', () => {
+      vi.spyOn(CapabilityDetector.getInstance(), 'clipPathFormat').mockReturnValue('shape');
+      const setter = vi.spyOn(Object.getPrototypeOf(createElement().style), 'clipPath', 'set');
+
+      renderer.apply(createElement(), { radius: 20, smoothing: 0.8, responsive: true });
+
+      expect(setter).toHaveBeenCalledWith(
+        expect.stringMatching(/^shape\(from calc\(100% - 36px\) 0px, /)
+      );
+    });
+
+    it('should re-render on update()', () => {
+      const element = createElement();
+
+      renderer.apply(element, { radius: 20, smoothing: 0.8, responsive: true });
+      renderer.update(element, { radius: 10, smoothing: 0.8, responsive: true });
+
+      expect(element.style.clipPath).toContain('calc(100% - 18px) 0px');
+    });
+
+    it('should keep the observer for strokes and unsized elements', () => {
+      const stroked = renderer.apply(createElement(), {
+        radius: 20,
+        smoothing: 0.8,
+        responsive: true,
+        stroke: { width: 1 },
+      });
+      const unsized = renderer.apply(createElement(0, 0), {
+        radius: 20,
+        smoothing: 0.8,
+        responsive: true,
+      });
+
+      expect(stroked?.observe).toHaveBeenCalled();
+      expect(unsized?.observe).toHaveBeenCalled();
+    });
+  });
+
   // T073: Test update() - verify path regenerates
   describe('update()', () => {
     it('should regenerate path with new config', () => {
@@ -0,0 +1,193 @@
+/**
+ * Unit Tests: Per-Corner Helpers
+ * Tests for math/corners.ts
+ * Coverage target: >90%
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  resolveCorners,
+  scaleCornerRadii,
+  scaleEllipticalRadii,
+  isPerCorner,
+  isUniform,
+  formatCornerList,
+  mapCorners,
+  getCornerBudgets,
+} from '../../src/math/corners';
+
+describe('resolveCorners()', () => {
+  it('should expand a single value to all four corners', () => {
+    expect(resolveCorners(12, 0)).toEqual({
+      topLeft: 12,
+      topRight: 12,
+      bottomRight: 12,
+      bottomLeft: 12,
+    });
+  });
+
+  it('should fill omitted corners from a uniform fallback', () => {
+    expect(resolveCorners({ topLeft: 24, topRight: 24 }, 0)).toEqual({
+      topLeft: 24,
+      topRight: 24,
+      bottomRight: 0,
+      bottomLeft: 0,
+    });
+  });
+
+  it('should fill omitted corners from a per-corner fallback', () => {
+    const fallback = { topLeft: 1, topRight: 2, bottomRight: 3, bottomLeft: 4 };
+
+    expect(resolveCorners({ bottomRight: 30 }, fallback)).toEqual({
+      topLeft: 1,
+      topRight: 2,
+      bottomRight: 30,
+      bottomLeft: 4,
+    });
+  });
+});
+
+describe('scaleCornerRadii()', () => {
+  it('should leave radii untouched when they fit', () => {
+    const radii = { topLeft: 10, topRight: 20, bottomRight: 30, bottomLeft: 40 };
+
+    expect(scaleCornerRadii(radii, 200, 200)).toEqual(radii);
+  });
+
+  it('should scale all radii by the same factor when a side overflows (CSS rule)', () => {
+    // Top side: 60 + 60 = 120 > 100 → f = 100/120
+    const scaled = scaleCornerRadii(
+      { topLeft: 60, topRight: 60, bottomRight: 0, bottomLeft: 0 },
+      100,
+      200
+    );
+
+    expect(scaled.topLeft).toBeCloseTo(50, 10);
+    expect(scaled.topRight).toBeCloseTo(50, 10);
+    expect(scaled.bottomRight).toBe(0);
+  });
+
+  it('should use the most constrained side', () => {
+    // Left side: 40 + 40 = 80 > 40 → f = 0.5 (stronger than top: 80 > 100 is false)
+    const scaled = scaleCornerRadii(
+      { topLeft: 40, topRight: 40, bottomRight: 40, bottomLeft: 40 },
+      100,
+      40
+    );
+
+    expect(scaled.topLeft).toBe(20);
+    expect(scaled.bottomLeft).toBe(20);
+  });
+
+  it('should match min(radius, width/2, height/2) for uniform radii', () => {
+    const scaled = scaleCornerRadii(
+      { topLeft: 100, topRight: 100, bottomRight: 100, bottomLeft: 100 },
+      60,
+      40
+    );
+
+    expect(scaled.topLeft).toBeCloseTo(20, 10);
+  });
+
+  it('should handle all-zero radii', () => {
+    const zero = { topLeft: 0, topRight: 0, bottomRight: 0, bottomLeft: 0 };
+
+    expect(scaleCornerRadii(zero, 100, 100)).toEqual(zero);
+  });
+});
+
+describe('scaleEllipticalRadii()', () => {
+  const uniform = (value: number) => ({
+    topLeft: value,
+    topRight: value,
+    bottomRight: value,
+    bottomLeft: value,
+  });
+
+  it('should check horizontal radii against the width and vertical radii against the height', () => {
+    // Width: 80 + 80 = 160 fits 200; height: 60 + 60 = 120 > 100 → f = 100/120
+    const scaled = scaleEllipticalRadii(uniform(80), uniform(60), 200, 100);
+
+    expect(scaled.x.topLeft).toBeCloseTo(66.67, 2);
+    expect(scaled.y.topLeft).toBeCloseTo(50, 10);
+  });
+
+  it('should keep the ratio of each corner when scaling', () => {
+    const scaled = scaleEllipticalRadii(uniform(120), uniform(30), 100, 100);
+
+    expect(scaled.x.bottomRight).toBe(50);
+    expect(scaled.y.bottomRight).toBe(12.5);
+  });
+
+  it('should make corners with a zero radius on either axis square', () => {
+    const scaled = scaleEllipticalRadii(
+      uniform(20),
+      { topLeft: 0, topRight: 10, bottomRight: 10, bottomLeft: 10 },
+      200,
+      200
+    );
+
+    expect(scaled.x.topLeft).toBe(0);
+    expect(scaled.y.topLeft).toBe(0);
+    expect(scaled.x.topRight).toBe(20);
+    expect(scaled.y.topRight).toBe(10);
+  });
+});
+
+describe('isPerCorner() / isUniform()', () => {
+  it('should distinguish objects from single values', () => {
+    expect(isPerCorner({ topLeft: 1 })).toBe(true);
+    expect(isPerCorner(1)).toBe(false);
+    expect(isPerCorner(null)).toBe(false);
+    expect(isPerCorner([1, 2])).toBe(false);
+  });
+
+  it('should detect uniform corner values', () => {
+    expect(isUniform({ topLeft: 1, topRight: 1, bottomRight: 1, bottomLeft: 1 })).toBe(true);
+    expect(isUniform({ topLeft: 1, topRight: 2, bottomRight: 1, bottomLeft: 1 })).toBe(false);
+  });
+});
+
+describe('formatCornerList() / mapCorners()', () => {
+  it('should collapse uniform values to one', () => {
+    const values = mapCorners(resolveCorners(8, 0), (v) => `${v}px`);
+
+    expect(formatCornerList(values)).toBe('8px');
+  });
+
+  it('should emit four values in TL TR BR BL order', () => {
+    const values = mapCorners(
+      { topLeft: 1, topRight: 2, bottomRight: 3, bottomLeft: 4 },
+      (v, corner) => `${corner === 'topLeft' ? v * 10 : v}px`
+    );
+
+    expect(formatCornerList(values)).toBe('10px 2px 3px 4px');
+  });
+});
+
+describe('getCornerBudgets()', () => {
+  it('should give uniform corners half the shorter side', () => {
+    expect(
+      getCornerBudgets({ topLeft: 20, topRight: 20, bottomRight: 20, bottomLeft: 20 }, 200, 60)
+    ).toEqual({ topLeft: 30, topRight: 30, bottomRight: 30, bottomLeft: 30 });
+  });
+
+  it('should share sides in proportion to the radii', () => {
+    expect(
+      getCornerBudgets({ topLeft: 10, topRight: 30, bottomRight: 30, bottomLeft: 0 }, 100, 120)
+    ).toEqual({ topLeft: 25, topRight: 60, bottomRight: 60, bottomLeft: 0 });
+  });
+
+  it('should convert the vertical share of elliptical corners to horizontal units', () => {
+    const radii = { topLeft: 40, topRight: 40, bottomRight: 40, bottomLeft: 40 };
+    const radiiY = { topLeft: 20, topRight: 20, bottomRight: 20, bottomLeft: 20 };
+
+    // Width share 100; height share 30 × 40/20 = 60
+    expect(getCornerBudgets(radii, 200, 60, radiiY)).toEqual({
+      topLeft: 60,
+      topRight: 60,
+      bottomRight: 60,
+      bottomLeft: 60,
+    });
+  });
+});
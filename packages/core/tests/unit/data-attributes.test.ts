@@ -87,6 +87,24 @@ describe('Data Attribute Parser', () => {
       expect(consoleWarnSpy).toHaveBeenCalled();
     });
 
+    it('should keep CSS lengths as strings', () => {
+      const element = document.createElement('div');
+      element.setAttribute('data-squircle-radius', ' 1.5rem ');
+
+      expect(parseRadius(element)).toBe('1.5rem');
+    });
+
+    it('should return undefined and warn for unknown units', () => {
+      const element = document.createElement('div');
+      element.setAttribute('data-squircle-radius', '1.5foo');
+
+      expect(parseRadius(element)).toBeUndefined();
+      expect(consoleWarnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Expected a number or CSS length'),
+        expect.anything()
+      );
+    });
+
     it('should parse zero radius', () => {
       const element = document.createElement('div');
       element.setAttribute('data-squircle-radius', '0');
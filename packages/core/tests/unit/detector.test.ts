@@ -1,5 +1,11 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { CapabilityDetector, RendererTier, type BrowserSupport } from '../../src/core/detector';
+import {
+  CapabilityDetector,
+  RendererTier,
+  TIER_PRIORITY,
+  isBuiltinTier,
+  type BrowserSupport,
+} from '../../src/core/detector';
 
 describe('CapabilityDetector', () => {
   beforeEach(() => {
@@ -32,6 +38,20 @@ describe('CapabilityDetector', () => {
       expect(CSS.supports).toHaveBeenCalledWith('corner-shape', 'squircle');
     });
 
+    it('should detect native corner-shape: superellipse() support', () => {
+      global.CSS = {
+        supports: vi.fn((property: string, value: string) => {
+          return property === 'corner-shape' && value === 'superellipse(2)';
+        }),
+      } as any;
+
+      const detector = CapabilityDetector.getInstance();
+      const support = detector.supports();
+
+      expect(support.native).toBe(true);
+      expect(CSS.supports).toHaveBeenCalledWith('corner-shape', 'superellipse(2)');
+    });
+
     it('should return false when CSS.supports is unavailable', () => {
       // @ts-expect-error - Simulating missing CSS API
       global.CSS = undefined;
@@ -116,6 +136,78 @@ describe('CapabilityDetector', () => {
     });
   });
 
+  describe('Mask detection', () => {
+    it('should detect unprefixed mask-image support', () => {
+      global.CSS = {
+        supports: vi.fn((property: string) => property === 'mask-image'),
+      } as any;
+
+      const detector = CapabilityDetector.getInstance();
+
+      expect(detector.supports().mask).toBe(true);
+      expect(CSS.supports).toHaveBeenCalledWith('mask-image', 'url("")');
+    });
+
+    it('should detect -webkit-mask-image support', () => {
+      global.CSS = {
+        supports: vi.fn((property: string) => property === '-webkit-mask-image'),
+      } as any;
+
+      const detector = CapabilityDetector.getInstance();
+
+      expect(detector.supports().mask).toBe(true);
+    });
+
+    it('should return false when masks are not supported', () => {
+      global.CSS = {
+        supports: vi.fn(() => false),
+      } as any;
+
+      const detector = CapabilityDetector.getInstance();
+
+      expect(detector.supports().mask).toBe(false);
+    });
+  });
+
+  describe('clipPathFormat()', () => {
+    it('should pick shape() when the browser supports it', () => {
+      global.CSS = {
+        supports: vi.fn(
+          (property: string, value: string) =>
+            property === 'clip-path' && value.startsWith('shape(')
+        ),
+      } as any;
+
+      expect(CapabilityDetector.getInstance().clipPathFormat()).toBe('shape');
+    });
+
+    it('should fall back to polygon()', () => {
+      global.CSS = {
+        supports: vi.fn(() => false),
+      } as any;
+
+      expect(CapabilityDetector.getInstance().clipPathFormat()).toBe('polygon');
+    });
+
+    it('should fall back to polygon() when CSS.supports is unavailable', () => {
+      // @ts-expect-error - Simulating missing CSS API
+      global.CSS = undefined;
+
+      expect(CapabilityDetector.getInstance().clipPathFormat()).toBe('polygon');
+    });
+
+    it('should cache the result', () => {
+      const supportsSpy = vi.fn(() => true);
+      global.CSS = { supports: supportsSpy } as any;
+
+      const detector = CapabilityDetector.getInstance();
+      detector.clipPathFormat();
+      detector.clipPathFormat();
+
+      expect(supportsSpy).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('Fallback support (FR-012)', () => {
     it('should always return true for fallback', () => {
       // @ts-expect-error - Simulating missing CSS API
@@ -166,9 +258,10 @@ describe('CapabilityDetector', () => {
       CapabilityDetector.supports();
       CapabilityDetector.supports();
 
-      // Detection should only run once (2 checks: native, clippath)
+      // Detection should only run once
+      // (5 checks: native superellipse(), native keyword, clippath, mask, -webkit-mask)
       // Note: Houdini detection uses 'paintWorklet' in CSS, not CSS.supports
-      expect(supportsSpy).toHaveBeenCalledTimes(2);
+      expect(supportsSpy).toHaveBeenCalledTimes(5);
     });
   });
 
@@ -205,6 +298,15 @@ describe('CapabilityDetector', () => {
       expect(detector.detectTier()).toBe(RendererTier.CLIPPATH);
     });
 
+    it('should return MASK when masks are supported but not clip-path: path()', () => {
+      global.CSS = {
+        supports: vi.fn((property: string) => property === '-webkit-mask-image'),
+      } as any;
+
+      const detector = CapabilityDetector.getInstance();
+      expect(detector.detectTier()).toBe(RendererTier.MASK);
+    });
+
     it('should return FALLBACK when no modern features are supported', () => {
       global.CSS = {
         supports: vi.fn(() => false),
@@ -223,6 +325,78 @@ describe('CapabilityDetector', () => {
     });
   });
 
+  describe('registered tiers', () => {
+    beforeEach(() => {
+      // clip-path only
+      global.CSS = {
+        supports: vi.fn((property: string) => property === 'clip-path'),
+      } as any;
+    });
+
+    it('should pick a supported registered tier above the built-in tiers', () => {
+      const detector = CapabilityDetector.getInstance();
+      detector.registerTier('canvas', 1000, () => true);
+
+      expect(detector.detectTier()).toBe('canvas');
+    });
+
+    it('should order registered tiers among the built-in tiers by priority', () => {
+      const detector = CapabilityDetector.getInstance();
+      detector.registerTier('below', TIER_PRIORITY.clippath - 1, () => true);
+
+      expect(detector.detectTier()).toBe(RendererTier.CLIPPATH);
+
+      detector.registerTier('above', TIER_PRIORITY.clippath + 1, () => true);
+
+      expect(detector.detectTier()).toBe('above');
+    });
+
+    it('should prefer the built-in tier on equal priority', () => {
+      const detector = CapabilityDetector.getInstance();
+      detector.registerTier('tie', TIER_PRIORITY.clippath, () => true);
+
+      expect(detector.detectTier()).toBe(RendererTier.CLIPPATH);
+    });
+
+    it('should skip unsupported or throwing registered tiers', () => {
+      const detector = CapabilityDetector.getInstance();
+      detector.registerTier('unsupported', 1000, () => false);
+      detector.registerTier('broken', 900, () => {
+        throw new Error('no canvas');
+      });
+
+      expect(detector.detectTier()).toBe(RendererTier.CLIPPATH);
+    });
+
+    it('should run the support check once and cache it', () => {
+      const detector = CapabilityDetector.getInstance();
+      const supports = vi.fn(() => true);
+      detector.registerTier('canvas', 1000, supports);
+
+      detector.detectTier();
+      detector.detectTier();
+
+      expect(supports).toHaveBeenCalledTimes(1);
+    });
+
+    it('should replace a tier registered under the same name', () => {
+      const detector = CapabilityDetector.getInstance();
+      detector.registerTier('canvas', 1000, () => false);
+      detector.registerTier('canvas', 1000, () => true);
+
+      expect(detector.detectTier()).toBe('canvas');
+    });
+  });
+
+  describe('isBuiltinTier()', () => {
+    it('should recognise built-in tier names only', () => {
+      expect(isBuiltinTier('clippath')).toBe(true);
+      expect(isBuiltinTier('fallback')).toBe(true);
+      expect(isBuiltinTier('canvas')).toBe(false);
+      expect(isBuiltinTier('toString')).toBe(false);
+    });
+  });
+
   describe('BrowserSupport interface', () => {
     it('should return correct type structure', () => {
       global.CSS = {
@@ -235,10 +409,12 @@ describe('CapabilityDetector', () => {
       expect(support).toHaveProperty('native');
       expect(support).toHaveProperty('houdini');
       expect(support).toHaveProperty('clippath');
+      expect(support).toHaveProperty('mask');
       expect(support).toHaveProperty('fallback');
       expect(typeof support.native).toBe('boolean');
       expect(typeof support.houdini).toBe('boolean');
       expect(typeof support.clippath).toBe('boolean');
+      expect(typeof support.mask).toBe('boolean');
       expect(typeof support.fallback).toBe('boolean');
     });
   });
@@ -4,7 +4,7 @@
  * Coverage target: >85%
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { FallbackRenderer } from '../../src/renderers/fallback';
 import type { SquircleConfig } from '../../src/core/types';
 
@@ -19,7 +19,7 @@ describe('FallbackRenderer', () => {
   describe('apply()', () => {
     it('should set border-radius style on element', () => {
       const element = document.createElement('div');
-      const config: SquircleConfig = { radius: 20, smoothing: 0.8 };
+      const config: SquircleConfig = { radius: 20, smoothing: 0 };
 
       renderer.apply(element, config);
 
@@ -30,10 +30,10 @@ describe('FallbackRenderer', () => {
       const element = document.createElement('div');
 
       const configs: SquircleConfig[] = [
-        { radius: 0, smoothing: 0.8 },
-        { radius: 10, smoothing: 0.8 },
-        { radius: 50, smoothing: 0.8 },
-        { radius: 100, smoothing: 0.8 },
+        { radius: 0, smoothing: 0 },
+        { radius: 10, smoothing: 0 },
+        { radius: 50, smoothing: 0 },
+        { radius: 100, smoothing: 0 },
       ];
 
       configs.forEach((config) => {
@@ -42,34 +42,83 @@ describe('FallbackRenderer', () => {
       });
     });
 
-    it('should ignore smoothing parameter', () => {
+    it('should enlarge the radius with smoothing to approximate the squircle corner', () => {
       const element = document.createElement('div');
 
-      // Different smoothing values should produce same result
-      const config1: SquircleConfig = { radius: 20, smoothing: 0 };
-      const config2: SquircleConfig = { radius: 20, smoothing: 0.5 };
-      const config3: SquircleConfig = { radius: 20, smoothing: 1 };
+      renderer.apply(element, { radius: 100, smoothing: 0 });
+      expect(element.style.borderRadius).toBe('100px');
 
-      renderer.apply(element, config1);
-      const borderRadius1 = element.style.borderRadius;
+      renderer.apply(element, { radius: 100, smoothing: 0.6 });
+      expect(element.style.borderRadius).toBe('101.94px');
+
+      renderer.apply(element, { radius: 100, smoothing: 1 });
+      expect(element.style.borderRadius).toBe('109px');
+    });
 
-      renderer.apply(element, config2);
-      const borderRadius2 = element.style.borderRadius;
+    it('should round the effective radius to two decimals', () => {
+      const element = document.createElement('div');
 
-      renderer.apply(element, config3);
-      const borderRadius3 = element.style.borderRadius;
+      renderer.apply(element, { radius: 20, smoothing: 0.8 });
 
-      // All should be the same (smoothing is ignored)
-      expect(borderRadius1).toBe('20px');
-      expect(borderRadius2).toBe('20px');
-      expect(borderRadius3).toBe('20px');
+      expect(element.style.borderRadius).toBe('20.92px');
+    });
+
+    it('should apply per-corner smoothing to each radius', () => {
+      const element = document.createElement('div');
+      const config: SquircleConfig = {
+        radius: 100,
+        smoothing: { topLeft: 1, topRight: 0, bottomRight: 0, bottomLeft: 0 },
+      };
+
+      renderer.apply(element, config);
+
+      expect(element.style.borderRadius).toBe('109px 100px 100px');
+    });
+
+    it('should use four-value border-radius for per-corner radii', () => {
+      const element = document.createElement('div');
+      const config: SquircleConfig = {
+        radius: { topLeft: 24, topRight: 24, bottomRight: 0, bottomLeft: 0 },
+        smoothing: 0,
+      };
+
+      renderer.apply(element, config);
+
+      expect(element.style.borderRadius).toBe('24px 24px 0px 0px');
+    });
+
+    it('should use the x / y border-radius syntax for elliptical corners', () => {
+      const element = document.createElement('div');
+      const config: SquircleConfig = {
+        radius: 40,
+        radiusY: { topLeft: 20, topRight: 20, bottomRight: 0, bottomLeft: 0 },
+        smoothing: 0,
+      };
+
+      // jsdom drops the slash syntax, so check the value written instead
+      const setBorderRadius = vi.spyOn(Object.getPrototypeOf(element.style), 'borderRadius', 'set');
+
+      renderer.apply(element, config);
+
+      expect(setBorderRadius).toHaveBeenLastCalledWith('40px / 20px 20px 0px 0px');
+      setBorderRadius.mockRestore();
+    });
+
+    it('should keep vw radii as CSS lengths', () => {
+      const element = document.createElement('div');
+      const setBorderRadius = vi.spyOn(Object.getPrototypeOf(element.style), 'borderRadius', 'set');
+
+      renderer.apply(element, { radius: 40, smoothing: 0, lengths: { radius: '5vw' } });
+
+      expect(setBorderRadius).toHaveBeenLastCalledWith('5vw');
+      setBorderRadius.mockRestore();
     });
 
     it('should work on detached elements', () => {
       const element = document.createElement('div');
       // Element not attached to DOM
 
-      const config: SquircleConfig = { radius: 20, smoothing: 0.8 };
+      const config: SquircleConfig = { radius: 20, smoothing: 0 };
 
       // Should not throw
       expect(() => renderer.apply(element, config)).not.toThrow();
@@ -82,8 +131,8 @@ describe('FallbackRenderer', () => {
     it('should update border-radius with new radius', () => {
       const element = document.createElement('div');
 
-      const config1: SquircleConfig = { radius: 20, smoothing: 0.8 };
-      const config2: SquircleConfig = { radius: 32, smoothing: 0.9 };
+      const config1: SquircleConfig = { radius: 20, smoothing: 0 };
+      const config2: SquircleConfig = { radius: 32, smoothing: 0 };
 
       renderer.apply(element, config1);
       expect(element.style.borderRadius).toBe('20px');
@@ -95,7 +144,7 @@ describe('FallbackRenderer', () => {
     it('should work without prior apply', () => {
       const element = document.createElement('div');
 
-      const config: SquircleConfig = { radius: 24, smoothing: 0.8 };
+      const config: SquircleConfig = { radius: 24, smoothing: 0 };
 
       // Should work even if apply() was never called
       renderer.update(element, config);
@@ -105,7 +154,7 @@ describe('FallbackRenderer', () => {
     it('should handle zero radius', () => {
       const element = document.createElement('div');
 
-      const config: SquircleConfig = { radius: 0, smoothing: 0.8 };
+      const config: SquircleConfig = { radius: 0, smoothing: 0 };
 
       renderer.update(element, config);
       expect(element.style.borderRadius).toBe('0px');
@@ -117,7 +166,7 @@ describe('FallbackRenderer', () => {
     it('should reset border-radius to empty string', () => {
       const element = document.createElement('div');
 
-      const config: SquircleConfig = { radius: 20, smoothing: 0.8 };
+      const config: SquircleConfig = { radius: 20, smoothing: 0 };
 
       renderer.apply(element, config);
       expect(element.style.borderRadius).not.toBe('');
@@ -134,10 +183,21 @@ describe('FallbackRenderer', () => {
       expect(element.style.borderRadius).toBe('');
     });
 
+    it('should restore the original inline border-radius', () => {
+      const element = document.createElement('div');
+      element.style.borderRadius = '4px';
+
+      renderer.apply(element, { radius: 20, smoothing: 0 });
+      expect(element.style.borderRadius).toBe('20px');
+
+      renderer.remove(element, '4px');
+      expect(element.style.borderRadius).toBe('4px');
+    });
+
     it('should work multiple times', () => {
       const element = document.createElement('div');
 
-      const config: SquircleConfig = { radius: 20, smoothing: 0.8 };
+      const config: SquircleConfig = { radius: 20, smoothing: 0 };
 
       renderer.apply(element, config);
       renderer.remove(element);
@@ -151,7 +211,7 @@ describe('FallbackRenderer', () => {
   describe('edge cases', () => {
     it('should handle very large radius values', () => {
       const element = document.createElement('div');
-      const config: SquircleConfig = { radius: 10000, smoothing: 0.8 };
+      const config: SquircleConfig = { radius: 10000, smoothing: 0 };
 
       renderer.apply(element, config);
       expect(element.style.borderRadius).toBe('10000px');
@@ -159,7 +219,7 @@ describe('FallbackRenderer', () => {
 
     it('should handle very small radius values', () => {
       const element = document.createElement('div');
-      const config: SquircleConfig = { radius: 0.5, smoothing: 0.8 };
+      const config: SquircleConfig = { radius: 0.5, smoothing: 0 };
 
       renderer.apply(element, config);
       expect(element.style.borderRadius).toBe('0.5px');
@@ -167,7 +227,7 @@ describe('FallbackRenderer', () => {
 
     it('should handle fractional radius values', () => {
       const element = document.createElement('div');
-      const config: SquircleConfig = { radius: 12.5, smoothing: 0.8 };
+      const config: SquircleConfig = { radius: 12.5, smoothing: 0 };
 
       renderer.apply(element, config);
       expect(element.style.borderRadius).toBe('12.5px');
@@ -177,7 +237,7 @@ describe('FallbackRenderer', () => {
       const element = document.createElement('div');
       element.style.borderRadius = '10px';
 
-      const config: SquircleConfig = { radius: 20, smoothing: 0.8 };
+      const config: SquircleConfig = { radius: 20, smoothing: 0 };
 
       renderer.apply(element, config);
       expect(element.style.borderRadius).toBe('20px');
@@ -185,7 +245,7 @@ describe('FallbackRenderer', () => {
 
     it('should not create observers (static rendering)', () => {
       const element = document.createElement('div');
-      const config: SquircleConfig = { radius: 20, smoothing: 0.8 };
+      const config: SquircleConfig = { radius: 20, smoothing: 0 };
 
       // Apply method should not return observer (unlike ClipPath renderer)
       const result = renderer.apply(element, config);
@@ -201,7 +261,7 @@ describe('FallbackRenderer', () => {
       const iosRadii = [12, 16, 20, 24];
 
       iosRadii.forEach((radius) => {
-        const config: SquircleConfig = { radius, smoothing: 0.8 };
+        const config: SquircleConfig = { radius, smoothing: 0 };
         renderer.apply(element, config);
         expect(element.style.borderRadius).toBe(`${radius}px`);
       });
@@ -213,7 +273,7 @@ describe('FallbackRenderer', () => {
       const cardRadii = [8, 12, 16];
 
       cardRadii.forEach((radius) => {
-        const config: SquircleConfig = { radius, smoothing: 0.8 };
+        const config: SquircleConfig = { radius, smoothing: 0 };
         renderer.apply(element, config);
         expect(element.style.borderRadius).toBe(`${radius}px`);
       });
@@ -226,11 +286,11 @@ describe('FallbackRenderer', () => {
       const element = document.createElement('div');
 
       // Apply
-      renderer.apply(element, { radius: 20, smoothing: 0.8 });
+      renderer.apply(element, { radius: 20, smoothing: 0 });
       expect(element.style.borderRadius).toBe('20px');
 
       // Update
-      renderer.update(element, { radius: 24, smoothing: 0.9 });
+      renderer.update(element, { radius: 24, smoothing: 0 });
       expect(element.style.borderRadius).toBe('24px');
 
       // Remove
@@ -241,9 +301,9 @@ describe('FallbackRenderer', () => {
     it('should support multiple apply calls (idempotent update)', () => {
       const element = document.createElement('div');
 
-      renderer.apply(element, { radius: 20, smoothing: 0.8 });
-      renderer.apply(element, { radius: 20, smoothing: 0.8 });
-      renderer.apply(element, { radius: 20, smoothing: 0.8 });
+      renderer.apply(element, { radius: 20, smoothing: 0 });
+      renderer.apply(element, { radius: 20, smoothing: 0 });
+      renderer.apply(element, { radius: 20, smoothing: 0 });
 
       expect(element.style.borderRadius).toBe('20px');
     });
@@ -255,7 +315,7 @@ describe('FallbackRenderer', () => {
         document.createElement('div'),
       ];
 
-      const config: SquircleConfig = { radius: 20, smoothing: 0.8 };
+      const config: SquircleConfig = { radius: 20, smoothing: 0 };
 
       elements.forEach((element) => {
         renderer.apply(element, config);
@@ -0,0 +1,236 @@
+/**
+ * Unit Tests: Focus Ring Overlay
+ * Tests for utils/focus-ring.ts
+ * Coverage target: >90%
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  FocusRing,
+  FOCUS_RING_ATTRIBUTE,
+  createFocusRingSvg,
+} from '../../src/utils/focus-ring';
+import type { SquircleConfig } from '../../src/core/types';
+
+function getOverlay(): HTMLElement | null {
+  return document.querySelector(`[${FOCUS_RING_ATTRIBUTE}]`);
+}
+
+describe('createFocusRingSvg()', () => {
+  it('should size the image to the element plus offset and width on each side', () => {
+    const svg = createFocusRingSvg(100, 40, { radius: 12, smoothing: 0.6 }, { width: 2, outlineOffset: 3 }, '#000');
+
+    expect(svg).toContain("width='110'");
+    expect(svg).toContain("height='50'");
+    expect(svg).toContain("stroke-width='2'");
+    expect(svg).toContain("transform='translate(1 1)'");
+  });
+
+  it('should use the ring color, falling back to the element color', () => {
+    const config: SquircleConfig = { radius: 12, smoothing: 0.6 };
+
+    expect(createFocusRingSvg(100, 40, config, { color: 'blue' }, 'red')).toContain("stroke='blue'");
+    expect(createFocusRingSvg(100, 40, config, {}, 'red')).toContain("stroke='red'");
+  });
+
+  it('should draw a custom shape at the grown size and radius', () => {
+    const shape = vi.fn(() => 'M 0,0 L 10,0 L 0,10 Z');
+
+    const config: SquircleConfig = { radius: 12, smoothing: 0.6, shape };
+
+    const svg = createFocusRingSvg(100, 40, config, { width: 2, outlineOffset: 3 }, '#000');
+
+    // grow = outlineOffset + width / 2 = 4 on each side
+    expect(shape).toHaveBeenCalledWith(
+      108,
+      48,
+      expect.objectContaining({ radius: expect.objectContaining({ topLeft: 16 }) })
+    );
+    expect(svg).toContain("d='M 0,0 L 10,0 L 0,10 Z'");
+  });
+
+  it('should keep zero-radius corners square', () => {
+    const svg = createFocusRingSvg(
+      100,
+      40,
+      { radius: { topLeft: 0, topRight: 0, bottomRight: 0, bottomLeft: 0 }, smoothing: 0.6 },
+      {},
+      '#000'
+    );
+
+    // Rectangle path: no curves
+    expect(svg).not.toMatch(/[cCaA] /);
+  });
+});
+
+describe('FocusRing', () => {
+  let focusRing: FocusRing;
+  let button: HTMLButtonElement;
+  let config: SquircleConfig;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    focusRing = new FocusRing();
+    button = document.createElement('button');
+    document.body.appendChild(button);
+    config = { radius: 12, smoothing: 0.6, focusRing: { width: 2, outlineOffset: 2 } };
+
+    Object.defineProperty(button, 'offsetWidth', { value: 100, configurable: true });
+    Object.defineProperty(button, 'offsetHeight', { value: 40, configurable: true });
+    vi.spyOn(button, 'matches').mockImplementation((selector) => selector === ':focus-visible');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('should show an overlay at the end of the body on :focus-visible', () => {
+    focusRing.attach(button, () => config);
+
+    button.focus();
+
+    const overlay = getOverlay();
+    expect(overlay).not.toBeNull();
+    expect(document.body.lastElementChild).toBe(overlay);
+    expect(overlay!.getAttribute('aria-hidden')).toBe('true');
+    expect(overlay!.style.position).toBe('fixed');
+    expect(overlay!.style.pointerEvents).toBe('none');
+    expect(overlay!.style.zIndex).toBe('');
+    expect(overlay!.style.width).toBe('108px');
+    expect(overlay!.style.height).toBe('48px');
+    expect(overlay!.style.backgroundImage).toContain('data:image/svg+xml');
+  });
+
+  it("should leave the element's siblings untouched", () => {
+    const list = document.createElement('ul');
+    const item = document.createElement('li');
+    item.tabIndex = 0;
+    list.appendChild(item);
+    document.body.appendChild(list);
+    Object.defineProperty(item, 'offsetWidth', { value: 100, configurable: true });
+    Object.defineProperty(item, 'offsetHeight', { value: 40, configurable: true });
+    vi.spyOn(item, 'matches').mockReturnValue(true);
+
+    focusRing.attach(item, () => config);
+    item.focus();
+
+    expect(getOverlay()).not.toBeNull();
+    expect(item.nextElementSibling).toBeNull();
+    expect(list.children).toHaveLength(1);
+  });
+
+  it('should follow the element while the page scrolls', () => {
+    const rect = { left: 50, top: 100, right: 150, bottom: 140, width: 100, height: 40 };
+    vi.spyOn(button, 'getBoundingClientRect').mockImplementation(() => rect as DOMRect);
+    focusRing.attach(button, () => config);
+    button.focus();
+
+    const overlay = getOverlay()!;
+    expect(overlay.style.left).toBe('46px');
+    expect(overlay.style.top).toBe('96px');
+
+    rect.top = 20;
+    window.dispatchEvent(new Event('scroll'));
+    expect(overlay.style.top).toBe('16px');
+
+    // Hidden rings stop listening
+    button.blur();
+    rect.top = 0;
+    window.dispatchEvent(new Event('scroll'));
+    expect(overlay.style.top).toBe('16px');
+  });
+
+  it('should follow the element while a scroll container scrolls', () => {
+    const rect = { left: 50, top: 100, right: 150, bottom: 140, width: 100, height: 40 };
+    vi.spyOn(button, 'getBoundingClientRect').mockImplementation(() => rect as DOMRect);
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    container.appendChild(button);
+    focusRing.attach(button, () => config);
+    button.focus();
+
+    // Scroll events of elements do not bubble
+    rect.top = 60;
+    container.dispatchEvent(new Event('scroll', { bubbles: false }));
+
+    expect(getOverlay()!.style.top).toBe('56px');
+  });
+
+  it('should redraw the ring while the element resizes', () => {
+    let onResize: ResizeObserverCallback = () => {};
+    const observe = vi.fn();
+    const disconnect = vi.fn();
+    vi.stubGlobal(
+      'ResizeObserver',
+      vi.fn().mockImplementation((callback: ResizeObserverCallback) => {
+        onResize = callback;
+        return { observe, unobserve: vi.fn(), disconnect };
+      })
+    );
+    focusRing.attach(button, () => config);
+    button.focus();
+    expect(observe).toHaveBeenCalledWith(button);
+
+    Object.defineProperty(button, 'offsetWidth', { value: 160, configurable: true });
+    onResize([], {} as ResizeObserver);
+    expect(getOverlay()!.style.width).toBe('168px');
+
+    // Hidden rings stop observing
+    button.blur();
+    expect(disconnect).toHaveBeenCalled();
+  });
+
+  it('should not show an overlay for focus that is not :focus-visible', () => {
+    vi.mocked(button.matches).mockReturnValue(false);
+    focusRing.attach(button, () => config);
+
+    button.focus();
+
+    expect(getOverlay()).toBeNull();
+  });
+
+  it('should hide the overlay and restore the outline on blur', () => {
+    button.style.outline = '1px solid red';
+    const original = button.style.outline;
+    focusRing.attach(button, () => config);
+
+    button.focus();
+    expect(button.style.outline).toContain('none');
+
+    button.blur();
+    expect(getOverlay()).toBeNull();
+    expect(button.style.outline).toBe(original);
+  });
+
+  it('should show immediately when attached to the focused element', () => {
+    button.focus();
+
+    focusRing.attach(button, () => config);
+
+    expect(getOverlay()).not.toBeNull();
+  });
+
+  it('should redraw a visible ring on update()', () => {
+    focusRing.attach(button, () => config);
+    button.focus();
+
+    config = { ...config, focusRing: { width: 4, outlineOffset: 2 } };
+    focusRing.update(button);
+
+    expect(getOverlay()!.style.width).toBe('112px');
+  });
+
+  it('should remove listeners and overlay on detach()', () => {
+    focusRing.attach(button, () => config);
+    button.focus();
+
+    focusRing.detach(button);
+    expect(getOverlay()).toBeNull();
+    expect(focusRing.has(button)).toBe(false);
+
+    button.blur();
+    button.focus();
+    expect(getOverlay()).toBeNull();
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Unit Tests: Houdini Renderer
+ * Tests for renderers/houdini.ts
+ * Coverage target: >90%
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Window } from 'happy-dom';
+import type { SquircleConfig } from '../../src/core/types';
+
+type HoudiniModule = typeof import('../../src/renderers/houdini');
+
+/**
+ * Load a fresh copy of the module so worklet registration state is reset per test
+ */
+async function loadModule(): Promise<HoudiniModule> {
+  vi.resetModules();
+  return import('../../src/renderers/houdini');
+}
+
+/**
+ * Wait for the worklet promise chain inside apply() to settle
+ */
+async function flushPromises(): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe('HoudiniRenderer', () => {
+  let addModule: ReturnType<typeof vi.fn>;
+  let registerProperty: ReturnType<typeof vi.fn>;
+  let consoleWarnSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    addModule = vi.fn(() => Promise.resolve());
+    registerProperty = vi.fn();
+
+    global.CSS = {
+      supports: vi.fn(() => false),
+      registerProperty,
+      paintWorklet: { addModule },
+    } as any;
+  });
+
+  afterEach(() => {
+    consoleWarnSpy.mockRestore();
+    vi.restoreAllMocks();
+  });
+
+  describe('registerSquircleWorklet()', () => {
+    it('should register typed custom properties for radius and smoothing', async () => {
+      const { registerSquircleWorklet, HOUDINI_PROPERTIES } = await loadModule();
+
+      await registerSquircleWorklet();
+
+      expect(registerProperty).toHaveBeenCalledWith(
+        expect.objectContaining({ name: HOUDINI_PROPERTIES.radius, syntax: '<length>+' })
+      );
+      expect(registerProperty).toHaveBeenCalledWith(
+        expect.objectContaining({ name: HOUDINI_PROPERTIES.smoothing, syntax: '<number>+' })
+      );
+    });
+
+    it('should load the worklet module only once', async () => {
+      const { registerSquircleWorklet } = await loadModule();
+
+      await registerSquircleWorklet();
+      await registerSquircleWorklet();
+
+      expect(addModule).toHaveBeenCalledTimes(1);
+    });
+
+    it('should ignore errors from already-registered properties', async () => {
+      registerProperty.mockImplementation(() => {
+        throw new Error('InvalidModificationError');
+      });
+      const { registerSquircleWorklet } = await loadModule();
+
+      await expect(registerSquircleWorklet()).resolves.toBeUndefined();
+    });
+
+    it("should register separately in another window's CSS namespace", async () => {
+      const frame = new Window();
+      const frameAddModule = vi.fn(() => Promise.resolve());
+      Object.defineProperty(frame, 'CSS', {
+        value: { registerProperty: vi.fn(), paintWorklet: { addModule: frameAddModule } },
+      });
+      const { registerSquircleWorklet } = await loadModule();
+
+      await registerSquircleWorklet(frame as unknown as Window & typeof globalThis);
+      expect(frameAddModule).toHaveBeenCalledTimes(1);
+      expect(addModule).not.toHaveBeenCalled();
+
+      await registerSquircleWorklet();
+      expect(addModule).toHaveBeenCalledTimes(1);
+
+      frame.close();
+    });
+
+    it('should reject when paintWorklet is unavailable', async () => {
+      global.CSS = { supports: vi.fn(() => false) } as any;
+      const { registerSquircleWorklet } = await loadModule();
+
+      await expect(registerSquircleWorklet()).rejects.toThrow('paintWorklet');
+    });
+  });
+
+  describe('apply()', () => {
+    it('should set radius and smoothing custom properties', async () => {
+      const { HoudiniRenderer, HOUDINI_PROPERTIES } = await loadModule();
+      const renderer = new HoudiniRenderer();
+      const element = document.createElement('div');
+      const config: SquircleConfig = { radius: 24, smoothing: 0.6 };
+
+      renderer.apply(element, config);
+
+      expect(element.style.getPropertyValue(HOUDINI_PROPERTIES.radius)).toBe('24px');
+      expect(element.style.getPropertyValue(HOUDINI_PROPERTIES.smoothing)).toBe('0.6');
+      expect(element.style.getPropertyValue(HOUDINI_PROPERTIES.preserveSmoothing)).toBe('0');
+    });
+
+    it('should pass preserveSmoothing to the worklet as 1', async () => {
+      const { HoudiniRenderer, HOUDINI_PROPERTIES } = await loadModule();
+      const renderer = new HoudiniRenderer();
+      const element = document.createElement('div');
+
+      renderer.apply(element, { radius: 24, smoothing: 0.6, preserveSmoothing: true });
+
+      expect(element.style.getPropertyValue(HOUDINI_PROPERTIES.preserveSmoothing)).toBe('1');
+    });
+
+    it('should write per-corner values as space-separated lists', async () => {
+      const { HoudiniRenderer, HOUDINI_PROPERTIES } = await loadModule();
+      const renderer = new HoudiniRenderer();
+      const element = document.createElement('div');
+
+      renderer.apply(element, {
+        radius: { topLeft: 24, topRight: 24, bottomRight: 0, bottomLeft: 0 },
+        smoothing: 0.6,
+      });
+
+      expect(element.style.getPropertyValue(HOUDINI_PROPERTIES.radius)).toBe('24px 24px 0px 0px');
+      expect(element.style.getPropertyValue(HOUDINI_PROPERTIES.smoothing)).toBe('0.6');
+    });
+
+    it('should write rem radii for the registered <length> property to compute', async () => {
+      const { HoudiniRenderer, HOUDINI_PROPERTIES } = await loadModule();
+      const renderer = new HoudiniRenderer();
+      const element = document.createElement('div');
+
+      renderer.apply(element, { radius: 24, smoothing: 0.6, lengths: { radius: '1.5rem' } });
+
+      expect(element.style.getPropertyValue(HOUDINI_PROPERTIES.radius)).toBe('1.5rem');
+    });
+
+    it('should set mask-image once the worklet has loaded', async () => {
+      const { HoudiniRenderer } = await loadModule();
+      const renderer = new HoudiniRenderer();
+      const element = document.createElement('div');
+
+      renderer.apply(element, { radius: 20, smoothing: 0.8 });
+      await flushPromises();
+
+      expect(element.style.getPropertyValue('mask-image')).toBe('paint(squircle)');
+    });
+
+    it('should not set mask-image if element was removed before the worklet loaded', async () => {
+      const { HoudiniRenderer } = await loadModule();
+      const renderer = new HoudiniRenderer();
+      const element = document.createElement('div');
+
+      renderer.apply(element, { radius: 20, smoothing: 0.8 });
+      renderer.remove(element);
+      await flushPromises();
+
+      expect(element.style.getPropertyValue('mask-image')).toBe('');
+    });
+
+    it("should load the worklet in the element's own window", async () => {
+      const frame = new Window();
+      const frameAddModule = vi.fn(() => Promise.resolve());
+      Object.defineProperty(frame, 'CSS', {
+        value: { registerProperty: vi.fn(), paintWorklet: { addModule: frameAddModule } },
+      });
+      const { HoudiniRenderer } = await loadModule();
+      const element = frame.document.createElement('div') as unknown as HTMLElement;
+
+      new HoudiniRenderer().apply(element, { radius: 20, smoothing: 0.8 });
+      await flushPromises();
+
+      expect(frameAddModule).toHaveBeenCalledTimes(1);
+      expect(addModule).not.toHaveBeenCalled();
+      expect(element.style.getPropertyValue('mask-image')).toBe('paint(squircle)');
+
+      frame.close();
+    });
+
+    it('should warn when the worklet fails to load', async () => {
+      addModule.mockImplementation(() => Promise.reject(new Error('blocked by CSP')));
+      const { HoudiniRenderer } = await loadModule();
+      const renderer = new HoudiniRenderer();
+      const element = document.createElement('div');
+
+      renderer.apply(element, { radius: 20, smoothing: 0.8 });
+      await flushPromises();
+
+      expect(consoleWarnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('paint worklet'),
+        expect.objectContaining({ error: 'blocked by CSP' })
+      );
+      expect(element.style.getPropertyValue('mask-image')).toBe('');
+    });
+  });
+
+  describe('update()', () => {
+    it('should update custom properties without touching the mask', async () => {
+      const { HoudiniRenderer, HOUDINI_PROPERTIES } = await loadModule();
+      const renderer = new HoudiniRenderer();
+      const element = document.createElement('div');
+
+      renderer.apply(element, { radius: 20, smoothing: 0.8 });
+      await flushPromises();
+      renderer.update(element, { radius: 40, smoothing: 0.9 });
+
+      expect(element.style.getPropertyValue(HOUDINI_PROPERTIES.radius)).toBe('40px');
+      expect(element.style.getPropertyValue(HOUDINI_PROPERTIES.smoothing)).toBe('0.9');
+      expect(element.style.getPropertyValue('mask-image')).toBe('paint(squircle)');
+    });
+  });
+
+  describe('remove()', () => {
+    it('should clear mask-image and custom properties', async () => {
+      const { HoudiniRenderer, HOUDINI_PROPERTIES } = await loadModule();
+      const renderer = new HoudiniRenderer();
+      const element = document.createElement('div');
+
+      renderer.apply(element, { radius: 20, smoothing: 0.8 });
+      await flushPromises();
+      renderer.remove(element);
+
+      expect(element.style.getPropertyValue('mask-image')).toBe('');
+      expect(element.style.getPropertyValue(HOUDINI_PROPERTIES.radius)).toBe('');
+      expect(element.style.getPropertyValue(HOUDINI_PROPERTIES.smoothing)).toBe('');
+      expect(element.style.getPropertyValue(HOUDINI_PROPERTIES.preserveSmoothing)).toBe('');
+    });
+
+    it('should restore original transition when provided', async () => {
+      const { HoudiniRenderer } = await loadModule();
+      const renderer = new HoudiniRenderer();
+      const element = document.createElement('div');
+
+      renderer.apply(element, { radius: 20, smoothing: 0.8 });
+      element.style.transition = 'opacity 0.3s';
+      renderer.remove(element, 'transform 0.2s');
+
+      expect(element.style.transition).toBe('transform 0.2s');
+    });
+  });
+});
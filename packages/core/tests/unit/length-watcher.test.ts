@@ -0,0 +1,114 @@
+/**
+ * Unit Tests: Font-Size and Viewport Watcher
+ * Tests for utils/length-watcher.ts
+ * Coverage target: >90%
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { LengthWatcher, LENGTH_PROBE_ATTRIBUTE } from '../../src/utils/length-watcher';
+
+describe('LengthWatcher', () => {
+  let watcher: LengthWatcher;
+  let onProbeResize: ResizeObserverCallback;
+  let disconnect: ReturnType<typeof vi.fn>;
+
+  function getProbe(): HTMLElement | null {
+    return document.querySelector(`[${LENGTH_PROBE_ATTRIBUTE}]`);
+  }
+
+  function resizeProbe(width: number): void {
+    onProbeResize(
+      [{ target: getProbe(), contentRect: { width } } as unknown as ResizeObserverEntry],
+      {} as ResizeObserver
+    );
+  }
+
+  beforeEach(() => {
+    watcher = new LengthWatcher();
+    disconnect = vi.fn();
+    global.ResizeObserver = vi.fn().mockImplementation((callback: ResizeObserverCallback) => {
+      onProbeResize = callback;
+      return { observe: vi.fn(), unobserve: vi.fn(), disconnect };
+    });
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should add one hidden 1rem probe per window', () => {
+    watcher.watch(document.createElement('div'), vi.fn());
+    watcher.watch(document.createElement('div'), vi.fn());
+
+    const probes = document.querySelectorAll(`[${LENGTH_PROBE_ATTRIBUTE}]`);
+    expect(probes).toHaveLength(1);
+    expect((probes[0] as HTMLElement).style.width).toBe('1rem');
+    expect(probes[0]!.getAttribute('aria-hidden')).toBe('true');
+  });
+
+  it('should call back when the root font size changes', () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    watcher.watch(document.createElement('div'), first);
+    watcher.watch(document.createElement('div'), second);
+
+    resizeProbe(20);
+
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not call back for the first observation of an unchanged probe', () => {
+    const onChange = vi.fn();
+    watcher.watch(document.createElement('div'), onChange);
+
+    resizeProbe(getProbe()!.getBoundingClientRect().width);
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('should call back when the viewport resizes', () => {
+    const onChange = vi.fn();
+    watcher.watch(document.createElement('div'), onChange);
+
+    window.dispatchEvent(new Event('resize'));
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it('should replace the callback when watching twice', () => {
+    const element = document.createElement('div');
+    const first = vi.fn();
+    const second = vi.fn();
+    watcher.watch(element, first);
+    watcher.watch(element, second);
+
+    window.dispatchEvent(new Event('resize'));
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  it('should remove the probe and listeners with the last watched element', () => {
+    const first = document.createElement('div');
+    const second = document.createElement('div');
+    const onChange = vi.fn();
+    watcher.watch(first, onChange);
+    watcher.watch(second, onChange);
+
+    watcher.unwatch(first);
+    expect(getProbe()).not.toBeNull();
+    expect(watcher.has(first)).toBe(false);
+
+    watcher.unwatch(second);
+    window.dispatchEvent(new Event('resize'));
+
+    expect(getProbe()).toBeNull();
+    expect(disconnect).toHaveBeenCalled();
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('should ignore elements that are not watched', () => {
+    expect(() => watcher.unwatch(document.createElement('div'))).not.toThrow();
+  });
+});
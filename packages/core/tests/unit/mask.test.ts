@@ -0,0 +1,130 @@
+/**
+ * Unit Tests: Mask Renderer
+ * Tests for renderers/mask.ts
+ * Coverage target: >90%
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MaskRenderer } from '../../src/renderers/mask';
+import type { SquircleConfig } from '../../src/core/types';
+import { createSizedElement } from './test-helpers';
+
+describe('MaskRenderer', () => {
+  let renderer: MaskRenderer;
+  let consoleWarnSpy: ReturnType<typeof vi.spyOn>;
+  const config: SquircleConfig = { radius: 20, smoothing: 0.8 };
+
+  beforeEach(() => {
+    renderer = new MaskRenderer();
+    consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    global.ResizeObserver = vi.fn().mockImplementation((callback) => ({
+      observe: vi.fn(),
+      unobserve: vi.fn(),
+      disconnect: vi.fn(),
+      _callback: callback,
+    }));
+  });
+
+  afterEach(() => {
+    consoleWarnSpy.mockRestore();
+    vi.restoreAllMocks();
+    document.body.innerHTML = '';
+  });
+
+  describe('apply()', () => {
+    it('should set an SVG data-URI mask-image instead of clip-path', () => {
+      const element = createSizedElement(200, 100);
+
+      renderer.apply(element, config);
+
+      const mask = element.style.getPropertyValue('mask-image');
+      expect(mask).toContain('data:image/svg+xml');
+      expect(decodeURIComponent(mask)).toContain("viewBox='0 0 200 100'");
+      expect(decodeURIComponent(mask)).toMatch(/<path d='M /);
+      expect(element.style.clipPath).toBe('');
+    });
+
+    it('should set -webkit- prefixed properties too', () => {
+      const element = createSizedElement(200, 100);
+
+      renderer.apply(element, config);
+
+      expect(element.style.getPropertyValue('-webkit-mask-image')).toBe(
+        element.style.getPropertyValue('mask-image')
+      );
+    });
+
+    it('should size the mask to the border box without repeating', () => {
+      const element = createSizedElement(200, 100);
+
+      renderer.apply(element, config);
+
+      expect(element.style.getPropertyValue('mask-size')).toBe('100% 100%');
+      expect(element.style.getPropertyValue('mask-repeat')).toBe('no-repeat');
+      expect(element.style.getPropertyValue('mask-origin')).toBe('border-box');
+    });
+
+    it('should observe resizes like the clip-path renderer', () => {
+      const element = createSizedElement(200, 100);
+
+      const observer = renderer.apply(element, config);
+
+      expect(observer.observe).toHaveBeenCalledWith(element);
+      expect(typeof observer.cleanup).toBe('function');
+    });
+
+    it('should keep observing with responsive (a mask image cannot stretch)', () => {
+      const element = createSizedElement(200, 100);
+
+      const observer = renderer.apply(element, { ...config, responsive: true });
+
+      expect(observer?.observe).toHaveBeenCalledWith(element);
+      expect(element.style.getPropertyValue('mask-image')).toContain('data:image/svg+xml');
+    });
+
+    it('should skip zero-dimension elements', () => {
+      const element = createSizedElement(0, 0);
+
+      renderer.apply(element, config);
+
+      expect(element.style.getPropertyValue('mask-image')).toBe('');
+    });
+  });
+
+  describe('update()', () => {
+    it('should regenerate the mask with the new config', () => {
+      const element = createSizedElement(200, 100);
+
+      renderer.apply(element, config);
+      const before = element.style.getPropertyValue('mask-image');
+      renderer.update(element, { radius: 40, smoothing: 0.8 });
+
+      expect(element.style.getPropertyValue('mask-image')).not.toBe(before);
+    });
+  });
+
+  describe('remove()', () => {
+    it('should clear all mask properties and restore transition', () => {
+      const element = createSizedElement(200, 100);
+
+      renderer.apply(element, config);
+      renderer.remove(element, 'opacity 0.2s');
+
+      expect(element.style.getPropertyValue('mask-image')).toBe('');
+      expect(element.style.getPropertyValue('-webkit-mask-image')).toBe('');
+      expect(element.style.getPropertyValue('mask-size')).toBe('');
+      expect(element.style.transition).toBe('opacity 0.2s');
+    });
+
+    it('should remove the stroke layer', () => {
+      const element = createSizedElement(200, 100);
+
+      renderer.apply(element, { ...config, stroke: { width: 2, color: 'red' } });
+      expect(element.style.getPropertyValue('background-image')).toContain('data:image/svg+xml');
+
+      renderer.remove(element);
+      expect(element.style.getPropertyValue('background-image')).toBe('');
+    });
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Unit Tests: Native Renderer
+ * Tests for renderers/native.ts
+ * Coverage target: >90%
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NativeRenderer } from '../../src/renderers/native';
+import type { SquircleConfig } from '../../src/core/types';
+
+describe('NativeRenderer', () => {
+  let renderer: NativeRenderer;
+
+  beforeEach(() => {
+    renderer = new NativeRenderer();
+
+    // Browser with superellipse() support
+    global.CSS = {
+      supports: vi.fn((property: string, value: string) => {
+        return property === 'corner-shape' && value.startsWith('superellipse(');
+      }),
+    } as any;
+  });
+
+  describe('apply()', () => {
+    it('should set corner-shape: superellipse(K) mapped from smoothing', () => {
+      const element = document.createElement('div');
+      const config: SquircleConfig = { radius: 20, smoothing: 0.6 };
+
+      renderer.apply(element, config);
+
+      expect(element.style.getPropertyValue('corner-shape')).toBe('superellipse(1.78)');
+    });
+
+    it('should use superellipse(1) (round) for smoothing=0', () => {
+      const element = document.createElement('div');
+
+      renderer.apply(element, { radius: 20, smoothing: 0 });
+
+      expect(element.style.getPropertyValue('corner-shape')).toBe('superellipse(1)');
+      expect(element.style.borderRadius).toBe('20px');
+    });
+
+    it('should set border-radius to the Figma corner extent (1 + smoothing) × radius', () => {
+      const element = document.createElement('div');
+
+      renderer.apply(element, { radius: 20, smoothing: 0.8 });
+
+      expect(element.style.borderRadius).toBe('36px');
+    });
+
+    it('should emit per-corner border-radius and corner-shape lists', () => {
+      const element = document.createElement('div');
+
+      renderer.apply(element, {
+        radius: { topLeft: 20, topRight: 20, bottomRight: 0, bottomLeft: 0 },
+        smoothing: { topLeft: 0, topRight: 0, bottomRight: 0, bottomLeft: 0.6 },
+      });
+
+      expect(element.style.borderRadius).toBe('20px 20px 0px 0px');
+      expect(element.style.getPropertyValue('corner-shape')).toBe(
+        'superellipse(1) superellipse(1) superellipse(1) superellipse(1.78)'
+      );
+    });
+
+    it('should use the x / y border-radius syntax for elliptical corners', () => {
+      const element = document.createElement('div');
+      // jsdom drops the slash syntax, so check the value written instead
+      const setBorderRadius = vi.spyOn(Object.getPrototypeOf(element.style), 'borderRadius', 'set');
+
+      renderer.apply(element, { radius: 40, radiusY: 20, smoothing: 0 });
+
+      expect(setBorderRadius).toHaveBeenLastCalledWith('40px / 20px');
+      setBorderRadius.mockRestore();
+    });
+
+    it('should keep rem radii as CSS lengths inside the Figma corner extent', () => {
+      const element = document.createElement('div');
+      const setBorderRadius = vi.spyOn(Object.getPrototypeOf(element.style), 'borderRadius', 'set');
+
+      renderer.apply(element, {
+        radius: { topLeft: 24, topRight: 24, bottomRight: 10, bottomLeft: 10 },
+        smoothing: 0.6,
+        lengths: { radius: { topLeft: '1.5rem', topRight: '1.5rem', bottomRight: '10%' } },
+      });
+
+      expect(setBorderRadius).toHaveBeenLastCalledWith(
+        'calc(1.6 * 1.5rem) calc(1.6 * 1.5rem) 16px 16px'
+      );
+      setBorderRadius.mockRestore();
+    });
+
+    it('should fall back to the squircle keyword without superellipse() support', () => {
+      global.CSS = {
+        supports: vi.fn((property: string, value: string) => {
+          return property === 'corner-shape' && value === 'squircle';
+        }),
+      } as any;
+      const element = document.createElement('div');
+
+      renderer.apply(element, { radius: 20, smoothing: 0.8 });
+
+      expect(element.style.getPropertyValue('corner-shape')).toBe('squircle');
+    });
+
+    it('should map the superellipse exponent to K = log2(n) without enlarging the radius', () => {
+      const element = document.createElement('div');
+
+      renderer.apply(element, {
+        radius: 20,
+        smoothing: 0.6,
+        algorithm: 'superellipse',
+        exponent: 8,
+      });
+
+      expect(element.style.borderRadius).toBe('20px');
+      expect(element.style.getPropertyValue('corner-shape')).toBe('superellipse(3)');
+    });
+
+    it('should derive the superellipse exponent from smoothing without an override', () => {
+      const element = document.createElement('div');
+
+      renderer.apply(element, { radius: 20, smoothing: 0, algorithm: 'superellipse' });
+
+      expect(element.style.getPropertyValue('corner-shape')).toBe('superellipse(1)');
+    });
+
+    it('should probe superellipse() support only once', () => {
+      const first = document.createElement('div');
+      const second = document.createElement('div');
+
+      renderer.apply(first, { radius: 20, smoothing: 0.8 });
+      renderer.apply(second, { radius: 20, smoothing: 0.8 });
+
+      expect(CSS.supports).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('update()', () => {
+    it('should update border-radius and corner-shape', () => {
+      const element = document.createElement('div');
+
+      renderer.apply(element, { radius: 20, smoothing: 0.6 });
+      renderer.update(element, { radius: 10, smoothing: 1 });
+
+      expect(element.style.borderRadius).toBe('20px');
+      expect(element.style.getPropertyValue('corner-shape')).toBe('superellipse(2.13)');
+    });
+  });
+
+  describe('remove()', () => {
+    it('should clear corner-shape and border-radius', () => {
+      const element = document.createElement('div');
+
+      renderer.apply(element, { radius: 20, smoothing: 0.8 });
+      renderer.remove(element);
+
+      expect(element.style.getPropertyValue('corner-shape')).toBe('');
+      expect(element.style.borderRadius).toBe('');
+    });
+
+    it('should restore original transition when provided', () => {
+      const element = document.createElement('div');
+
+      renderer.apply(element, { radius: 20, smoothing: 0.8 });
+      renderer.remove(element, 'opacity 0.3s');
+
+      expect(element.style.transition).toBe('opacity 0.3s');
+    });
+
+    it('should restore original border-radius when provided', () => {
+      const element = document.createElement('div');
+      element.style.borderRadius = '6px';
+
+      renderer.apply(element, { radius: 20, smoothing: 0.8 });
+      renderer.remove(element, undefined, '6px');
+
+      expect(element.style.borderRadius).toBe('6px');
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Unit Tests: SVG Path Data
+ * Tests for math/path-data.ts
+ * Coverage target: >90%
+ */
+
+import { describe, it, expect } from 'vitest';
+import { scalePath, toAbsoluteCommands } from '../../src/math/path-data';
+import { generateSquirclePath } from '../../src/math/path-generator';
+
+describe('toAbsoluteCommands()', () => {
+  it('should parse absolute move, line and cubic commands', () => {
+    expect(toAbsoluteCommands('M 10,0 L 90,0 C 95,0 100,5 100,10 Z')).toEqual([
+      { type: 'M', to: { x: 10, y: 0 } },
+      { type: 'L', to: { x: 90, y: 0 } },
+      { type: 'C', control1: { x: 95, y: 0 }, control2: { x: 100, y: 5 }, to: { x: 100, y: 10 } },
+      { type: 'Z' },
+    ]);
+  });
+
+  it('should resolve relative commands, H and V', () => {
+    expect(toAbsoluteCommands('m 10 10 h 80 v 30 l -80 0 z')).toEqual([
+      { type: 'M', to: { x: 10, y: 10 } },
+      { type: 'L', to: { x: 90, y: 10 } },
+      { type: 'L', to: { x: 90, y: 40 } },
+      { type: 'L', to: { x: 10, y: 40 } },
+      { type: 'Z' },
+    ]);
+  });
+
+  it('should treat extra coordinate pairs after M as line-tos', () => {
+    expect(toAbsoluteCommands('M 0 0 10 0 10 10')).toEqual([
+      { type: 'M', to: { x: 0, y: 0 } },
+      { type: 'L', to: { x: 10, y: 0 } },
+      { type: 'L', to: { x: 10, y: 10 } },
+    ]);
+  });
+
+  it('should parse numbers packed without separators', () => {
+    expect(toAbsoluteCommands('M0-5L.5.5')).toEqual([
+      { type: 'M', to: { x: 0, y: -5 } },
+      { type: 'L', to: { x: 0.5, y: 0.5 } },
+    ]);
+  });
+
+  it('should reflect the previous control point for S', () => {
+    const [, , smooth] = toAbsoluteCommands('M 0 0 C 0 10 10 20 20 20 S 40 30 40 40');
+
+    expect(smooth).toEqual({
+      type: 'C',
+      control1: { x: 30, y: 20 },
+      control2: { x: 40, y: 30 },
+      to: { x: 40, y: 40 },
+    });
+  });
+
+  it('should convert quadratic curves (Q and T) to cubics', () => {
+    const [, quadratic, smooth] = toAbsoluteCommands('M 0 0 Q 30 0 30 30 T 30 60');
+
+    expect(quadratic).toEqual({
+      type: 'C',
+      control1: { x: 20, y: 0 },
+      control2: { x: 30, y: 10 },
+      to: { x: 30, y: 30 },
+    });
+    // T reflects (30, 0) through (30, 30)
+    expect(smooth).toMatchObject({ control1: { x: 30, y: 50 }, to: { x: 30, y: 60 } });
+  });
+
+  it('should convert arcs to cubics on the circle', () => {
+    const commands = toAbsoluteCommands('M 0 10 a 10 10 0 0 1 10 -10');
+    const arc = commands[1];
+
+    expect(commands).toHaveLength(2);
+    expect(arc?.type).toBe('C');
+    if (arc?.type === 'C') {
+      // Quarter circle: handles are 0.5523 × radius long
+      expect(arc.control1.x).toBeCloseTo(0, 6);
+      expect(arc.control1.y).toBeCloseTo(10 - 5.5228, 3);
+      expect(arc.control2.x).toBeCloseTo(10 - 5.5228, 3);
+      expect(arc.to).toEqual({ x: 10, y: 0 });
+    }
+  });
+
+  it('should split arcs into segments of at most 90°', () => {
+    // Half circle, radius scaled up to reach the end point
+    const commands = toAbsoluteCommands('M 0 0 A 1 1 0 0 1 20 0');
+    const middle = commands[1] as { to: { x: number; y: number } };
+
+    expect(commands.filter((command) => command.type === 'C')).toHaveLength(2);
+    expect(middle.to.x).toBeCloseTo(10, 6);
+    expect(middle.to.y).toBeCloseTo(-10, 6);
+    expect(commands[2]).toMatchObject({ to: { x: 20, y: 0 } });
+  });
+
+  it('should draw arcs with a zero radius as lines', () => {
+    expect(toAbsoluteCommands('M 0 0 A 0 10 0 0 1 10 10')[1]).toEqual({
+      type: 'L',
+      to: { x: 10, y: 10 },
+    });
+  });
+
+  it('should return to the subpath start after Z', () => {
+    const commands = toAbsoluteCommands('M 10 10 L 20 10 Z l 5 5');
+
+    expect(commands[3]).toEqual({ type: 'L', to: { x: 15, y: 15 } });
+  });
+
+  it('should stop at malformed data', () => {
+    expect(toAbsoluteCommands('')).toEqual([]);
+    expect(toAbsoluteCommands('10 10 L 20 20')).toEqual([]);
+    expect(toAbsoluteCommands('M 0 0 L 10')).toEqual([{ type: 'M', to: { x: 0, y: 0 } }]);
+  });
+
+  it('should keep generated squircles (with arcs) inside the element', () => {
+    const commands = toAbsoluteCommands(generateSquirclePath(200, 100, 24, 0.6));
+    const points = commands.flatMap((command) => (command.type === 'Z' ? [] : [command.to]));
+
+    points.forEach((point) => {
+      // Relative coordinates are rounded, so the end points may drift by ~0.01px
+      expect(point.x).toBeGreaterThan(-0.05);
+      expect(point.x).toBeLessThan(200.05);
+      expect(point.y).toBeGreaterThan(-0.05);
+      expect(point.y).toBeLessThan(100.05);
+    });
+    expect(commands[commands.length - 1]).toEqual({ type: 'Z' });
+  });
+});
+
+describe('scalePath()', () => {
+  it('should scale each axis separately, relative commands included', () => {
+    expect(scalePath('M 0 0 H 100 V 50 h -10 l -90 -40 Z', 2, 0.5, 2)).toBe(
+      'M 0 0 H 200 V 25 H 180 L 0 5 Z'
+    );
+    expect(scalePath('M 0 0 C 10 0 20 10 30 30', 1.5, 2, 2)).toBe('M 0 0 C 15 0 30 20 45 60');
+  });
+
+  it('should scale arc radii and end points but keep rotation and flags', () => {
+    expect(scalePath('M 0 10 a 10 10 0 0 1 10 -10', 2, 3, 2)).toBe(
+      'M 0 30 A 20 30 0 0 1 20 0'
+    );
+  });
+
+  it('should round to the precision', () => {
+    expect(scalePath('M 1 1 L 10 10', 1 / 3, 1 / 3, 1)).toBe('M 0.3 0.3 L 3.3 3.3');
+  });
+});
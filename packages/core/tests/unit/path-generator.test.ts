@@ -4,8 +4,22 @@
  * Coverage target: >90% (core functionality)
  */
 
-import { describe, it, expect } from 'vitest';
-import { generateSquirclePath, generateClipPath } from '../../src/math/path-generator';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  generateSquirclePath,
+  generateClipPath,
+  generateResponsiveClipPath,
+  generateShapePath,
+  registerShape,
+  hasShape,
+  clearPathCache,
+  configurePathCache,
+  getPathCacheStats,
+} from '../../src/math/path-generator';
+import { toAbsoluteCommands } from '../../src/math/path-data';
+import { optimizePath } from '../../src/math/path-optimizer';
+import { generateSuperellipsePath, smoothingToExponent } from '../../src/math/superellipse';
+import { generateAppleSquirclePath } from '../../src/math/apple-squircle';
 
 describe('generateSquirclePath', () => {
   // T037: Test path validity - Parse generated path with DOMParser
@@ -117,6 +131,149 @@ describe('generateSquirclePath', () => {
     });
   });
 
+  describe('smoothing budget (preserveSmoothing)', () => {
+    // 100×60 with radius 30: (1 + 0.8) × 30 = 54 along each edge, but only 30 is available
+    const corner = (path: string): string => path.split(' L ')[0]!;
+
+    it('should keep corners within half the shorter side by lowering smoothing', () => {
+      const path = generateSquirclePath(100, 60, 30, 0.8);
+
+      expect(path).toMatch(/^M 70 0 /);
+      expect(path).toContain('L 100 30 ');
+      // All smoothing spent: a plain quarter circle
+      expect(corner(path)).toBe('M 70 0 c 0 0 0 0 0 0 a 30 30 0 0 1 30 30 c 0 0 0 0 0 0');
+    });
+
+    it('should keep the smoothing and shorten the handles with preserveSmoothing', () => {
+      const path = generateSquirclePath(100, 60, 30, 0.8, { preserveSmoothing: true });
+
+      expect(path).toMatch(/^M 70 0 c /);
+      expect(path).toContain('L 100 30 ');
+      expect(corner(path)).not.toBe(corner(generateSquirclePath(100, 60, 30, 0.8)));
+      // Arc of 90 × (1 - 0.8) = 18°: chord 30 × √2 × sin(9°)
+      expect(corner(path)).toContain('a 30 30 0 0 1 6.64 6.64');
+    });
+
+    it('should not change corners that fit their budget', () => {
+      expect(generateSquirclePath(200, 200, 20, 0.8, { preserveSmoothing: true })).toBe(
+        generateSquirclePath(200, 200, 20, 0.8)
+      );
+    });
+
+    it('should share each side between corners in proportion to their radii', () => {
+      const path = generateSquirclePath(
+        100,
+        100,
+        { topLeft: 10, topRight: 40, bottomRight: 40, bottomLeft: 10 },
+        0.8
+      );
+
+      // Top-right budget: 100 × 40 / 50 = 80 wide, 100 × 40 / 80 = 50 tall
+      expect(path).toMatch(/^M 50 0 /);
+      expect(path).toContain('L 100 50 ');
+      // Top-left fits: (1 + 0.8) × 10 = 18
+      expect(path).toContain('L 0 18 ');
+    });
+  });
+
+  describe('elliptical corners (radiusY)', () => {
+    it('should stretch corners vertically by radiusY / radius', () => {
+      const path = generateSquirclePath(200, 100, 40, 0.6, { radiusY: 20 });
+
+      // (1 + 0.6) × 40 = 64 along the top edge, half of that along the sides
+      expect(path).toMatch(/^M 136 0 c /);
+      expect(path).toContain('a 40 20 0 0 1 ');
+      expect(path).toContain('L 200 68 ');
+      expect(path).toContain('L 0 32 ');
+    });
+
+    it('should draw elliptical arcs without smoothing', () => {
+      const path = generateSquirclePath(200, 100, 40, 0, { radiusY: 20 });
+
+      expect(path).toMatch(/^M 160 0 c 0 0 0 0 0 0 a 40 20 0 0 1 40 20 /);
+    });
+
+    it('should match circular corners when radiusY equals radius', () => {
+      expect(generateSquirclePath(200, 100, 40, 0.6, { radiusY: 40 })).toBe(
+        generateSquirclePath(200, 100, 40, 0.6)
+      );
+    });
+
+    it('should stretch superellipse and Apple corners too', () => {
+      expect(
+        generateSquirclePath(200, 100, 40, 0.6, { algorithm: 'superellipse', radiusY: 20 })
+      ).toBe(generateSuperellipsePath(200, 100, 40, smoothingToExponent(0.6), 20));
+      expect(generateSquirclePath(200, 100, 20, 0.6, { algorithm: 'apple', radiusY: 10 })).toBe(
+        generateAppleSquirclePath(200, 100, 20, 10)
+      );
+    });
+  });
+
+  describe('per-corner radius and smoothing', () => {
+    it('should produce the same path for uniform per-corner objects and numbers', () => {
+      const uniform = { topLeft: 20, topRight: 20, bottomRight: 20, bottomLeft: 20 };
+
+      expect(generateSquirclePath(100, 80, uniform, 0.8)).toBe(
+        generateSquirclePath(100, 80, 20, 0.8)
+      );
+    });
+
+    it('should draw square corners where the radius is 0', () => {
+      const path = generateSquirclePath(
+        200,
+        100,
+        { topLeft: 24, topRight: 24, bottomRight: 0, bottomLeft: 0 },
+        0.6
+      );
+
+      // Bottom edge runs straight into the bottom-left corner at (0, 100)
+      expect(path).toContain('L 0 100');
+      expect(path).toContain('L 200 100');
+      expect(path).not.toMatch(/NaN|Infinity/);
+    });
+
+    it('should scale overlapping adjacent radii proportionally', () => {
+      // Top side: 80 + 80 > 100 → both scaled to 50, same as a uniform 50 top
+      const overflowing = generateSquirclePath(
+        100,
+        200,
+        { topLeft: 80, topRight: 80, bottomRight: 0, bottomLeft: 0 },
+        0
+      );
+      const fitted = generateSquirclePath(
+        100,
+        200,
+        { topLeft: 50, topRight: 50, bottomRight: 0, bottomLeft: 0 },
+        0
+      );
+
+      expect(overflowing).toBe(fitted);
+    });
+
+    it('should accept per-corner smoothing', () => {
+      const mixed = generateSquirclePath(100, 100, 20, {
+        topLeft: 0,
+        topRight: 1,
+        bottomRight: 0,
+        bottomLeft: 1,
+      });
+
+      expect(mixed).not.toBe(generateSquirclePath(100, 100, 20, 0));
+      expect(mixed).not.toBe(generateSquirclePath(100, 100, 20, 1));
+    });
+
+    it('should return a rectangle when every corner radius is 0', () => {
+      const path = generateSquirclePath(
+        100,
+        50,
+        { topLeft: 0, topRight: 0, bottomRight: 0, bottomLeft: 0 },
+        0.8
+      );
+
+      expect(path).toBe('M 0,0 L 100,0 L 100,50 L 0,50 Z');
+    });
+  });
+
   // T039: Test path optimization
   describe('path optimization (FR-033)', () => {
     it('should round coordinates to minimize path string size', () => {
@@ -143,6 +300,23 @@ describe('generateSquirclePath', () => {
       expect(bezierPath.length).toBeLessThan(500);
     });
 
+    it('should round to the configured precision for every algorithm', () => {
+      const maxDecimals = (path: string): number =>
+        Math.max(...(path.match(/\.\d+/g) ?? ['.']).map((decimals) => decimals.length - 1));
+
+      (['figma', 'superellipse', 'apple'] as const).forEach((algorithm) => {
+        expect(
+          maxDecimals(generateSquirclePath(100, 60, 17, 0.7, { algorithm, precision: 0 }))
+        ).toBe(0);
+        expect(
+          maxDecimals(generateSquirclePath(100, 60, 17, 0.7, { algorithm, precision: 4 }))
+        ).toBe(4);
+      });
+      expect(generateSquirclePath(100, 60, 17, 0.7, { precision: 2 })).toBe(
+        generateSquirclePath(100, 60, 17, 0.7)
+      );
+    });
+
     it('should not have redundant spaces', () => {
       const path = generateSquirclePath(100, 100, 20, 0.8);
 
@@ -220,6 +394,47 @@ describe('generateSquirclePath', () => {
     });
   });
 
+  describe('corner algorithms', () => {
+    it('should draw cubic-only superellipse corners', () => {
+      const path = generateSquirclePath(100, 50, 20, 0.6, { algorithm: 'superellipse' });
+
+      expect(path).toBe(generateSuperellipsePath(100, 50, 20, smoothingToExponent(0.6)));
+      expect(path).not.toMatch(/[Aa] /);
+    });
+
+    it('should use the exponent override instead of smoothing', () => {
+      expect(
+        generateSquirclePath(100, 50, 20, 0.6, { algorithm: 'superellipse', exponent: 5 })
+      ).toBe(generateSuperellipsePath(100, 50, 20, 5));
+    });
+
+    it('should map per-corner smoothing to per-corner exponents', () => {
+      const smoothing = { topLeft: 0, topRight: 1, bottomRight: 0.6, bottomLeft: 0.6 };
+
+      expect(generateSquirclePath(100, 50, 20, smoothing, { algorithm: 'superellipse' })).toBe(
+        generateSuperellipsePath(100, 50, 20, {
+          topLeft: smoothingToExponent(0),
+          topRight: smoothingToExponent(1),
+          bottomRight: smoothingToExponent(0.6),
+          bottomLeft: smoothingToExponent(0.6),
+        })
+      );
+    });
+
+    it('should draw Apple continuous corners and ignore smoothing', () => {
+      const path = generateSquirclePath(100, 50, 20, 0.6, { algorithm: 'apple' });
+
+      expect(path).toBe(generateAppleSquirclePath(100, 50, 20));
+      expect(generateSquirclePath(100, 50, 20, 1, { algorithm: 'apple' })).toBe(path);
+    });
+
+    it('should keep the Figma algorithm by default and ignore exponent', () => {
+      expect(generateSquirclePath(100, 50, 20, 0.6, { exponent: 5 })).toBe(
+        generateSquirclePath(100, 50, 20, 0.6)
+      );
+    });
+  });
+
   describe('different smoothing values', () => {
     it('should generate different paths for different smoothing values', () => {
       const path1 = generateSquirclePath(100, 100, 20, 0.5);
@@ -278,3 +493,223 @@ describe('generateClipPath', () => {
     expect(clipPath1).toBe(clipPath2);
   });
 });
+
+describe('generateResponsiveClipPath', () => {
+  const rectangle = 'M 10,0 L 190,0 L 200,10 L 200,90 L 190,100 L 10,100 L 0,90 L 0,10 Z';
+
+  it('should anchor points to the nearer edge', () => {
+    expect(generateResponsiveClipPath(200, 100, rectangle)).toBe(
+      'polygon(10px 0px, calc(100% - 10px) 0px, 100% 10px, 100% calc(100% - 10px), ' +
+        'calc(100% - 10px) 100%, 10px 100%, 0px calc(100% - 10px), 0px 10px)'
+    );
+  });
+
+  it('should write shape() with exact curves', () => {
+    expect(
+      generateResponsiveClipPath(100, 100, 'M 0,20 C 0,10 10,0 20,0 L 100,100 Z', 'shape')
+    ).toBe(
+      'shape(from 0px 20px, curve to 20px 0px with 0px 10px / 10px 0px, line to 100% 100%, close)'
+    );
+  });
+
+  it('should flatten curves into polygon points', () => {
+    const polygon = generateResponsiveClipPath(100, 100, generateSquirclePath(100, 100, 20, 0.6));
+    const points = polygon.slice('polygon('.length, -1).split(', ');
+
+    // Straight edges stay 2 points, every curve adds several
+    expect(points.length).toBeGreaterThan(40);
+    expect(points).toContain('calc(100% - 32px) 0px');
+    expect(points).toContain('0px 32px');
+  });
+
+  it('should keep corners in pixels for any size', () => {
+    const path = (width: number): string => generateSquirclePath(width, 100, 20, 0.6);
+    const corner = (value: string): string => value.slice(0, value.indexOf('line to 100%'));
+
+    // Different widths only move the straight edges
+    expect(corner(generateResponsiveClipPath(300, 100, path(300), 'shape'))).toBe(
+      corner(generateResponsiveClipPath(200, 100, path(200), 'shape'))
+    );
+  });
+
+  it('should anchor points outside the element beyond 100%', () => {
+    expect(generateResponsiveClipPath(100, 100, 'M -2,0 L 102,0 L 50,50 Z')).toBe(
+      'polygon(-2px 0px, calc(100% + 2px) 0px, 50px 50px)'
+    );
+  });
+});
+
+describe('generateShapePath', () => {
+  const config = { radius: 20, smoothing: 0.6 };
+  const diamond = (width: number, height: number): string =>
+    `M ${width / 2},0 L ${width},${height / 2} L ${width / 2},${height} L 0,${height / 2} Z`;
+  let consoleWarnSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleWarnSpy.mockRestore();
+  });
+
+  it('should generate the squircle without a shape', () => {
+    expect(generateShapePath(100, 50, config)).toBe(generateSquirclePath(100, 50, 20, 0.6));
+    expect(generateShapePath(100, 50, { ...config, shape: 'squircle' })).toBe(
+      generateSquirclePath(100, 50, 20, 0.6)
+    );
+  });
+
+  it('should pass the corner algorithm to the squircle', () => {
+    expect(generateShapePath(100, 50, { ...config, algorithm: 'superellipse', exponent: 4 })).toBe(
+      generateSuperellipsePath(100, 50, 20, 4)
+    );
+  });
+
+  it('should call a shape function with the size and config', () => {
+    const shape = vi.fn(diamond);
+
+    expect(generateShapePath(100, 50, { ...config, shape })).toBe(
+      'M 50,0 L 100,25 L 50,50 L 0,25 Z'
+    );
+    expect(shape).toHaveBeenCalledWith(100, 50, { ...config, shape });
+  });
+
+  it('should use registered named shapes', () => {
+    registerShape('diamond', diamond);
+
+    expect(hasShape('diamond')).toBe(true);
+    expect(generateShapePath(10, 10, { ...config, shape: 'diamond' })).toBe(
+      'M 5,0 L 10,5 L 5,10 L 0,5 Z'
+    );
+  });
+
+  it('should fall back to the squircle for unknown, throwing or invalid shapes', () => {
+    const squircle = generateSquirclePath(100, 50, 20, 0.6);
+
+    expect(generateShapePath(100, 50, { ...config, shape: 'missing' })).toBe(squircle);
+    expect(
+      generateShapePath(100, 50, {
+        ...config,
+        shape: () => {
+          throw new Error('boom');
+        },
+      })
+    ).toBe(squircle);
+    expect(generateShapePath(100, 50, { ...config, shape: () => "M 0,0 Z') url(x" })).toBe(
+      squircle
+    );
+    expect(consoleWarnSpy).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('generateShapePath precision', () => {
+  it('should write compact paths when precision is set', () => {
+    const config = { radius: 20, smoothing: 0.6, precision: 1 };
+    const path = generateShapePath(100, 50, config);
+
+    expect(path).toBe(optimizePath(generateSquirclePath(100, 50, 20, 0.6, config), 1));
+    expect(path).not.toContain(' c ');
+    expect(path.length).toBeLessThan(
+      generateShapePath(100, 50, { radius: 20, smoothing: 0.6 }).length
+    );
+  });
+
+  it('should compact custom shapes too', () => {
+    const shape = (): string => 'M 0,0 L 100,0 L 100,50 L 0,50 Z';
+
+    expect(generateShapePath(100, 50, { radius: 0, smoothing: 0, shape, precision: 2 })).toBe(
+      'M0 0H100V50H0Z'
+    );
+  });
+});
+
+describe('path cache', () => {
+  const config = { radius: 20, smoothing: 0.6 };
+
+  beforeEach(() => {
+    clearPathCache();
+  });
+
+  afterEach(() => {
+    configurePathCache({ maxSize: 256, quantize: 1 });
+  });
+
+  it('should reuse the path for the same size and config', () => {
+    const first = generateShapePath(120, 32, config);
+    const second = generateShapePath(120, 32, { ...config });
+
+    expect(second).toBe(first);
+    expect(first).toBe(generateSquirclePath(120, 32, 20, 0.6));
+    expect(getPathCacheStats()).toEqual({ hits: 1, misses: 1, size: 1, maxSize: 256 });
+  });
+
+  it('should key on every option that changes the squircle', () => {
+    generateShapePath(120, 32, config);
+    generateShapePath(120, 32, { ...config, algorithm: 'apple' });
+    generateShapePath(120, 32, { ...config, radiusY: 10 });
+    generateShapePath(120, 32, { ...config, preserveSmoothing: true });
+    generateShapePath(120, 32, { ...config, radius: { topLeft: 20, topRight: 0 } });
+
+    expect(generateShapePath(120, 32, { ...config, algorithm: 'apple' })).toBe(
+      generateAppleSquirclePath(120, 32, 20)
+    );
+    expect(getPathCacheStats()).toMatchObject({ hits: 1, misses: 5, size: 5 });
+  });
+
+  it('should share the path of near-identical sizes and stretch it to each size', () => {
+    configurePathCache({ quantize: 4 });
+
+    const bounds = (path: string): { width: number; height: number } => {
+      const points = toAbsoluteCommands(path).flatMap((command) =>
+        command.type === 'Z' ? [] : [command.to]
+      );
+      return {
+        width: Math.max(...points.map((point) => point.x)),
+        height: Math.max(...points.map((point) => point.y)),
+      };
+    };
+
+    // Both sizes use the 120 × 32 path, but neither loses an edge to it
+    expect(bounds(generateShapePath(121, 31, config))).toEqual({ width: 121, height: 31 });
+    expect(bounds(generateShapePath(119, 33, config))).toEqual({ width: 119, height: 33 });
+    expect(generateShapePath(120, 32, config)).toBe(generateSquirclePath(120, 32, 20, 0.6));
+    expect(getPathCacheStats()).toMatchObject({ hits: 2, misses: 1 });
+  });
+
+  it('should evict the least recently used path', () => {
+    configurePathCache({ maxSize: 2 });
+
+    generateShapePath(100, 40, config);
+    generateShapePath(200, 40, config);
+    generateShapePath(100, 40, config); // 100 × 40 is now the most recent
+    generateShapePath(300, 40, config); // evicts 200 × 40
+
+    generateShapePath(100, 40, config);
+    generateShapePath(200, 40, config);
+
+    expect(getPathCacheStats()).toEqual({ hits: 2, misses: 4, size: 2, maxSize: 2 });
+  });
+
+  it('should not cache with maxSize 0 or custom shapes', () => {
+    const shape = vi.fn((width: number, height: number) => `M 0,0 L ${width},${height} Z`);
+
+    generateShapePath(100, 40, { ...config, shape });
+    generateShapePath(100, 40, { ...config, shape });
+    configurePathCache({ maxSize: 0 });
+    generateShapePath(100, 40, config);
+    generateShapePath(100, 40, config);
+
+    expect(shape).toHaveBeenCalledTimes(2);
+    expect(getPathCacheStats()).toEqual({ hits: 0, misses: 0, size: 0, maxSize: 0 });
+  });
+
+  it('should reset the stats on clearPathCache()', () => {
+    generateShapePath(100, 40, config);
+    generateShapePath(100, 40, config);
+
+    clearPathCache();
+
+    expect(getPathCacheStats()).toMatchObject({ hits: 0, misses: 0, size: 0 });
+  });
+});
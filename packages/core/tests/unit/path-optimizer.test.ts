@@ -0,0 +1,78 @@
+/**
+ * Unit Tests: Path Optimizer
+ * Tests for math/path-optimizer.ts and math/precision.ts
+ * Coverage target: >90%
+ */
+
+import { describe, it, expect } from 'vitest';
+import { optimizePath } from '../../src/math/path-optimizer';
+import { roundTo } from '../../src/math/precision';
+import { toAbsoluteCommands } from '../../src/math/path-data';
+import { generateSquirclePath } from '../../src/math/path-generator';
+
+describe('roundTo()', () => {
+  it('should round to the given decimal places (default 2)', () => {
+    expect(roundTo(1.23456)).toBe(1.23);
+    expect(roundTo(1.23456, 0)).toBe(1);
+    expect(roundTo(1.23456, 4)).toBe(1.2346);
+  });
+});
+
+describe('optimizePath()', () => {
+  it('should drop separators, leading zeros and repeated command letters', () => {
+    expect(optimizePath('M 10,0 L 90,0 L 90,0.5 C 95,0.5 100,5 100,10 Z')).toBe(
+      'M10 0H90V.5c5 0 10 4.5 10 9.5Z'
+    );
+    expect(optimizePath('M 0 0 L 10 10 L 20 30')).toBe('M0 0 10 10 20 30');
+  });
+
+  it('should only separate numbers that would merge', () => {
+    expect(optimizePath('M 0.5 0.25 L -0.5 -1.5')).toBe('M.5.25-.5-1.5');
+    expect(optimizePath('M 5 5 L 0.5 9')).toBe('M5 5 .5 9');
+  });
+
+  it('should pick relative or absolute commands, whichever is shorter', () => {
+    expect(optimizePath('M 1000 1000 L 1001 1002')).toBe('M1000 1000l1 2');
+    expect(optimizePath('M 999 999 L 1 2')).toBe('M999 999 1 2');
+  });
+
+  it('should keep arcs and separate their flags', () => {
+    expect(optimizePath('M 100 100 A 10 10 0 0 1 110 90')).toBe('M100 100a10 10 0 0 1 10-10');
+  });
+
+  it('should round to the precision without accumulating errors', () => {
+    // Steps of 0.4 would each round to 0; the rounded absolute positions are 0, 1 and 1
+    expect(optimizePath('M 0 0 l 0.4 0 l 0.4 0 l 0.4 0', 0)).toBe('M0 0H0 1 1');
+    expect(optimizePath('M 0.12345 0 L 1 0', 4)).toBe('M.1235 0H1');
+  });
+
+  it('should write -0 as 0', () => {
+    expect(optimizePath('M 0 -0.001 L 5 -0.001')).toBe('M0 0H5');
+  });
+
+  it('should draw the same outline as the generated squircle', () => {
+    (['figma', 'superellipse', 'apple'] as const).forEach((algorithm) => {
+      const path = generateSquirclePath(200, 100, { topLeft: 30, bottomRight: 12 }, 0.6, {
+        algorithm,
+      });
+      const optimized = optimizePath(path);
+      const original = toAbsoluteCommands(path);
+      const compact = toAbsoluteCommands(optimized);
+
+      expect(optimized.length).toBeLessThan(path.length);
+      expect(compact).toHaveLength(original.length);
+      compact.forEach((command, index) => {
+        const expected = original[index];
+        if (command.type !== 'Z' && expected && expected.type !== 'Z') {
+          expect(command.to.x).toBeCloseTo(expected.to.x, 1);
+          expect(command.to.y).toBeCloseTo(expected.to.y, 1);
+        }
+      });
+    });
+  });
+
+  it('should return an empty string for empty or invalid data', () => {
+    expect(optimizePath('')).toBe('');
+    expect(optimizePath('10 10')).toBe('');
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Unit Tests: Scoped DOM Queries
+ * Tests for utils/query.ts
+ * Coverage target: >90%
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { findShadowRoots, queryAll } from '../../src/utils/query';
+
+/**
+ * Host element with an open (or closed) shadow root containing the given HTML
+ */
+function createHost(html: string, mode: ShadowRootMode = 'open'): HTMLElement {
+  const host = document.createElement('div');
+  const shadowRoot = host.attachShadow({ mode });
+  shadowRoot.innerHTML = html;
+  return host;
+}
+
+describe('findShadowRoots()', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should find nested open shadow roots, outer roots first', () => {
+    const outer = createHost('<span></span>');
+    const inner = createHost('<b></b>');
+    outer.shadowRoot?.appendChild(inner);
+    document.body.appendChild(outer);
+
+    expect(findShadowRoots(document)).toEqual([outer.shadowRoot, inner.shadowRoot]);
+  });
+
+  it("should include an element root's own shadow root", () => {
+    const host = createHost('<span></span>');
+
+    expect(findShadowRoots(host)).toEqual([host.shadowRoot]);
+  });
+
+  it('should skip closed shadow roots', () => {
+    document.body.appendChild(createHost('<span></span>', 'closed'));
+
+    expect(findShadowRoots(document)).toEqual([]);
+  });
+});
+
+describe('queryAll()', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should only search the light DOM by default', () => {
+    document.body.innerHTML = '<i class="match"></i>';
+    document.body.appendChild(createHost('<i class="match"></i>'));
+
+    expect(queryAll(document, '.match')).toHaveLength(1);
+  });
+
+  it('should search open shadow roots with deep, after the light DOM', () => {
+    const host = createHost('<i class="match" id="shadow"></i>');
+    document.body.appendChild(host);
+    document.body.insertAdjacentHTML('beforeend', '<i class="match" id="light"></i>');
+
+    expect(queryAll(document, '.match', true).map((element) => element.id)).toEqual([
+      'light',
+      'shadow',
+    ]);
+  });
+
+  it('should search inside a shadow root or element root', () => {
+    const host = createHost('<i class="match"></i><i></i>');
+
+    expect(queryAll(host.shadowRoot as ShadowRoot, '.match')).toHaveLength(1);
+    expect(queryAll(host, '.match')).toHaveLength(0);
+    expect(queryAll(host, '.match', true)).toHaveLength(1);
+  });
+
+  it('should throw for invalid selectors', () => {
+    expect(() => queryAll(document, '[[')).toThrow();
+  });
+});
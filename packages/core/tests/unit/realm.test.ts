@@ -0,0 +1,60 @@
+/**
+ * Unit Tests: Realm Helpers
+ * Tests for utils/realm.ts
+ * Coverage target: >90%
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { Window } from 'happy-dom';
+import { getWindow, isHTMLElement } from '../../src/utils/realm';
+
+describe('getWindow()', () => {
+  it("should return the node's own window", () => {
+    const popup = new Window();
+    const element = popup.document.createElement('div');
+
+    expect(getWindow(element as unknown as Node)).toBe(popup);
+    expect(getWindow(popup.document as unknown as Node)).toBe(popup);
+    expect(getWindow(document.createElement('div'))).toBe(window);
+
+    popup.close();
+  });
+
+  it('should fall back to the current window for documents without one', () => {
+    const detached = document.implementation.createHTMLDocument('');
+
+    expect(getWindow(detached.createElement('div'))).toBe(window);
+  });
+});
+
+describe('isHTMLElement()', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should accept HTMLElements of this window', () => {
+    expect(isHTMLElement(document.createElement('button'))).toBe(true);
+  });
+
+  it("should accept HTMLElements of another window (its own window's HTMLElement)", () => {
+    const frame = new Window();
+    const element = frame.document.createElement('div');
+
+    // Another realm: the element is not an instance of this window's HTMLElement
+    vi.stubGlobal('HTMLElement', class ForeignHTMLElement {});
+    expect(element instanceof HTMLElement).toBe(false);
+    expect(isHTMLElement(element)).toBe(true);
+
+    frame.close();
+  });
+
+  it('should reject other nodes and values', () => {
+    expect(isHTMLElement(document.createElementNS('http://www.w3.org/2000/svg', 'svg'))).toBe(
+      false
+    );
+    expect(isHTMLElement(document.createTextNode('text'))).toBe(false);
+    expect(isHTMLElement(null)).toBe(false);
+    expect(isHTMLElement('div')).toBe(false);
+    expect(isHTMLElement({ ownerDocument: { defaultView: {} } })).toBe(false);
+  });
+});
@@ -232,6 +232,22 @@ describe('ElementRegistry', () => {
       expect(intersectionObserver.disconnect).toHaveBeenCalled();
     });
 
+    it('should unwrap a tracked shadow wrapper', () => {
+      const parent = document.createElement('div');
+      const wrapper = document.createElement('div');
+      const element = document.createElement('div');
+      parent.appendChild(wrapper);
+      wrapper.appendChild(element);
+      const config: SquircleConfig = { radius: 20, smoothing: 0.8 };
+
+      registry.register(element, config, RendererTier.CLIPPATH);
+      registry.setShadowWrapper(element, wrapper);
+      registry.delete(element);
+
+      expect(element.parentNode).toBe(parent);
+      expect(wrapper.parentNode).toBeNull();
+    });
+
     it('should be safe to delete unregistered element', () => {
       const element = document.createElement('div');
 
@@ -351,6 +367,54 @@ describe('ElementRegistry', () => {
     });
   });
 
+  describe('setPaused()', () => {
+    it('should cancel pending renders, disconnect and observe again', () => {
+      const element = document.createElement('div');
+      const observer = Object.assign(new ResizeObserver(() => {}), { cleanup: vi.fn() });
+
+      registry.register(element, { radius: 20, smoothing: 0.8 }, RendererTier.CLIPPATH, observer);
+
+      expect(registry.setPaused(element, true)).toBe(true);
+      expect(observer.cleanup).toHaveBeenCalled();
+      expect(observer.disconnect).toHaveBeenCalled();
+      expect(registry.get(element)?.paused).toBe(true);
+
+      expect(registry.setPaused(element, false)).toBe(true);
+      expect(observer.observe).toHaveBeenCalledWith(element);
+      expect(registry.get(element)?.paused).toBe(false);
+    });
+
+    it('should report unchanged states and unregistered elements', () => {
+      const element = document.createElement('div');
+
+      expect(registry.setPaused(element, true)).toBe(false);
+
+      registry.register(element, { radius: 20, smoothing: 0.8 }, RendererTier.NATIVE);
+      expect(registry.setPaused(element, false)).toBe(false);
+      expect(registry.setPaused(element, true)).toBe(true);
+      expect(registry.setPaused(element, true)).toBe(false);
+    });
+  });
+
+  describe('releaseSignal', () => {
+    it('should be called when the element is applied again or deleted', () => {
+      const element = document.createElement('div');
+      const config = { radius: 20, smoothing: 0.8 };
+      const first = vi.fn();
+      const second = vi.fn();
+
+      registry.register(element, config, RendererTier.NATIVE);
+      (registry.get(element) as ManagedElement).releaseSignal = first;
+      registry.register(element, config, RendererTier.NATIVE);
+      expect(first).toHaveBeenCalledTimes(1);
+      expect(registry.get(element)?.releaseSignal).toBeUndefined();
+
+      (registry.get(element) as ManagedElement).releaseSignal = second;
+      registry.delete(element);
+      expect(second).toHaveBeenCalledTimes(1);
+    });
+  });
+
   // T107: Test WeakMap garbage collection (manual test)
   describe('WeakMap behavior', () => {
     it('should use WeakMap internally', () => {
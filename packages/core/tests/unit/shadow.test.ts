@@ -0,0 +1,119 @@
+/**
+ * Unit Tests: Shadow Wrapper
+ * Tests for utils/shadow.ts
+ * Coverage target: >90%
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  SHADOW_WRAPPER_ATTRIBUTE,
+  formatShadowFilter,
+  wrapElement,
+  unwrapElement,
+} from '../../src/utils/shadow';
+
+describe('formatShadowFilter()', () => {
+  it('should format a single shadow as drop-shadow()', () => {
+    expect(formatShadowFilter([{ offsetX: 1, offsetY: 4, blur: 12, color: 'rgba(0, 0, 0, 0.2)' }])).toBe(
+      'drop-shadow(1px 4px 12px rgba(0, 0, 0, 0.2))'
+    );
+  });
+
+  it('should default lengths to 0 and omit a missing color', () => {
+    expect(formatShadowFilter([{ offsetY: 2 }])).toBe('drop-shadow(0px 2px 0px)');
+  });
+
+  it('should layer multiple shadows in order', () => {
+    expect(
+      formatShadowFilter([
+        { offsetY: 1, blur: 2, color: 'red' },
+        { offsetY: 8, blur: 24, color: 'blue' },
+      ])
+    ).toBe('drop-shadow(0px 1px 2px red) drop-shadow(0px 8px 24px blue)');
+  });
+});
+
+describe('wrapElement() / unwrapElement()', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    container = document.createElement('section');
+    container.innerHTML = '<p id="before"></p><div id="target"></div><p id="after"></p>';
+    document.body.appendChild(container);
+  });
+
+  it('should insert a wrapper in place of the element', () => {
+    const element = document.getElementById('target')!;
+
+    const wrapper = wrapElement(element);
+
+    expect(wrapper).not.toBeNull();
+    expect(wrapper!.hasAttribute(SHADOW_WRAPPER_ATTRIBUTE)).toBe(true);
+    expect(element.parentNode).toBe(wrapper);
+    expect(Array.from(container.children).map((child) => child.id || child.tagName)).toEqual([
+      'before',
+      'DIV',
+      'after',
+    ]);
+  });
+
+  it('should use an inline-block span for inline elements', () => {
+    const element = document.createElement('a');
+    element.style.display = 'inline';
+    container.appendChild(element);
+
+    const wrapper = wrapElement(element)!;
+
+    expect(wrapper.tagName).toBe('SPAN');
+    expect(wrapper.style.display).toBe('inline-block');
+  });
+
+  it('should use a block div for block elements', () => {
+    const wrapper = wrapElement(document.getElementById('target')!)!;
+
+    expect(wrapper.tagName).toBe('DIV');
+    expect(wrapper.style.display).toBe('block');
+  });
+
+  it('should return null for detached elements', () => {
+    expect(wrapElement(document.createElement('div'))).toBeNull();
+  });
+
+  it('should restore the original DOM position on unwrap', () => {
+    const element = document.getElementById('target')!;
+    const wrapper = wrapElement(element)!;
+
+    unwrapElement(element, wrapper);
+
+    expect(wrapper.isConnected).toBe(false);
+    expect(Array.from(container.children).map((child) => child.id)).toEqual([
+      'before',
+      'target',
+      'after',
+    ]);
+  });
+
+  it('should keep focus on the element while wrapping and unwrapping', () => {
+    const element = document.createElement('button');
+    container.appendChild(element);
+    element.focus();
+
+    const wrapper = wrapElement(element)!;
+    expect(document.activeElement).toBe(element);
+
+    unwrapElement(element, wrapper);
+    expect(document.activeElement).toBe(element);
+  });
+
+  it('should only drop the wrapper if the element was moved out of it', () => {
+    const element = document.getElementById('target')!;
+    const wrapper = wrapElement(element)!;
+    document.body.appendChild(element);
+
+    unwrapElement(element, wrapper);
+
+    expect(wrapper.isConnected).toBe(false);
+    expect(element.parentNode).toBe(document.body);
+  });
+});
@@ -3,6 +3,11 @@ import {
   smoothingToExponent,
   generateCornerPoints,
   generateSquircleCorners,
+  smoothingToSuperellipse,
+  smoothingToCircularRadius,
+  fitSuperellipseQuadrant,
+  generateSuperellipsePath,
+  type CubicSegment,
   type SuperellipsePoint,
 } from '../../src/math/superellipse';
 
@@ -259,3 +264,187 @@ describe.skip('Superellipse Math Engine (OLD IMPLEMENTATION - DEPRECATED)', () =
     });
   });
 });
+
+describe('smoothingToSuperellipse()', () => {
+  it('should map smoothing=0 to K=1 (round corners)', () => {
+    expect(smoothingToSuperellipse(0)).toBeCloseTo(1, 10);
+  });
+
+  it('should increase K monotonically with smoothing', () => {
+    const values = [0, 0.2, 0.4, 0.6, 0.8, 1].map(smoothingToSuperellipse);
+
+    for (let i = 1; i < values.length; i++) {
+      expect(values[i]).toBeGreaterThan(values[i - 1]);
+    }
+  });
+
+  it('should cross the corner diagonal at the same point as the Figma corner', () => {
+    const radius = 20;
+    const smoothing = 0.6;
+    const n = Math.pow(2, smoothingToSuperellipse(smoothing));
+    const extent = (1 + smoothing) * radius;
+
+    const superellipseInset = extent * (1 - Math.pow(2, -1 / n));
+    const figmaInset = radius * (1 - Math.SQRT1_2);
+
+    expect(superellipseInset).toBeCloseTo(figmaInset, 10);
+  });
+
+  it('should clamp smoothing to [0, 1]', () => {
+    expect(smoothingToSuperellipse(-1)).toBe(smoothingToSuperellipse(0));
+    expect(smoothingToSuperellipse(2)).toBe(smoothingToSuperellipse(1));
+  });
+});
+
+describe('smoothingToCircularRadius()', () => {
+  it('should keep the radius unchanged for smoothing=0', () => {
+    expect(smoothingToCircularRadius(20, 0)).toBe(20);
+  });
+
+  it('should grow the radius only slightly with smoothing', () => {
+    expect(smoothingToCircularRadius(100, 0.6)).toBeCloseTo(101.944, 3);
+    expect(smoothingToCircularRadius(100, 1)).toBeCloseTo(109, 10);
+  });
+
+  it('should stay well below the Figma extent (1 + smoothing) × radius', () => {
+    [0.2, 0.5, 0.8, 1].forEach((smoothing) => {
+      expect(smoothingToCircularRadius(20, smoothing)).toBeLessThan((1 + smoothing) * 20);
+    });
+  });
+
+  it('should clamp smoothing to [0, 1]', () => {
+    expect(smoothingToCircularRadius(20, -1)).toBe(20);
+    expect(smoothingToCircularRadius(20, 2)).toBe(smoothingToCircularRadius(20, 1));
+  });
+});
+
+describe('fitSuperellipseQuadrant()', () => {
+  const bezier = ([p0, p1, p2, p3]: CubicSegment, t: number): SuperellipsePoint => {
+    const u = 1 - t;
+    return {
+      x: u * u * u * p0.x + 3 * u * u * t * p1.x + 3 * u * t * t * p2.x + t * t * t * p3.x,
+      y: u * u * u * p0.y + 3 * u * u * t * p1.y + 3 * u * t * t * p2.y + t * t * t * p3.y,
+    };
+  };
+
+  it('should run from (1, 0) to (0, 1) in connected segments', () => {
+    const segments = fitSuperellipseQuadrant(5);
+
+    expect(segments[0]![0]).toEqual({ x: 1, y: 0 });
+    expect(segments[segments.length - 1]![3].x).toBeCloseTo(0, 10);
+    expect(segments[segments.length - 1]![3].y).toBeCloseTo(1, 10);
+    segments.slice(1).forEach((segment, index) => {
+      expect(segment[0].x).toBeCloseTo(segments[index]![3].x, 10);
+      expect(segment[0].y).toBeCloseTo(segments[index]![3].y, 10);
+    });
+  });
+
+  it('should stay on the curve |x|^n + |y|^n = 1', () => {
+    [2, 4, 5, 10].forEach((exponent) => {
+      fitSuperellipseQuadrant(exponent).forEach((segment) => {
+        for (let t = 0; t <= 1; t += 0.125) {
+          const { x, y } = bezier(segment, t);
+          const radius = Math.pow(Math.pow(x, exponent) + Math.pow(y, exponent), 1 / exponent);
+          expect(Math.abs(radius - 1)).toBeLessThan(0.002);
+        }
+      });
+    });
+  });
+
+  it('should be symmetric about the diagonal', () => {
+    const segments = fitSuperellipseQuadrant(5);
+    const first = segments[0]!;
+    const last = segments[segments.length - 1]!;
+
+    expect(first[1].x).toBeCloseTo(last[2].y, 10);
+    expect(first[1].y).toBeCloseTo(last[2].x, 10);
+  });
+
+  it('should return cached segments for the same exponent', () => {
+    expect(fitSuperellipseQuadrant(5)).toBe(fitSuperellipseQuadrant(5));
+  });
+
+  it('should evict the least recently used exponent once the cache is full', () => {
+    const kept = fitSuperellipseQuadrant(4);
+    const evicted = fitSuperellipseQuadrant(6);
+
+    // Continuous exponents, as from an animation; 4 stays recently used throughout
+    for (let i = 0; i < 100; i++) {
+      fitSuperellipseQuadrant(7 + i / 100);
+      fitSuperellipseQuadrant(4);
+    }
+
+    expect(fitSuperellipseQuadrant(4)).toBe(kept);
+    expect(fitSuperellipseQuadrant(6)).not.toBe(evicted);
+    expect(fitSuperellipseQuadrant(6)).toEqual(evicted);
+  });
+});
+
+describe('generateSuperellipsePath()', () => {
+  it('should draw straight edges between four cubic corners', () => {
+    const path = generateSuperellipsePath(100, 50, 20, 5);
+
+    expect(path).toMatch(/^M 20 0 L 80 0 C /);
+    expect(path).toContain('L 100 30 C ');
+    expect(path).toContain('L 20 50 C ');
+    expect(path).toContain('L 0 20 C ');
+    expect(path).toMatch(/C [\d.]+ [\d.]+ [\d.]+ [\d.]+ 20 0 Z$/);
+    expect(path.match(/C /g)).toHaveLength(16);
+  });
+
+  it('should bulge further out than a circular corner for larger exponents', () => {
+    // Point at 45° within the top-right corner: (r·2^(-1/n)) from the corner center
+    const midpoint = (exponent: number): string => {
+      const offset = 20 * Math.pow(2, -1 / exponent);
+      return `${Math.round((80 + offset) * 100) / 100} ${Math.round((20 - offset) * 100) / 100}`;
+    };
+
+    expect(generateSuperellipsePath(100, 50, 20, 2)).toContain(midpoint(2));
+    expect(generateSuperellipsePath(100, 50, 20, 5)).toContain(midpoint(5));
+  });
+
+  it('should support per-corner radius and exponent', () => {
+    const path = generateSuperellipsePath(
+      100,
+      100,
+      { topLeft: 20, topRight: 0, bottomRight: 20, bottomLeft: 20 },
+      { topLeft: 5, topRight: 5, bottomRight: 2, bottomLeft: 5 }
+    );
+
+    expect(path).toMatch(/^M 20 0 L 100 0 L 100 80 C /);
+    expect(path.match(/C /g)).toHaveLength(12);
+    expect(path).not.toBe(
+      generateSuperellipsePath(
+        100,
+        100,
+        { topLeft: 20, topRight: 0, bottomRight: 20, bottomLeft: 20 },
+        5
+      )
+    );
+  });
+
+  it('should draw a plain rectangle for radius 0', () => {
+    expect(generateSuperellipsePath(100, 50, 0, 5)).toBe('M 0 0 L 100 0 L 100 50 L 0 50 L 0 0 Z');
+  });
+
+  it('should scale radii down when corners would overlap', () => {
+    expect(generateSuperellipsePath(40, 40, 30, 5)).toMatch(/^M 20 0 L 20 0 C /);
+  });
+
+  it('should clamp exponents below 2', () => {
+    expect(generateSuperellipsePath(100, 50, 20, 1)).toBe(generateSuperellipsePath(100, 50, 20, 2));
+  });
+
+  it('should stretch corners vertically with radiusY', () => {
+    const path = generateSuperellipsePath(200, 100, 40, 4, 20);
+
+    expect(path).toMatch(/^M 40 0 L 160 0 C /);
+    expect(path).toContain('L 200 80 C ');
+    expect(path).toContain('L 0 20 C ');
+    // Same horizontal profile as the circular corner
+    expect(path).toContain('C 178.02 0 180.84 0.26 184.74 0.78 ');
+    expect(generateSuperellipsePath(200, 100, 40, 4)).toContain(
+      'C 178.02 0 180.84 0.51 184.74 1.55 '
+    );
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Unit Tests: SVG Utilities
+ * Tests for utils/svg.ts
+ * Coverage target: >85%
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  escapeAttribute,
+  toCssUrl,
+  createSvg,
+  createLinearGradient,
+  createStrokeSvg,
+  createFillSvg,
+} from '../../src/utils/svg';
+
+const PATH = 'M 0,0 L 100,0 L 100,50 L 0,50 Z';
+
+describe('escapeAttribute()', () => {
+  it('should escape XML attribute delimiters', () => {
+    expect(escapeAttribute(`red' onload='x"<&>`)).toBe(
+      'red&apos; onload=&apos;x&quot;&lt;&amp;&gt;'
+    );
+  });
+});
+
+describe('toCssUrl()', () => {
+  it('should percent-encode the SVG so it cannot terminate url()', () => {
+    const url = toCssUrl(`<svg a='")'/>`);
+
+    expect(url.startsWith('url("data:image/svg+xml,')).toBe(true);
+    expect(url.slice(5, -2)).not.toMatch(/["')]/);
+  });
+});
+
+describe('createSvg()', () => {
+  it('should size the document to the element', () => {
+    const svg = createSvg(120.456, 40, '');
+
+    expect(svg).toContain("width='120.46'");
+    expect(svg).toContain("viewBox='0 0 120.46 40'");
+  });
+});
+
+describe('createLinearGradient()', () => {
+  it('should run top to bottom for 180deg (CSS default)', () => {
+    const gradient = createLinearGradient('g', 100, 50, 180, ['red', 'blue']);
+
+    expect(gradient).toContain("x1='50' y1='0' x2='50' y2='50'");
+    expect(gradient).toContain("<stop offset='0' stop-color='red'/>");
+    expect(gradient).toContain("<stop offset='1' stop-color='blue'/>");
+  });
+
+  it('should run left to right for 90deg', () => {
+    const gradient = createLinearGradient('g', 100, 50, 90, ['red', 'blue']);
+
+    expect(gradient).toContain("x1='0' y1='25' x2='100' y2='25'");
+  });
+});
+
+describe('createStrokeSvg()', () => {
+  it('should draw the path at twice the width (outer half is clipped)', () => {
+    const svg = createStrokeSvg(PATH, 100, 50, { width: 2, color: '#f00' }, '#000');
+
+    expect(svg).toContain(`d='${PATH}'`);
+    expect(svg).toContain("stroke='#f00'");
+    expect(svg).toContain("stroke-width='4'");
+    expect(svg).toContain("fill='none'");
+  });
+
+  it('should clip the stroke to the path so only the inner half shows', () => {
+    const svg = createStrokeSvg(PATH, 100, 50, { width: 2 }, '#000');
+
+    expect(svg).toContain(`<clipPath id='c'><path d='${PATH}'/></clipPath>`);
+    expect(svg).toContain("clip-path='url(#c)'");
+  });
+
+  it('should use the fallback color when no color is set', () => {
+    const svg = createStrokeSvg(PATH, 100, 50, { width: 1 }, 'rgb(1, 2, 3)');
+
+    expect(svg).toContain("stroke='rgb(1, 2, 3)'");
+  });
+
+  it('should add dash arrays for dashed and dotted styles', () => {
+    const dashed = createStrokeSvg(PATH, 100, 50, { width: 2, style: 'dashed' }, '#000');
+    const dotted = createStrokeSvg(PATH, 100, 50, { width: 2, style: 'dotted' }, '#000');
+
+    expect(dashed).toContain("stroke-dasharray='6 4'");
+    expect(dotted).toContain("stroke-dasharray='0 8'");
+    expect(dotted).toContain("stroke-linecap='round'");
+  });
+
+  it('should paint with a gradient when configured', () => {
+    const svg = createStrokeSvg(
+      PATH,
+      100,
+      50,
+      { width: 1, gradient: { angle: 90, stops: ['red', 'blue'] } },
+      '#000'
+    );
+
+    expect(svg).toContain('<linearGradient');
+    expect(svg).toContain("stroke='url(#g)'");
+  });
+});
+
+describe('createFillSvg()', () => {
+  it('should fill the path with a color', () => {
+    const svg = createFillSvg(PATH, 100, 50, 'rgb(0, 128, 255)');
+
+    expect(svg).toContain(`<path d='${PATH}' fill='rgb(0, 128, 255)'/>`);
+    expect(svg).not.toContain('stroke=');
+  });
+
+  it('should fill the path with a gradient', () => {
+    const svg = createFillSvg(PATH, 100, 50, { angle: 90, stops: ['red', 'blue'] });
+
+    expect(svg).toContain("<linearGradient id='f'");
+    expect(svg).toContain("fill='url(#f)'");
+  });
+
+  it('should draw the stroke on top of the fill', () => {
+    const svg = createFillSvg(PATH, 100, 50, 'white', { width: 1, color: 'red' });
+
+    expect(svg.indexOf("fill='white'")).toBeLessThan(svg.indexOf("stroke='red'"));
+  });
+});
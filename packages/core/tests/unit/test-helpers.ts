@@ -0,0 +1,19 @@
+/**
+ * Unit Test Helpers
+ * Shared utilities for unit tests
+ */
+
+/**
+ * Create an element in the document with a fixed size
+ * happy-dom does not lay elements out, so offsetWidth and offsetHeight are stubbed
+ *
+ * @param width - offsetWidth in pixels
+ * @param height - offsetHeight in pixels
+ */
+export function createSizedElement(width: number, height: number): HTMLElement {
+  const element = document.createElement('div');
+  Object.defineProperty(element, 'offsetWidth', { value: width, configurable: true });
+  Object.defineProperty(element, 'offsetHeight', { value: height, configurable: true });
+  document.body.appendChild(element);
+  return element;
+}
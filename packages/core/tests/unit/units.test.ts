@@ -0,0 +1,227 @@
+/**
+ * Unit Tests: CSS Length Resolver
+ * Tests for utils/units.ts
+ * Coverage target: >90%
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  hasLiveLength,
+  isCssLength,
+  isSizeRelative,
+  resolveLength,
+  resolveRadii,
+  toCssRadii,
+} from '../../src/utils/units';
+import { createSizedElement } from './test-helpers';
+
+describe('isCssLength()', () => {
+  it('should accept non-negative lengths in the supported units', () => {
+    ['24px', '1.5rem', '.5em', '50%', '10vw', '5vh', '2REM'].forEach((value) => {
+      expect(isCssLength(value)).toBe(true);
+    });
+  });
+
+  it('should reject numbers, unknown units and negative lengths', () => {
+    [24, '24', '1.5foo', '-1rem', 'rem', ' 24px', 'calc(1rem)'].forEach((value) => {
+      expect(isCssLength(value)).toBe(false);
+    });
+  });
+});
+
+describe('resolveLength()', () => {
+  afterEach(() => {
+    document.documentElement.style.fontSize = '';
+    document.body.innerHTML = '';
+  });
+
+  it('should pass pixel numbers through', () => {
+    expect(resolveLength(24, createSizedElement(100, 100), 100)).toBe(24);
+  });
+
+  it('should resolve rem against the root font size', () => {
+    document.documentElement.style.fontSize = '20px';
+
+    expect(resolveLength('1.5rem', createSizedElement(100, 100), 100)).toBe(30);
+  });
+
+  it('should resolve em against the element font size', () => {
+    const element = createSizedElement(100, 100);
+    element.style.fontSize = '12px';
+
+    expect(resolveLength('2em', element, 100)).toBe(24);
+  });
+
+  it('should resolve % against the given size', () => {
+    expect(resolveLength('25%', createSizedElement(200, 80), 80)).toBe(20);
+  });
+
+  it('should resolve vw and vh against the viewport', () => {
+    const element = createSizedElement(100, 100);
+
+    expect(resolveLength('10vw', element, 100)).toBeCloseTo(window.innerWidth / 10, 10);
+    expect(resolveLength('10vh', element, 100)).toBeCloseTo(window.innerHeight / 10, 10);
+  });
+
+  it('should treat px lengths as pixels', () => {
+    expect(resolveLength('24px', createSizedElement(100, 100), 100)).toBe(24);
+  });
+});
+
+describe('resolveRadii()', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should return configs without CSS lengths unchanged', () => {
+    const config = { radius: 20, smoothing: 0.8 };
+
+    expect(resolveRadii(createSizedElement(100, 100), config)).toBe(config);
+  });
+
+  it('should resolve % against the shorter side', () => {
+    const config = resolveRadii(createSizedElement(200, 80), { radius: '50%', smoothing: 0.8 });
+
+    expect(config.radius).toBe(40);
+    expect(config.smoothing).toBe(0.8);
+  });
+
+  it('should resolve per-corner radii and radiusY', () => {
+    const config = resolveRadii(createSizedElement(200, 100), {
+      radius: { topLeft: '10%', topRight: 24, bottomRight: '10%', bottomLeft: 0 },
+      radiusY: '20%',
+      smoothing: 0.8,
+    });
+
+    expect(config.radius).toEqual({ topLeft: 10, topRight: 24, bottomRight: 10, bottomLeft: 0 });
+    expect(config.radiusY).toBe(20);
+  });
+
+  it('should follow the element size', () => {
+    const element = createSizedElement(100, 100);
+    const config = { radius: '25%', smoothing: 0.8 };
+
+    expect(resolveRadii(element, config).radius).toBe(25);
+
+    Object.defineProperty(element, 'offsetWidth', { value: 300, configurable: true });
+    Object.defineProperty(element, 'offsetHeight', { value: 200, configurable: true });
+
+    expect(resolveRadii(element, config).radius).toBe(50);
+  });
+
+  it('should treat numbers as fractions of the shorter side in relative mode', () => {
+    const config = resolveRadii(createSizedElement(300, 200), {
+      radius: { topLeft: 0.2237, topRight: '12px', bottomRight: 0.5, bottomLeft: 0 },
+      radiusY: 0.1,
+      radiusMode: 'relative',
+      smoothing: 0.6,
+    });
+
+    expect(config.radius).toEqual({
+      topLeft: 0.2237 * 200,
+      topRight: 12,
+      bottomRight: 100,
+      bottomLeft: 0,
+    });
+    expect(config.radiusY).toBe(20);
+  });
+
+  it('should keep font- and viewport-relative radii as configured', () => {
+    document.documentElement.style.fontSize = '20px';
+    const radius = { topLeft: '1rem', topRight: '10%' };
+    const config = resolveRadii(createSizedElement(100, 100), {
+      radius,
+      radiusY: 8,
+      smoothing: 0.8,
+    });
+
+    expect(config.radius).toEqual({ topLeft: 20, topRight: 10, bottomRight: 0, bottomLeft: 0 });
+    expect(config.lengths).toEqual({ radius, radiusY: 8 });
+    expect(resolveRadii(createSizedElement(100, 100), { radius: '10%' }).lengths).toBeUndefined();
+    document.documentElement.style.fontSize = '';
+  });
+
+  it('should give every corner half the shorter side for capsules', () => {
+    const config = resolveRadii(createSizedElement(300, 120), {
+      radius: { topLeft: 8, topRight: 8, bottomRight: 8, bottomLeft: 8 },
+      radiusY: 4,
+      capsule: true,
+      smoothing: 0.6,
+    });
+
+    expect(config.radius).toBe(60);
+    expect(config.radiusY).toBeNull();
+  });
+});
+
+describe('isSizeRelative()', () => {
+  it('should detect % in radius and radiusY', () => {
+    expect(isSizeRelative({ radius: '50%' })).toBe(true);
+    expect(isSizeRelative({ radius: 20, radiusY: { topLeft: '10%' } })).toBe(true);
+  });
+
+  it('should detect relative mode and capsules', () => {
+    expect(isSizeRelative({ radius: 0.2, radiusMode: 'relative' })).toBe(true);
+    expect(isSizeRelative({ capsule: true })).toBe(true);
+    expect(isSizeRelative({ capsule: false, radiusMode: 'absolute' })).toBe(false);
+  });
+
+  it('should ignore other units', () => {
+    expect(isSizeRelative({ radius: '1.5rem', radiusY: 10 })).toBe(false);
+    expect(isSizeRelative({})).toBe(false);
+  });
+});
+
+describe('hasLiveLength()', () => {
+  it('should detect rem, em, vw and vh in radius and radiusY', () => {
+    expect(hasLiveLength({ radius: '1.5rem' })).toBe(true);
+    expect(hasLiveLength({ radius: 20, radiusY: { bottomLeft: '2EM' } })).toBe(true);
+    expect(hasLiveLength({ radius: { topLeft: '5vw' } })).toBe(true);
+    expect(hasLiveLength({ radius: '5vh' })).toBe(true);
+  });
+
+  it('should ignore pixels, % and capsules', () => {
+    expect(hasLiveLength({ radius: '24px', radiusY: '50%' })).toBe(false);
+    expect(hasLiveLength({ radius: '1rem', capsule: true })).toBe(false);
+    expect(hasLiveLength({})).toBe(false);
+  });
+});
+
+describe('toCssRadii()', () => {
+  it('should write pixels rounded to two decimals', () => {
+    expect(toCssRadii({ radius: 10.126 }).radius.topLeft).toBe('10.13px');
+    expect(toCssRadii({ radius: 10 }).radiusY).toBeNull();
+  });
+
+  it('should keep configured lengths per corner and wrap scaled ones in calc()', () => {
+    const radii = toCssRadii(
+      {
+        radius: { topLeft: 16, topRight: 10, bottomRight: 16, bottomLeft: 16 },
+        lengths: { radius: { topLeft: '1rem', topRight: '10%', bottomRight: '1rem' } },
+      },
+      { topLeft: 1.8, topRight: 1.8, bottomRight: 1, bottomLeft: 1 }
+    );
+
+    expect(radii.radius).toEqual({
+      topLeft: 'calc(1.8 * 1rem)',
+      topRight: '18px',
+      bottomRight: '1rem',
+      bottomLeft: '16px',
+    });
+  });
+
+  it('should fall back to the configured radius for corners missing from radiusY', () => {
+    const radii = toCssRadii({
+      radius: 32,
+      radiusY: { topLeft: 8, topRight: 8, bottomRight: 32, bottomLeft: 32 },
+      lengths: { radius: '2rem', radiusY: { topLeft: 8, topRight: '.5rem' } },
+    });
+
+    expect(radii.radiusY).toEqual({
+      topLeft: '8px',
+      topRight: '.5rem',
+      bottomRight: '2rem',
+      bottomLeft: '2rem',
+    });
+  });
+});
@@ -8,7 +8,23 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import {
   validateRadius,
   validateSmoothing,
+  validateCornerRadius,
+  validateCornerSmoothing,
+  validateStroke,
+  validateShadow,
+  validateFocusRing,
+  validateMode,
+  validateFill,
+  validateShape,
+  validateAlgorithm,
+  validateExponent,
+  validatePreserveSmoothing,
+  validateRadiusMode,
+  validateCapsule,
+  validateResponsive,
+  validatePrecision,
   validateElement,
+  validateRoot,
   validateSelector,
   validateConfig,
   hasZeroDimensions,
@@ -98,6 +114,32 @@ describe('validateRadius', () => {
       );
     });
   });
+
+  describe('CSS lengths', () => {
+    it('should keep supported CSS lengths for render time', () => {
+      expect(validateRadius('1.5rem')).toBe('1.5rem');
+      expect(validateRadius('50%')).toBe('50%');
+      expect(validateRadius('2em', 30)).toBe('2em');
+      expect(consoleWarnSpy).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown units and negative lengths', () => {
+      expect(validateRadius('1.5foo')).toBe(20);
+      expect(validateRadius('-1rem', '1rem')).toBe('1rem');
+      expect(consoleWarnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Expected non-negative number or CSS length')
+      );
+    });
+
+    it('should accept CSS lengths per corner', () => {
+      expect(validateCornerRadius({ topLeft: '1rem', topRight: 8 }, '50%')).toEqual({
+        topLeft: '1rem',
+        topRight: 8,
+        bottomRight: '50%',
+        bottomLeft: '50%',
+      });
+    });
+  });
 });
 
 describe('validateSmoothing', () => {
@@ -183,6 +225,387 @@ describe('validateSmoothing', () => {
   });
 });
 
+describe('validateCornerRadius / validateCornerSmoothing', () => {
+  let consoleWarnSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleWarnSpy.mockRestore();
+  });
+
+  it('should pass single numbers through validateRadius', () => {
+    expect(validateCornerRadius(24)).toBe(24);
+    expect(validateCornerRadius(-5, 12)).toBe(12);
+  });
+
+  it('should normalize per-corner objects to all four corners', () => {
+    expect(validateCornerRadius({ topLeft: 24, topRight: 24 }, 0)).toEqual({
+      topLeft: 24,
+      topRight: 24,
+      bottomRight: 0,
+      bottomLeft: 0,
+    });
+  });
+
+  it('should inherit omitted corners from a per-corner fallback', () => {
+    const current = { topLeft: 10, topRight: 20, bottomRight: 30, bottomLeft: 40 };
+
+    expect(validateCornerRadius({ bottomLeft: 4 }, current)).toEqual({
+      ...current,
+      bottomLeft: 4,
+    });
+  });
+
+  it('should replace invalid corners with the inherited value and warn', () => {
+    expect(validateCornerRadius({ topLeft: -1, topRight: 8 }, 16)).toEqual({
+      topLeft: 16,
+      topRight: 8,
+      bottomRight: 16,
+      bottomLeft: 16,
+    });
+    expect(consoleWarnSpy).toHaveBeenCalled();
+  });
+
+  it('should clamp each smoothing corner to [0, 1]', () => {
+    expect(validateCornerSmoothing({ topLeft: 2, bottomRight: -1 }, 0.6)).toEqual({
+      topLeft: 1,
+      topRight: 0.6,
+      bottomRight: 0,
+      bottomLeft: 0.6,
+    });
+  });
+});
+
+describe('validateStroke', () => {
+  let consoleWarnSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleWarnSpy.mockRestore();
+  });
+
+  it('should return null for null/undefined', () => {
+    expect(validateStroke(null)).toBeNull();
+    expect(validateStroke(undefined)).toBeNull();
+    expect(consoleWarnSpy).not.toHaveBeenCalled();
+  });
+
+  it('should accept a complete stroke config', () => {
+    const stroke = {
+      width: 2,
+      color: '#333',
+      style: 'dashed',
+      gradient: { angle: 45, stops: ['red', 'blue'] },
+    };
+
+    expect(validateStroke(stroke)).toEqual(stroke);
+  });
+
+  it('should drop the stroke for an invalid width', () => {
+    expect(validateStroke({ width: 0 })).toBeNull();
+    expect(validateStroke({ width: 'thick' })).toBeNull();
+    expect(validateStroke('1px solid red')).toBeNull();
+    expect(consoleWarnSpy).toHaveBeenCalledTimes(3);
+  });
+
+  it('should drop invalid optional fields with a warning', () => {
+    expect(validateStroke({ width: 1, style: 'groove', gradient: { stops: [1, 2] } })).toEqual({
+      width: 1,
+    });
+    expect(consoleWarnSpy).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('validateShadow', () => {
+  let consoleWarnSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleWarnSpy.mockRestore();
+  });
+
+  it('should return null for null/undefined', () => {
+    expect(validateShadow(null)).toBeNull();
+    expect(validateShadow(undefined)).toBeNull();
+  });
+
+  it('should normalize a single shadow to a list', () => {
+    expect(validateShadow({ offsetY: 4, blur: 12, color: 'black' })).toEqual([
+      { offsetY: 4, blur: 12, color: 'black' },
+    ]);
+  });
+
+  it('should keep layered shadows in order', () => {
+    const shadows = [{ offsetY: 1, blur: 2 }, { offsetY: 8, blur: 24 }];
+
+    expect(validateShadow(shadows)).toEqual(shadows);
+  });
+
+  it('should drop invalid fields with a warning', () => {
+    expect(validateShadow({ offsetX: NaN, blur: -4, color: '' })).toEqual([{}]);
+    expect(consoleWarnSpy).toHaveBeenCalledTimes(3);
+  });
+
+  it('should drop non-object entries and return null when none remain', () => {
+    expect(validateShadow([null, '0 4px 12px black'])).toBeNull();
+    expect(validateShadow([])).toBeNull();
+    expect(consoleWarnSpy).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('validateFocusRing', () => {
+  let consoleWarnSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleWarnSpy.mockRestore();
+  });
+
+  it('should return null when disabled', () => {
+    expect(validateFocusRing(undefined)).toBeNull();
+    expect(validateFocusRing(null)).toBeNull();
+    expect(validateFocusRing(false)).toBeNull();
+    expect(consoleWarnSpy).not.toHaveBeenCalled();
+  });
+
+  it('should enable defaults for true', () => {
+    expect(validateFocusRing(true)).toEqual({});
+  });
+
+  it('should accept a complete config', () => {
+    const ring = { width: 3, color: '#0066cc', outlineOffset: 4 };
+
+    expect(validateFocusRing(ring)).toEqual(ring);
+  });
+
+  it('should drop invalid fields with a warning', () => {
+    expect(validateFocusRing({ width: 0, color: 42, outlineOffset: -2 })).toEqual({});
+    expect(consoleWarnSpy).toHaveBeenCalledTimes(3);
+  });
+
+  it('should disable the ring for invalid types', () => {
+    expect(validateFocusRing('2px solid blue')).toBeNull();
+    expect(consoleWarnSpy).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('validateMode / validateFill', () => {
+  let consoleWarnSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleWarnSpy.mockRestore();
+  });
+
+  it('should accept clip and background modes', () => {
+    expect(validateMode(undefined)).toBe('clip');
+    expect(validateMode('clip')).toBe('clip');
+    expect(validateMode('background')).toBe('background');
+    expect(consoleWarnSpy).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to clip for invalid modes', () => {
+    expect(validateMode('paint')).toBe('clip');
+    expect(consoleWarnSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should accept a color or gradient fill', () => {
+    expect(validateFill('#fff')).toBe('#fff');
+    expect(validateFill({ angle: 45, stops: ['red', 'blue'] })).toEqual({
+      angle: 45,
+      stops: ['red', 'blue'],
+    });
+    expect(validateFill(undefined)).toBeNull();
+  });
+
+  it('should drop invalid fills with a warning', () => {
+    expect(validateFill(42)).toBeNull();
+    expect(validateFill({ stops: [] })).toBeNull();
+    expect(consoleWarnSpy).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('validateShape', () => {
+  let consoleWarnSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleWarnSpy.mockRestore();
+  });
+
+  it('should accept functions and registered names', () => {
+    const shape = (): string => 'M 0,0 Z';
+
+    expect(validateShape(shape)).toBe(shape);
+    expect(validateShape('squircle')).toBe('squircle');
+    expect(validateShape(null)).toBeNull();
+    expect(consoleWarnSpy).not.toHaveBeenCalled();
+  });
+
+  it('should drop unknown names and other values with a warning', () => {
+    expect(validateShape('blob')).toBeNull();
+    expect(validateShape(42)).toBeNull();
+    expect(consoleWarnSpy).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('validateAlgorithm / validateExponent', () => {
+  let consoleWarnSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleWarnSpy.mockRestore();
+  });
+
+  it('should accept known algorithms and default to figma', () => {
+    expect(validateAlgorithm('superellipse')).toBe('superellipse');
+    expect(validateAlgorithm('apple')).toBe('apple');
+    expect(validateAlgorithm('figma')).toBe('figma');
+    expect(validateAlgorithm(undefined)).toBe('figma');
+    expect(consoleWarnSpy).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to figma for unknown algorithms with a warning', () => {
+    expect(validateAlgorithm('material')).toBe('figma');
+    expect(consoleWarnSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should accept exponents of 2 and above', () => {
+    expect(validateExponent(2)).toBe(2);
+    expect(validateExponent(4.5)).toBe(4.5);
+    expect(validateExponent(null)).toBeNull();
+    expect(validateExponent(undefined)).toBeNull();
+    expect(consoleWarnSpy).not.toHaveBeenCalled();
+  });
+
+  it('should clamp exponents below 2 and drop invalid values with a warning', () => {
+    expect(validateExponent(1)).toBe(2);
+    expect(validateExponent(NaN)).toBeNull();
+    expect(validateExponent('5')).toBeNull();
+    expect(consoleWarnSpy).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('validatePreserveSmoothing', () => {
+  it('should accept booleans and default to false', () => {
+    expect(validatePreserveSmoothing(true)).toBe(true);
+    expect(validatePreserveSmoothing(false)).toBe(false);
+    expect(validatePreserveSmoothing(undefined)).toBe(false);
+  });
+
+  it('should fall back to false for other values with a warning', () => {
+    const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(validatePreserveSmoothing('yes')).toBe(false);
+    expect(consoleWarnSpy).toHaveBeenCalledTimes(1);
+
+    consoleWarnSpy.mockRestore();
+  });
+});
+
+describe('validateRadiusMode', () => {
+  it('should accept both modes and default to absolute', () => {
+    expect(validateRadiusMode('relative')).toBe('relative');
+    expect(validateRadiusMode('absolute')).toBe('absolute');
+    expect(validateRadiusMode(undefined)).toBe('absolute');
+  });
+
+  it('should fall back to absolute for other values with a warning', () => {
+    const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(validateRadiusMode('percent')).toBe('absolute');
+    expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('Invalid radiusMode'));
+
+    consoleWarnSpy.mockRestore();
+  });
+});
+
+describe('validateCapsule', () => {
+  it('should accept booleans and default to false', () => {
+    expect(validateCapsule(true)).toBe(true);
+    expect(validateCapsule(undefined)).toBe(false);
+  });
+
+  it('should fall back to false for other values with a warning', () => {
+    const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(validateCapsule(1)).toBe(false);
+    expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('Invalid capsule'));
+
+    consoleWarnSpy.mockRestore();
+  });
+});
+
+describe('validateResponsive', () => {
+  it('should accept booleans and default to false', () => {
+    expect(validateResponsive(true)).toBe(true);
+    expect(validateResponsive(undefined)).toBe(false);
+  });
+
+  it('should fall back to false for other values with a warning', () => {
+    const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(validateResponsive('yes')).toBe(false);
+    expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('Invalid responsive'));
+
+    consoleWarnSpy.mockRestore();
+  });
+});
+
+describe('validatePrecision', () => {
+  it('should accept integers from 0 to 4 and default to null', () => {
+    expect(validatePrecision(0)).toBe(0);
+    expect(validatePrecision(4)).toBe(4);
+    expect(validatePrecision(undefined)).toBeNull();
+    expect(validatePrecision(null)).toBeNull();
+  });
+
+  it('should round and clamp other numbers with a warning', () => {
+    const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(validatePrecision(1.6)).toBe(2);
+    expect(validatePrecision(9)).toBe(4);
+    expect(validatePrecision(-1)).toBe(0);
+    expect(consoleWarnSpy).toHaveBeenCalledTimes(3);
+    expect(consoleWarnSpy).toHaveBeenCalledWith(
+      expect.stringContaining('Precision 9 is not an integer from 0 to 4')
+    );
+
+    consoleWarnSpy.mockRestore();
+  });
+
+  it('should fall back to null for non-numbers with a warning', () => {
+    const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(validatePrecision('2')).toBeNull();
+    expect(validatePrecision(NaN)).toBeNull();
+    expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('Invalid precision'));
+
+    consoleWarnSpy.mockRestore();
+  });
+});
+
 describe('validateElement', () => {
   let consoleWarnSpy: ReturnType<typeof vi.spyOn>;
 
@@ -243,6 +666,27 @@ describe('validateElement', () => {
   });
 });
 
+describe('validateRoot', () => {
+  it('should accept documents, shadow roots and elements', () => {
+    const host = document.createElement('div');
+
+    expect(validateRoot(document)).toBe(true);
+    expect(validateRoot(host.attachShadow({ mode: 'open' }))).toBe(true);
+    expect(validateRoot(host)).toBe(true);
+  });
+
+  it('should reject other values with a warning', () => {
+    const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(validateRoot(null)).toBe(false);
+    expect(validateRoot('#app')).toBe(false);
+    expect(validateRoot(document.createTextNode('text'))).toBe(false);
+    expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('Invalid root'));
+
+    consoleWarnSpy.mockRestore();
+  });
+});
+
 describe('validateSelector', () => {
   let consoleWarnSpy: ReturnType<typeof vi.spyOn>;
 
@@ -397,6 +841,11 @@ describe('validateConfig', () => {
     expect(result.tier).toBe('clippath');
   });
 
+  it('should accept mask tier', () => {
+    const result = validateConfig({ radius: 20, smoothing: 0.8, tier: 'mask' });
+    expect(result.tier).toBe('mask');
+  });
+
   it('should ignore invalid tier', () => {
     const result = validateConfig({ radius: 20, smoothing: 0.8, tier: 'invalid' as any });
     expect(result.tier).toBeUndefined();